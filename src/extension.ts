@@ -3,6 +3,7 @@ import { checkForUpdates } from './services/github';
 import { createStatusBarItem } from './handlers/statusBar';
 import { initializeLogging, log } from './utils/logger';
 import { getCursorTokenFromDB } from './services/database';
+import { checkTeamMembership } from './services/team';
 import { checkUsageBasedStatus, getCurrentUsageLimit, setUsageLimit } from './services/api';
 import { resetNotifications } from './handlers/notifications';
 import {
@@ -12,16 +13,32 @@ import {
   clearAllIntervals,
   getCooldownStartTime,
   startCountdownDisplay,
+  refreshAfterActivity,
 } from './utils/cooldown';
-import { updateStats } from './utils/updateStats';
+import { updateStats, refreshStats, displaySharedStats } from './utils/updateStats';
+import {
+  isLeaderWindow,
+  releaseLeadership,
+  startLeaderHeartbeat,
+  stopLeaderHeartbeat,
+  watchSharedStats,
+} from './services/windowCoordinator';
+import { isActivityRefreshEnabled, watchActivity } from './services/activityWatcher';
 import { SUPPORTED_CURRENCIES } from './utils/currency';
 import { convertAndFormatCurrency } from './utils/currency';
 import { createReportCommand } from './utils/report';
 import { initializeI18n, t, setOnLanguageChangeCallback } from './utils/i18n';
+import { openDashboard } from './handlers/dashboard';
+import { showTeamSpend, refreshTeamSpend } from './handlers/teamSpend';
+import { manageTeamLimits } from './handlers/teamLimits';
+import { exportWorkspaceUsage } from './handlers/workspaceUsage';
+import { exportUsage } from './handlers/usageExport';
+import { showBillingHistory } from './handlers/billingHistory';
 
 let statusBarItem: vscode.StatusBarItem;
 let extensionContext: vscode.ExtensionContext;
 let outputChannel: vscode.OutputChannel | undefined;
+let activityWatcher: vscode.Disposable | undefined;
 let lastReleaseCheck: number = 0;
 const RELEASE_CHECK_INTERVAL = 1000 * 60 * 60; // Check every hour
 
@@ -31,6 +48,14 @@ export function getRefreshIntervalMs(): number {
   return intervalSeconds * 1000;
 }
 
+/**
+ * Watches Cursor's database for AI requests while refreshing on activity is enabled
+ */
+function restartActivityWatcher(): void {
+  activityWatcher?.dispose();
+  activityWatcher = isActivityRefreshEnabled() ? watchActivity(refreshAfterActivity) : undefined;
+}
+
 // Add this new function
 export function getExtensionContext(): vscode.ExtensionContext {
   if (!extensionContext) {
@@ -94,16 +119,19 @@ export async function activate(context: vscode.ExtensionContext) {
       log(`[Window] Window focus changed: ${focused ? 'focused' : 'unfocused'}`);
 
       if (focused) {
+        // Only focused windows poll, so only they keep or take over leadership
+        const heartbeat = startLeaderHeartbeat();
         // Check if we're in cooldown
         if (getCooldownStartTime()) {
           log('[Window] Window focused during cooldown, restarting countdown display');
           startCountdownDisplay();
         } else {
-          // Only update stats and restart refresh if not in cooldown
-          updateStats(statusBarItem);
+          // Shows recent stats from another window first
+          heartbeat.then(() => refreshStats(statusBarItem));
           startRefreshInterval();
         }
       } else {
+        stopLeaderHeartbeat();
         clearAllIntervals();
       }
     });
@@ -164,11 +192,12 @@ export async function activate(context: vscode.ExtensionContext) {
       },
     );
 
-    // Add configuration change listener
+    // Add configuration change listener. Display settings re-render the latest stats
+    // instead of fetching again, since every window sees the same change.
     const configListener = vscode.workspace.onDidChangeConfiguration(async (e) => {
       if (e.affectsConfiguration('cursorStats.enableStatusBarColors')) {
         log('[Settings] Status bar colors setting changed, updating display...');
-        await updateStats(statusBarItem);
+        await refreshStats(statusBarItem);
       }
       if (e.affectsConfiguration('cursorStats.refreshInterval')) {
         log('[Settings] Refresh interval changed, restarting timer...');
@@ -176,30 +205,46 @@ export async function activate(context: vscode.ExtensionContext) {
       }
       if (e.affectsConfiguration('cursorStats.showTotalRequests')) {
         log('[Settings] Show total requests setting changed, updating display...');
-        await updateStats(statusBarItem);
+        await refreshStats(statusBarItem);
       }
       if (e.affectsConfiguration('cursorStats.currency')) {
         log('[Settings] Currency setting changed, updating display...');
-        await updateStats(statusBarItem);
+        await refreshStats(statusBarItem);
       }
       if (e.affectsConfiguration('cursorStats.excludeWeekends')) {
         log('[Settings] Exclude weekends setting changed, updating display...');
-        await updateStats(statusBarItem);
+        await refreshStats(statusBarItem);
       }
       if (e.affectsConfiguration('cursorStats.showDailyRemaining')) {
         log('[Settings] Show daily remaining setting changed, updating display...');
-        await updateStats(statusBarItem);
+        await refreshStats(statusBarItem);
       }
       if (e.affectsConfiguration('cursorStats.spendingAlertThreshold')) {
-        log(
-          '[Settings] Spending alert threshold changed, resetting notifications and updating stats...',
-        );
-        resetNotifications(); // This will set isSpendingCheckInitialRun to true
-        await updateStats(statusBarItem); // This will trigger checkAndNotifySpending with the new logic
+        log('[Settings] Spending alert threshold changed, updating stats...');
+        // The next check with the new threshold only records the amounts already passed
+        await refreshStats(statusBarItem);
+      }
+      if (e.affectsConfiguration('cursorStats.modelPatterns')) {
+        log('[Settings] Model patterns changed, updating display...');
+        // Only the polling window fetches again, the others receive its results
+        if (isLeaderWindow()) {
+          await updateStats(statusBarItem);
+        }
+      }
+      if (e.affectsConfiguration('cursorStats.activeTeamId')) {
+        log('[Settings] Active team changed, updating display...');
+        if (isLeaderWindow()) {
+          await updateStats(statusBarItem);
+        }
+        await refreshTeamSpend();
       }
       if (e.affectsConfiguration('cursorStats.language')) {
         log('[Settings] Language setting changed, updating display...');
-        await updateStats(statusBarItem);
+        await refreshStats(statusBarItem);
+      }
+      if (e.affectsConfiguration('cursorStats.refreshOnActivity') || e.affectsConfiguration('cursorStats.customDatabasePath')) {
+        log('[Settings] Activity refresh setting changed, restarting database watcher...');
+        restartActivityWatcher();
       }
     });
 
@@ -370,6 +415,69 @@ export async function activate(context: vscode.ExtensionContext) {
           log(`[Command] Language changed to: ${selectedLanguage.value}`);
         }
       }),
+      vscode.commands.registerCommand('cursor-stats.openDashboard', async () => {
+        log('[Command] Opening usage dashboard...');
+        await openDashboard();
+      }),
+      vscode.commands.registerCommand('cursor-stats.showTeamSpend', async () => {
+        log('[Command] Opening team spend view...');
+        await showTeamSpend();
+      }),
+      vscode.commands.registerCommand('cursor-stats.selectTeam', async () => {
+        log('[Command] Opening team selection...');
+        const token = await getCursorTokenFromDB();
+        if (!token) {
+          vscode.window.showErrorMessage(t('settings.signInRequired'));
+          return;
+        }
+
+        try {
+          const membership = await checkTeamMembership(token, context);
+          if (membership.teams.length === 0) {
+            vscode.window.showInformationMessage(t('teamSpend.notTeamMember'));
+            return;
+          }
+
+          const selected = await vscode.window.showQuickPick(
+            membership.teams.map((team) => ({
+              label: team.name,
+              description: team.id === membership.teamId ? t('commands.activeTeam') : team.role,
+              detail: `ID ${team.id}`,
+              teamId: team.id,
+            })),
+            { placeHolder: t('commands.selectTeamPrompt') },
+          );
+
+          if (selected && selected.teamId !== membership.teamId) {
+            const config = vscode.workspace.getConfiguration('cursorStats');
+            await config.update('activeTeamId', selected.teamId, vscode.ConfigurationTarget.Global);
+            log(`[Settings] Active team changed to ${selected.teamId}`);
+            vscode.window.showInformationMessage(t('commands.teamSelected', { team: selected.label }));
+          }
+        } catch (error: any) {
+          log(`[Command] Error selecting team: ${error.message}`, true);
+          vscode.window.showErrorMessage(t('teamSpend.loadFailed', { error: error.message }));
+        }
+      }),
+      vscode.commands.registerCommand('cursor-stats.manageTeamLimits', async () => {
+        log('[Command] Opening team limit management...');
+        if (await manageTeamLimits()) {
+          // The user's own limit may have changed too
+          await Promise.all([updateStats(statusBarItem), refreshTeamSpend()]);
+        }
+      }),
+      vscode.commands.registerCommand('cursor-stats.exportWorkspaceUsage', async () => {
+        log('[Command] Exporting workspace usage...');
+        await exportWorkspaceUsage();
+      }),
+      vscode.commands.registerCommand('cursor-stats.exportUsage', async () => {
+        log('[Command] Exporting usage...');
+        await exportUsage();
+      }),
+      vscode.commands.registerCommand('cursor-stats.showBillingHistory', async () => {
+        log('[Command] Opening billing history...');
+        await showBillingHistory();
+      }),
     );
 
     // Add to subscriptions
@@ -392,9 +500,20 @@ export async function activate(context: vscode.ExtensionContext) {
     // Start refresh interval
     startRefreshInterval();
 
+    // Render the stats other windows fetch
+    const sharedStatsWatcher = watchSharedStats((shared) => displaySharedStats(statusBarItem, shared));
+    context.subscriptions.push(sharedStatsWatcher);
+
+    // Refresh soon after AI requests, the timer remains as a fallback
+    restartActivityWatcher();
+    context.subscriptions.push({ dispose: () => activityWatcher?.dispose() });
+
     // Initial update and update check
     setTimeout(async () => {
-      await updateStats(statusBarItem);
+      if (vscode.window.state.focused) {
+        await startLeaderHeartbeat();
+      }
+      await refreshStats(statusBarItem);
       // Check for updates after initial stats are loaded
       await checkForUpdates(lastReleaseCheck, RELEASE_CHECK_INTERVAL);
     }, 1500);
@@ -436,6 +555,9 @@ export function deactivate() {
     clearAllIntervals();
     log('[Deactivation] All intervals cleared');
 
+    stopLeaderHeartbeat();
+    releaseLeadership();
+
     if (outputChannel) {
       outputChannel.dispose();
       log('[Deactivation] Output channel disposed');
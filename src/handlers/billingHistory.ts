@@ -0,0 +1,351 @@
+import * as vscode from 'vscode';
+import { MonthlyUsage, UsageBasedPricing, UsageEvent } from '../interfaces/types';
+import { log } from '../utils/logger';
+import { t } from '../utils/i18n';
+import { convertAndFormatCurrency } from '../utils/currency';
+import { escapeHtml, getNonce } from '../utils/html';
+import { getCursorTokenFromDB } from '../services/database';
+import { getMonthKey, getMonthlyUsage } from '../services/invoiceCache';
+import { getCursorApiClient } from '../services/client';
+import { getMonthName } from './statusBar';
+import { getUsageExportRows, parseMonthInput } from './usageExport';
+import { getUsageEventsPage, isUsageEventsEnabled } from '../utils/usageEvents';
+
+// Months offered in the month picker, any other month can still be typed in
+const PICKER_MONTHS = 24;
+
+export interface ModelSpend {
+  model: string;
+  requests: number;
+  totalDollars: number;
+}
+
+export interface MonthSummary {
+  totalDollars: number;
+  midMonthPaidDollars: number;
+  models: ModelSpend[];
+  payments: { description: string; amountDollars: number }[];
+}
+
+interface BillingHistoryMessage {
+  command: string;
+  month?: string;
+  query?: string;
+  page?: number;
+}
+
+interface BillingHistoryViewState {
+  usage?: MonthlyUsage;
+  error?: string;
+}
+
+let billingHistoryPanel: vscode.WebviewPanel | undefined;
+let viewState: BillingHistoryViewState = {};
+let selectedMonth: { month: number; year: number } | undefined;
+let eventQuery = '';
+let eventPage = 0;
+
+function roundCents(dollars: number): number {
+  return Math.round(dollars * 100) / 100;
+}
+
+/**
+ * Sums the invoice items of a month per model, most expensive first, and lists the
+ * mid-month payments separately
+ */
+export function summarizeMonth(pricing: UsageBasedPricing): MonthSummary {
+  const models = new Map<string, ModelSpend>();
+  const payments: MonthSummary['payments'] = [];
+
+  for (const row of getUsageExportRows(pricing)) {
+    if (row.type === 'midMonthPayment') {
+      payments.push({ description: row.description, amountDollars: -row.total });
+      continue;
+    }
+    const spend = models.get(row.model) || { model: row.model, requests: 0, totalDollars: 0 };
+    spend.requests += row.requests || 0;
+    spend.totalDollars = roundCents(spend.totalDollars + row.total);
+    models.set(row.model, spend);
+  }
+
+  const sortedModels = Array.from(models.values()).sort((a, b) => b.totalDollars - a.totalDollars);
+  return {
+    totalDollars: roundCents(sortedModels.reduce((sum, spend) => sum + spend.totalDollars, 0)),
+    midMonthPaidDollars: pricing.midMonthPayment,
+    models: sortedModels,
+    payments,
+  };
+}
+
+function getPickerMonths(): { month: number; year: number }[] {
+  const now = new Date();
+  return Array.from({ length: PICKER_MONTHS }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - index, 1);
+    return { month: date.getMonth() + 1, year: date.getFullYear() };
+  });
+}
+
+async function renderMonthBody(usage: MonthlyUsage): Promise<string> {
+  const summary = summarizeMonth(usage.usageBasedPricing);
+  const source = usage.cachedAt
+    ? t('billingHistory.cached', { date: new Date(usage.cachedAt).toLocaleString() })
+    : t('billingHistory.live');
+
+  const modelRows = await Promise.all(
+    summary.models.map(
+      async (spend) => `<tr>
+        <td>${escapeHtml(spend.model)}</td>
+        <td class="num">${spend.requests}</td>
+        <td class="num">${escapeHtml(await convertAndFormatCurrency(spend.totalDollars))}</td>
+        <td class="num">${summary.totalDollars > 0 ? Math.round((spend.totalDollars / summary.totalDollars) * 100) : 0}%</td>
+      </tr>`,
+    ),
+  );
+  const paymentRows = await Promise.all(
+    summary.payments.map(
+      async (payment) => `<tr>
+        <td>${escapeHtml(payment.description)}</td>
+        <td class="num">${escapeHtml(await convertAndFormatCurrency(payment.amountDollars))}</td>
+      </tr>`,
+    ),
+  );
+
+  return `
+    <p class="summary">
+      ${escapeHtml(t('billingHistory.total', { amount: await convertAndFormatCurrency(summary.totalDollars) }))} •
+      ${escapeHtml(t('billingHistory.midMonthPaid', { amount: await convertAndFormatCurrency(summary.midMonthPaidDollars) }))}
+      ${usage.usageBasedPricing.hasUnpaidMidMonthInvoice ? ` • <span class="error">${escapeHtml(t('billingHistory.unpaidInvoice'))}</span>` : ''}
+    </p>
+    <p class="summary">${escapeHtml(source)}</p>
+    <h2>${escapeHtml(t('billingHistory.byModel'))}</h2>
+    ${
+      modelRows.length > 0
+        ? `<table>
+            <tr>
+              <th>${escapeHtml(t('dashboard.model'))}</th>
+              <th class="num">${escapeHtml(t('statusBar.requests'))}</th>
+              <th class="num">${escapeHtml(t('statusBar.total'))}</th>
+              <th class="num">${escapeHtml(t('billingHistory.share'))}</th>
+            </tr>
+            ${modelRows.join('')}
+          </table>`
+        : `<p class="empty">${escapeHtml(t('billingHistory.noUsage'))}</p>`
+    }
+    ${
+      paymentRows.length > 0
+        ? `<h2>${escapeHtml(t('billingHistory.midMonthPayments'))}</h2>
+          <table>${paymentRows.join('')}</table>`
+        : ''
+    }`;
+}
+
+async function renderUsageEvents(events: UsageEvent[]): Promise<string> {
+  const page = getUsageEventsPage(events, eventQuery, eventPage);
+  const rows = await Promise.all(
+    page.events.map(
+      async (event) => `<tr>
+        <td>${escapeHtml(new Date(event.timestamp).toLocaleString())}</td>
+        <td>${escapeHtml(event.model)}</td>
+        <td>${escapeHtml(t(`billingHistory.eventKinds.${event.kind}`))}</td>
+        <td class="num">${event.requests}</td>
+        <td class="num">${escapeHtml(await convertAndFormatCurrency(event.costCents / 100))}</td>
+      </tr>`,
+    ),
+  );
+
+  return `
+    <h2>${escapeHtml(t('billingHistory.requestsTitle'))}</h2>
+    <p>
+      <input id="eventQuery" type="search" value="${escapeHtml(eventQuery)}" placeholder="${escapeHtml(t('billingHistory.searchPlaceholder'))}">
+    </p>
+    ${
+      rows.length > 0
+        ? `<table>
+            <tr>
+              <th>${escapeHtml(t('billingHistory.time'))}</th>
+              <th>${escapeHtml(t('dashboard.model'))}</th>
+              <th>${escapeHtml(t('billingHistory.kind'))}</th>
+              <th class="num">${escapeHtml(t('statusBar.requests'))}</th>
+              <th class="num">${escapeHtml(t('billingHistory.cost'))}</th>
+            </tr>
+            ${rows.join('')}
+          </table>`
+        : `<p class="empty">${escapeHtml(t('billingHistory.noEvents'))}</p>`
+    }
+    <p class="summary">
+      <button data-page="${page.page - 1}"${page.page === 0 ? ' disabled' : ''}>◀</button>
+      ${escapeHtml(t('billingHistory.pageInfo', { page: page.page + 1, pageCount: page.pageCount, total: page.total }))}
+      <button data-page="${page.page + 1}"${page.page >= page.pageCount - 1 ? ' disabled' : ''}>▶</button>
+    </p>`;
+}
+
+async function renderBillingHistoryHtml(): Promise<string> {
+  let body: string;
+  if (viewState.error) {
+    body = `<p class="error">${escapeHtml(viewState.error)}</p>`;
+  } else if (!viewState.usage) {
+    body = `<p class="empty">${escapeHtml(t('billingHistory.loading'))}</p>`;
+  } else {
+    body = await renderMonthBody(viewState.usage);
+    const events = viewState.usage.usageBasedPricing.usageEvents;
+    if (events) {
+      body += await renderUsageEvents(events);
+    }
+  }
+
+  const selectedKey = selectedMonth ? getMonthKey(selectedMonth.month, selectedMonth.year) : '';
+  const options = getPickerMonths()
+    .map(({ month, year }) => {
+      const key = getMonthKey(month, year);
+      return `<option value="${key}"${key === selectedKey ? ' selected' : ''}>${escapeHtml(`${getMonthName(month)} ${year}`)}</option>`;
+    })
+    .join('');
+
+  const nonce = getNonce();
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <style>
+        body {
+          padding: 1.5rem;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-editor-foreground);
+          background: var(--vscode-editor-background);
+        }
+        h1, h2 { font-weight: 400; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-textSeparator-foreground); }
+        .num { text-align: right; white-space: nowrap; }
+        .summary, .empty { opacity: 0.8; }
+        .error { color: var(--vscode-errorForeground); }
+        select, input {
+          color: var(--vscode-input-foreground);
+          background: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+          padding: 3px 6px;
+        }
+        button:disabled { opacity: 0.5; cursor: default; }
+        button {
+          color: var(--vscode-button-foreground);
+          background: var(--vscode-button-background);
+          border: none;
+          padding: 4px 12px;
+          cursor: pointer;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>🧾 ${escapeHtml(t('billingHistory.title'))}</h1>
+      <p>
+        <select id="month">${options}</select>
+        <input id="otherMonth" type="month" value="${selectedKey}" title="${escapeHtml(t('billingHistory.otherMonth'))}">
+        <button id="refresh">🔄 ${escapeHtml(t('statusBar.refresh'))}</button>
+      </p>
+      ${body}
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const selectMonth = (month) => month && vscode.postMessage({ command: 'selectMonth', month });
+        document.getElementById('month').addEventListener('change', (event) => selectMonth(event.target.value));
+        document.getElementById('otherMonth').addEventListener('change', (event) => selectMonth(event.target.value));
+        document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+        document.getElementById('eventQuery')?.addEventListener('change', (event) =>
+          vscode.postMessage({ command: 'searchEvents', query: event.target.value }),
+        );
+        document.querySelectorAll('[data-page]').forEach((button) => {
+          button.addEventListener('click', () => vscode.postMessage({ command: 'eventPage', page: Number(button.dataset.page) }));
+        });
+      </script>
+    </body>
+    </html>`;
+}
+
+async function renderBillingHistory(): Promise<void> {
+  if (!billingHistoryPanel) {
+    return;
+  }
+  try {
+    billingHistoryPanel.webview.html = await renderBillingHistoryHtml();
+  } catch (error: any) {
+    log('[Billing] Error rendering billing history: ' + error.message, true);
+  }
+}
+
+async function loadMonth(refresh: boolean = false): Promise<void> {
+  viewState = {};
+  eventPage = 0;
+  await renderBillingHistory();
+  if (!selectedMonth) {
+    return;
+  }
+
+  try {
+    const token = await getCursorTokenFromDB();
+    if (!token) {
+      viewState.error = t('settings.signInRequired');
+      return;
+    }
+    viewState.usage = await getMonthlyUsage(
+      token,
+      selectedMonth.month,
+      selectedMonth.year,
+      refresh,
+      isUsageEventsEnabled(),
+    );
+  } catch (error: any) {
+    log(`[Billing] Error loading the invoice of ${selectedMonth.month}/${selectedMonth.year}: ${error.message}`, true);
+    viewState.error = t('billingHistory.loadFailed', { error: error.message });
+  } finally {
+    await renderBillingHistory();
+  }
+}
+
+/**
+ * Opens the billing history view on the previous month, where the invoice of any
+ * past month can be browsed, or reveals it if it is already open
+ */
+export async function showBillingHistory(): Promise<void> {
+  if (billingHistoryPanel) {
+    billingHistoryPanel.reveal(vscode.ViewColumn.One);
+    return;
+  }
+
+  log('[Billing] Opening billing history view');
+  selectedMonth = getPickerMonths()[1];
+  billingHistoryPanel = vscode.window.createWebviewPanel(
+    'cursorStatsBillingHistory',
+    t('billingHistory.title'),
+    vscode.ViewColumn.One,
+    { enableScripts: true },
+  );
+  billingHistoryPanel.onDidDispose(() => {
+    billingHistoryPanel = undefined;
+    viewState = {};
+    eventQuery = '';
+    log('[Billing] Billing history view closed');
+  });
+  billingHistoryPanel.webview.onDidReceiveMessage(async (message: BillingHistoryMessage) => {
+    if (message.command === 'selectMonth') {
+      const month = parseMonthInput(message.month || '');
+      if (month) {
+        selectedMonth = month;
+        await loadMonth();
+      }
+    } else if (message.command === 'refresh') {
+      getCursorApiClient().clearCache();
+      await loadMonth(true);
+    } else if (message.command === 'searchEvents') {
+      eventQuery = message.query || '';
+      eventPage = 0;
+      await renderBillingHistory();
+    } else if (message.command === 'eventPage' && typeof message.page === 'number') {
+      eventPage = message.page;
+      await renderBillingHistory();
+    }
+  });
+
+  await loadMonth();
+}
@@ -0,0 +1,383 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CursorStats, RequestTimeline, UsageItem, UsageSnapshot } from '../interfaces/types';
+import { log } from '../utils/logger';
+import { t } from '../utils/i18n';
+import { convertAndFormatCurrency } from '../utils/currency';
+import { getSnapshots, getDayKey } from '../services/history';
+import { escapeHtml } from '../utils/html';
+import { getHourKey, getRequestTimeline } from '../services/requestLog';
+
+export interface DashboardData {
+  stats: CursorStats;
+  usageBasedCostDollars: number;
+  hardLimitDollars?: number;
+  isUsageBasedEnabled: boolean;
+  updatedAt: number;
+}
+
+interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 32;
+const HOUR_MS = 60 * 60 * 1000;
+// Without stats there is no billing period, so the local request log covers this many days
+const LOCAL_REQUEST_DAYS = 30;
+
+let dashboardPanel: vscode.WebviewPanel | undefined;
+let lastDashboardData: DashboardData | undefined;
+
+function parseDollars(item: UsageItem): number {
+  return parseFloat(item.totalDollars.replace('$', '')) || 0;
+}
+
+/**
+ * Sums invoice items per model, ignoring mid-month payment credits
+ */
+function getModelCosts(items: UsageItem[]): Map<string, number> {
+  const costs = new Map<string, number>();
+  for (const item of items) {
+    const cost = parseDollars(item);
+    if (!item.modelNameForTooltip || cost <= 0) {
+      continue;
+    }
+    costs.set(item.modelNameForTooltip, (costs.get(item.modelNameForTooltip) || 0) + cost);
+  }
+  return costs;
+}
+
+function getTotalCost(items: UsageItem[]): number {
+  return items.reduce((sum, item) => {
+    const cost = parseDollars(item);
+    return cost > 0 ? sum + cost : sum;
+  }, 0);
+}
+
+/**
+ * Converts the last snapshot of each day into the number of premium requests used that day.
+ * If history starts after the period began, the first recorded day only serves as a baseline.
+ */
+function getDailyPremiumBurn(snapshots: UsageSnapshot[], startOfMonth: string): ChartPoint[] {
+  const lastByDay = new Map<string, UsageSnapshot>();
+  for (const snapshot of snapshots) {
+    lastByDay.set(getDayKey(snapshot.timestamp), snapshot);
+  }
+
+  const periodStartDay = getDayKey(new Date(startOfMonth).getTime());
+  const points: ChartPoint[] = [];
+  let previous: number | undefined;
+  for (const [day, snapshot] of lastByDay) {
+    if (previous === undefined && day !== periodStartDay) {
+      previous = snapshot.premiumRequests.current;
+      continue;
+    }
+    points.push({ label: day.slice(5), value: Math.max(0, snapshot.premiumRequests.current - (previous || 0)) });
+    previous = snapshot.premiumRequests.current;
+  }
+  return points;
+}
+
+function renderBarChart(points: ChartPoint[]): string {
+  const maxValue = Math.max(1, ...points.map((point) => point.value));
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const slot = plotWidth / points.length;
+  const barWidth = Math.max(2, slot * 0.7);
+
+  const bars = points
+    .map((point, index) => {
+      const height = (point.value / maxValue) * plotHeight;
+      const x = CHART_PADDING + index * slot + (slot - barWidth) / 2;
+      const y = CHART_PADDING + plotHeight - height;
+      return `<rect class="bar" x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${barWidth.toFixed(1)}" height="${height.toFixed(1)}"><title>${escapeHtml(point.label)}: ${point.value}</title></rect>`;
+    })
+    .join('');
+
+  const labelStep = Math.ceil(points.length / 10);
+  const labels = points
+    .map((point, index) =>
+      index % labelStep === 0
+        ? `<text class="axis" x="${(CHART_PADDING + index * slot + slot / 2).toFixed(1)}" y="${CHART_HEIGHT - 10}" text-anchor="middle">${escapeHtml(point.label)}</text>`
+        : '',
+    )
+    .join('');
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">
+    <text class="axis" x="4" y="${CHART_PADDING - 8}">${maxValue}</text>
+    <line class="grid" x1="${CHART_PADDING}" y1="${CHART_PADDING + plotHeight}" x2="${CHART_WIDTH - CHART_PADDING}" y2="${CHART_PADDING + plotHeight}" />
+    ${bars}${labels}
+  </svg>`;
+}
+
+function renderCumulativeChart(snapshots: UsageSnapshot[], limit?: number): string {
+  const first = snapshots[0].timestamp;
+  const last = snapshots[snapshots.length - 1].timestamp;
+  const timeSpan = Math.max(1, last - first);
+  const maxValue = Math.max(1, limit || 0, ...snapshots.map((snapshot) => snapshot.usageBasedCostDollars));
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const toX = (timestamp: number) => CHART_PADDING + ((timestamp - first) / timeSpan) * plotWidth;
+  const toY = (value: number) => CHART_PADDING + plotHeight - (value / maxValue) * plotHeight;
+
+  const path = snapshots
+    .map(
+      (snapshot, index) =>
+        `${index === 0 ? 'M' : 'L'}${toX(snapshot.timestamp).toFixed(1)},${toY(snapshot.usageBasedCostDollars).toFixed(1)}`,
+    )
+    .join(' ');
+
+  const limitLine = limit
+    ? `<line class="limit" x1="${CHART_PADDING}" y1="${toY(limit).toFixed(1)}" x2="${CHART_WIDTH - CHART_PADDING}" y2="${toY(limit).toFixed(1)}" />
+       <text class="axis limit-label" x="${CHART_WIDTH - CHART_PADDING}" y="${(toY(limit) - 4).toFixed(1)}" text-anchor="end">${escapeHtml(t('dashboard.hardLimit'))} $${limit.toFixed(2)}</text>`
+    : '';
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">
+    <text class="axis" x="4" y="${CHART_PADDING - 8}">$${maxValue.toFixed(2)}</text>
+    <line class="grid" x1="${CHART_PADDING}" y1="${CHART_PADDING + plotHeight}" x2="${CHART_WIDTH - CHART_PADDING}" y2="${CHART_PADDING + plotHeight}" />
+    ${limitLine}
+    <path class="line" d="${path}" />
+    <text class="axis" x="${CHART_PADDING}" y="${CHART_HEIGHT - 10}">${getDayKey(first).slice(5)}</text>
+    <text class="axis" x="${CHART_WIDTH - CHART_PADDING}" y="${CHART_HEIGHT - 10}" text-anchor="end">${getDayKey(last).slice(5)}</text>
+  </svg>`;
+}
+
+async function renderModelBreakdown(items: UsageItem[]): Promise<string> {
+  const costs = Array.from(getModelCosts(items).entries()).sort((a, b) => b[1] - a[1]);
+  if (costs.length === 0) {
+    return `<p class="empty">${escapeHtml(t('statusBar.noUsageRecorded'))}</p>`;
+  }
+
+  const maxCost = costs[0][1];
+  const rows = await Promise.all(
+    costs.map(async ([model, cost]) => {
+      const width = maxCost > 0 ? (cost / maxCost) * 100 : 0;
+      return `<tr>
+        <td>${escapeHtml(model)}</td>
+        <td class="meter"><div style="width: ${width.toFixed(1)}%"></div></td>
+        <td class="num">${escapeHtml(await convertAndFormatCurrency(cost))}</td>
+      </tr>`;
+    }),
+  );
+  return `<table>${rows.join('')}</table>`;
+}
+
+async function renderMonthComparison(stats: CursorStats): Promise<string> {
+  const currentItems = stats.currentMonth.usageBasedPricing.items;
+  const lastItems = stats.lastMonth.usageBasedPricing.items;
+  const currentCosts = getModelCosts(currentItems);
+  const lastCosts = getModelCosts(lastItems);
+  const models = Array.from(new Set([...currentCosts.keys(), ...lastCosts.keys()])).sort(
+    (a, b) => (currentCosts.get(b) || 0) - (currentCosts.get(a) || 0),
+  );
+
+  const rows = await Promise.all(
+    models.map(
+      async (model) => `<tr>
+        <td>${escapeHtml(model)}</td>
+        <td class="num">${escapeHtml(await convertAndFormatCurrency(currentCosts.get(model) || 0))}</td>
+        <td class="num">${escapeHtml(await convertAndFormatCurrency(lastCosts.get(model) || 0))}</td>
+      </tr>`,
+    ),
+  );
+
+  return `<table>
+    <tr>
+      <th>${escapeHtml(t('dashboard.model'))}</th>
+      <th class="num">${escapeHtml(t('dashboard.thisPeriod'))} (${stats.currentMonth.month}/${stats.currentMonth.year})</th>
+      <th class="num">${escapeHtml(t('dashboard.lastPeriod'))} (${stats.lastMonth.month}/${stats.lastMonth.year})</th>
+    </tr>
+    ${rows.join('')}
+    <tr class="total">
+      <td>${escapeHtml(t('statusBar.totalCost'))}</td>
+      <td class="num">${escapeHtml(await convertAndFormatCurrency(getTotalCost(currentItems)))}</td>
+      <td class="num">${escapeHtml(await convertAndFormatCurrency(getTotalCost(lastItems)))}</td>
+    </tr>
+  </table>`;
+}
+
+/**
+ * One point per hour of the last 24 hours, including the hours without requests
+ */
+function getLastDayHourlyPoints(timeline: RequestTimeline, now: number): ChartPoint[] {
+  const counts = new Map(timeline.hourly.map((hour) => [hour.key, hour.count]));
+  const points: ChartPoint[] = [];
+  for (let hoursAgo = 23; hoursAgo >= 0; hoursAgo--) {
+    const key = getHourKey(now - hoursAgo * HOUR_MS);
+    points.push({ label: key.slice(11, 13), value: counts.get(key) || 0 });
+  }
+  return points;
+}
+
+async function renderLocalRequests(since: number): Promise<string> {
+  const timeline = await getRequestTimeline(since);
+  if (timeline.total === 0) {
+    return `<p class="empty">${escapeHtml(t('dashboard.noLocalRequests'))}</p>`;
+  }
+
+  const maxCount = timeline.workspaces[0].count;
+  const rows = timeline.workspaces.map(({ workspace, count }) => {
+    const name = workspace ? path.basename(workspace) : t('dashboard.unknownWorkspace');
+    return `<tr>
+        <td title="${escapeHtml(workspace || '')}">${escapeHtml(name)}</td>
+        <td class="meter"><div style="width: ${((count / maxCount) * 100).toFixed(1)}%"></div></td>
+        <td class="num">${count}</td>
+      </tr>`;
+  });
+
+  return `
+      <p class="empty">${escapeHtml(t('dashboard.localRequestsNote', { total: timeline.total }))}</p>
+      <h3>${escapeHtml(t('dashboard.requestsPerDay'))}</h3>
+      ${renderBarChart(timeline.daily.map((day) => ({ label: day.key.slice(5), value: day.count })))}
+      <h3>${escapeHtml(t('dashboard.requestsPerHour'))}</h3>
+      ${renderBarChart(getLastDayHourlyPoints(timeline, Date.now()))}
+      <h3>${escapeHtml(t('dashboard.requestsByWorkspace'))}</h3>
+      <table>${rows.join('')}</table>`;
+}
+
+async function renderDashboardHtml(data: DashboardData | undefined): Promise<string> {
+  let body: string;
+  // The local request log needs no stats, so it is shown even while the API is unreachable
+  const localRequestsSince = data
+    ? new Date(data.stats.premiumRequests.startOfMonth).getTime()
+    : Date.now() - LOCAL_REQUEST_DAYS * 24 * HOUR_MS;
+  const localRequests = `
+      <h2>${escapeHtml(t('dashboard.localRequests'))}</h2>
+      ${await renderLocalRequests(localRequestsSince)}`;
+
+  if (!data) {
+    body = `<p class="empty">${escapeHtml(t('dashboard.waitingForData'))}</p>
+      ${localRequests}`;
+  } else {
+    const { stats } = data;
+    const periodSnapshots = getSnapshots({ startOfMonth: stats.premiumRequests.startOfMonth });
+    const burn = getDailyPremiumBurn(periodSnapshots, stats.premiumRequests.startOfMonth);
+    // A limit of 0 would render as NaN or Infinity
+    const premiumPercent =
+      stats.premiumRequests.limit > 0
+        ? Math.min(100, Math.max(0, Math.round((stats.premiumRequests.current / stats.premiumRequests.limit) * 100)))
+        : 0;
+    const formattedCost = await convertAndFormatCurrency(data.usageBasedCostDollars);
+    const formattedLimit = data.hardLimitDollars ? await convertAndFormatCurrency(data.hardLimitDollars) : '';
+
+    body = `
+      <div class="cards">
+        <div class="card">
+          <div class="label">${escapeHtml(t('statusBar.premiumFastRequests'))}</div>
+          <div class="value">${stats.premiumRequests.current}/${stats.premiumRequests.limit}</div>
+          <div class="label">${premiumPercent}% ${escapeHtml(t('statusBar.utilized'))}</div>
+        </div>
+        <div class="card">
+          <div class="label">${escapeHtml(t('statusBar.usageBasedPricing'))} (${escapeHtml(data.isUsageBasedEnabled ? t('statusBar.enabled') : t('statusBar.disabled'))})</div>
+          <div class="value">${escapeHtml(formattedCost)}</div>
+          <div class="label">${formattedLimit ? `${escapeHtml(t('statusBar.limit'))}: ${escapeHtml(formattedLimit)}` : '&nbsp;'}</div>
+        </div>
+      </div>
+
+      <h2>${escapeHtml(t('dashboard.premiumBurn'))}</h2>
+      ${burn.length > 0 ? renderBarChart(burn) : `<p class="empty">${escapeHtml(t('dashboard.noHistory'))}</p>`}
+
+      <h2>${escapeHtml(t('dashboard.cumulativeSpend'))}</h2>
+      ${periodSnapshots.length > 1 ? renderCumulativeChart(periodSnapshots, data.hardLimitDollars) : `<p class="empty">${escapeHtml(t('dashboard.noHistory'))}</p>`}
+
+      <h2>${escapeHtml(t('dashboard.modelBreakdown'))}</h2>
+      ${await renderModelBreakdown(stats.currentMonth.usageBasedPricing.items)}
+
+      <h2>${escapeHtml(t('dashboard.lastMonthComparison'))}</h2>
+      ${await renderMonthComparison(stats)}
+      ${localRequests}
+
+      <p class="footer">🕒 ${escapeHtml(t('time.lastUpdated'))}: ${escapeHtml(new Date(data.updatedAt).toLocaleString())}</p>`;
+  }
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <style>
+        body {
+          padding: 1.5rem;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-editor-foreground);
+          background: var(--vscode-editor-background);
+        }
+        h1 { font-weight: 400; }
+        h2 { font-size: 16px; margin-top: 2rem; border-bottom: 1px solid var(--vscode-textSeparator-foreground); padding-bottom: 4px; }
+        h3 { font-size: 13px; margin-top: 1.5rem; }
+        .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 12px; }
+        .card { padding: 12px 16px; border: 1px solid var(--vscode-textSeparator-foreground); border-radius: 6px; }
+        .card .value { font-size: 24px; margin: 4px 0; }
+        .card .label { opacity: 0.8; font-size: 12px; }
+        .chart { width: 100%; max-width: ${CHART_WIDTH}px; height: auto; }
+        .chart .bar { fill: var(--vscode-charts-blue); }
+        .chart .line { fill: none; stroke: var(--vscode-charts-orange); stroke-width: 2; }
+        .chart .limit { stroke: var(--vscode-charts-red); stroke-dasharray: 4 4; }
+        .chart .grid { stroke: var(--vscode-textSeparator-foreground); }
+        .chart .axis { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+        table { border-collapse: collapse; width: 100%; max-width: ${CHART_WIDTH}px; }
+        th, td { text-align: left; padding: 4px 8px; }
+        .num { text-align: right; white-space: nowrap; }
+        .meter { width: 50%; }
+        .meter div { height: 10px; background: var(--vscode-charts-blue); border-radius: 2px; }
+        .total td { border-top: 1px solid var(--vscode-textSeparator-foreground); font-weight: 600; }
+        .empty, .footer { opacity: 0.7; }
+      </style>
+    </head>
+    <body>
+      <h1>⚡ ${escapeHtml(t('dashboard.title'))}</h1>
+      ${body}
+    </body>
+    </html>`;
+}
+
+async function renderDashboard(): Promise<void> {
+  if (!dashboardPanel) {
+    return;
+  }
+  try {
+    dashboardPanel.webview.html = await renderDashboardHtml(lastDashboardData);
+  } catch (error: any) {
+    log('[Dashboard] Error rendering dashboard: ' + error.message, true);
+  }
+}
+
+/**
+ * Opens the usage dashboard panel, or reveals it if it is already open
+ */
+export async function openDashboard(): Promise<void> {
+  if (dashboardPanel) {
+    dashboardPanel.reveal(vscode.ViewColumn.One);
+    return;
+  }
+
+  log('[Dashboard] Opening usage dashboard');
+  dashboardPanel = vscode.window.createWebviewPanel(
+    'cursorStatsDashboard',
+    t('dashboard.title'),
+    vscode.ViewColumn.One,
+    {
+      enableScripts: false,
+    },
+  );
+  dashboardPanel.onDidDispose(() => {
+    dashboardPanel = undefined;
+    log('[Dashboard] Dashboard closed');
+  });
+
+  await renderDashboard();
+}
+
+/**
+ * Stores the latest stats and re-renders the dashboard if it is open
+ */
+export async function updateDashboard(data: DashboardData): Promise<void> {
+  lastDashboardData = data;
+  await renderDashboard();
+}
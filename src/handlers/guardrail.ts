@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { log } from '../utils/logger';
+import { t } from '../utils/i18n';
+import { convertAndFormatCurrency } from '../utils/currency';
+import { setUsageLimit } from '../services/api';
+import { claimNotification, releaseNotification } from '../services/notificationState';
+
+export type SpendingCapAction = 'disable' | 'lowerLimit';
+
+export interface SpendingCapSettings {
+  // Dollars, 0 turns the guardrail off
+  cap: number;
+  action: SpendingCapAction;
+  countdownSeconds: number;
+}
+
+export interface UsageLimitChange {
+  hardLimit: number;
+  noUsageBasedAllowed: boolean;
+}
+
+let isGuardrailInProgress = false;
+
+export function getSpendingCapSettings(): SpendingCapSettings {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  return {
+    cap: Math.max(0, config.get<number>('spendingCap', 0)),
+    action: config.get<SpendingCapAction>('spendingCapAction', 'disable'),
+    countdownSeconds: Math.max(0, config.get<number>('spendingCapCountdownSeconds', 30)),
+  };
+}
+
+/**
+ * Raising the cap arms the guardrail again within the same billing period
+ */
+export function getSpendingCapKey(cap: number): string {
+  return `spending-cap-${cap.toFixed(2)}`;
+}
+
+/**
+ * Decides how to stop further usage-based spend once it reached the cap. Lowering the
+ * limit sets it to the spend rounded up to whole dollars, which Cursor stops at; there
+ * is nothing to do when the current limit is already that low.
+ */
+export function getUsageLimitChange(
+  spentDollars: number,
+  settings: SpendingCapSettings,
+  currentLimit?: number,
+): UsageLimitChange | undefined {
+  if (settings.cap <= 0 || spentDollars < settings.cap) {
+    return undefined;
+  }
+  if (settings.action === 'disable') {
+    return { hardLimit: 0, noUsageBasedAllowed: true };
+  }
+
+  const hardLimit = Math.max(1, Math.ceil(spentDollars));
+  return currentLimit !== undefined && currentLimit <= hardLimit ? undefined : { hardLimit, noUsageBasedAllowed: false };
+}
+
+/**
+ * Resolves with the button the user picked, or undefined once the countdown is over.
+ * Closing the notification does not stop the countdown.
+ */
+async function showCountdown(message: string, detail: string, seconds: number, ...buttons: string[]) {
+  const countdown = new Promise<undefined>((resolve) => setTimeout(() => resolve(undefined), seconds * 1000));
+  return Promise.race([
+    vscode.window.showWarningMessage(message, { modal: false, detail }, ...buttons).then((selection) => selection ?? countdown),
+    countdown,
+  ]);
+}
+
+/**
+ * Disables usage-based pricing or lowers its limit when the spend of the billing period
+ * reached the personal cap, after a countdown the user can stop with "Allow this time".
+ * Either way the guardrail does not trip again for the same cap this period.
+ */
+export async function checkSpendingCap(
+  token: string,
+  spentDollars: number,
+  periodStart: string,
+  currentLimit?: number,
+): Promise<void> {
+  const settings = getSpendingCapSettings();
+  const change = getUsageLimitChange(spentDollars, settings, currentLimit);
+  if (isGuardrailInProgress || !change) {
+    return;
+  }
+
+  const key = getSpendingCapKey(settings.cap);
+  // Only one window counts down, and only once per cap and period
+  if (!(await claimNotification(periodStart, key))) {
+    return;
+  }
+
+  try {
+    isGuardrailInProgress = true;
+    const details = {
+      cap: settings.cap,
+      spent: Number(spentDollars.toFixed(2)),
+      action: settings.action,
+      from: currentLimit ?? null,
+    };
+    log(
+      `[Guardrail] Spend of $${spentDollars.toFixed(2)} reached the $${settings.cap} cap, counting down ${settings.countdownSeconds}s`,
+    );
+
+    const cap = await convertAndFormatCurrency(settings.cap);
+    const actionText =
+      settings.action === 'disable'
+        ? t('guardrail.willDisable', { seconds: settings.countdownSeconds })
+        : t('guardrail.willLowerLimit', {
+            limit: await convertAndFormatCurrency(change.hardLimit),
+            seconds: settings.countdownSeconds,
+          });
+    const allow = t('guardrail.allowThisTime');
+    const applyNow = t('guardrail.applyNow');
+    const selection = await showCountdown(
+      t('guardrail.capReached', { spent: await convertAndFormatCurrency(spentDollars), cap }),
+      actionText,
+      settings.countdownSeconds,
+      allow,
+      applyNow,
+    );
+
+    if (selection === allow) {
+      log('[Audit] Spending cap guardrail allowed this time by the user', details);
+      return;
+    }
+
+    try {
+      await setUsageLimit(token, change.hardLimit, change.noUsageBasedAllowed);
+    } catch (error: any) {
+      // Try again on the next refresh
+      await releaseNotification(periodStart, key);
+      throw error;
+    }
+    log(
+      settings.action === 'disable'
+        ? '[Audit] Spending cap guardrail disabled usage-based pricing'
+        : '[Audit] Spending cap guardrail lowered the usage-based limit',
+      { ...details, to: change.hardLimit, appliedEarly: selection === applyNow },
+    );
+
+    vscode.window.showInformationMessage(
+      settings.action === 'disable'
+        ? t('guardrail.disabled', { cap })
+        : t('guardrail.limitLowered', { limit: await convertAndFormatCurrency(change.hardLimit) }),
+    );
+    await vscode.commands.executeCommand('cursor-stats.refreshStats');
+  } catch (error: any) {
+    log(`[Guardrail] Error applying the spending cap: ${error.message}`, true);
+    vscode.window.showErrorMessage(t('guardrail.failed', { error: error.message }));
+  } finally {
+    isGuardrailInProgress = false;
+  }
+}
@@ -1,29 +1,34 @@
 import * as vscode from 'vscode';
 import { log } from '../utils/logger';
 import { convertAndFormatCurrency } from '../utils/currency';
-import { UsageInfo } from '../interfaces/types';
+import { TeamMemberSpend, TeamSpendResponse, UsageForecast, UsageInfo } from '../interfaces/types';
 import { t } from '../utils/i18n';
+import { getPreferredProjection } from '../utils/forecast';
+import { getAllTeamMemberSpend } from '../services/team';
+import { claimNotification, claimNotifiedAmount, hasShownNotification, releaseNotification } from '../services/notificationState';
+import { formatDayAndMonth } from './statusBar';
+
+export interface TeamSpendAlerts {
+  members: TeamMemberSpend[];
+  totalThreshold?: number;
+}
 
-// Track which thresholds have been notified in the current session
-const notifiedPremiumThresholds = new Set<number>();
-const notifiedUsageBasedThresholds = new Set<number>();
-const notifiedSpendingThresholds = new Set<number>();
+// Shown notifications are tracked per billing period in services/notificationState,
+// so restarts and other windows do not repeat them
 let isNotificationInProgress = false;
-let unpaidInvoiceNotifiedThisSession = false;
-let isSpendingCheckInitialRun = true; // New state variable for spending checks
 
 // Reset notification tracking
 export function resetNotifications() {
-  notifiedPremiumThresholds.clear();
-  notifiedUsageBasedThresholds.clear();
-  notifiedSpendingThresholds.clear();
   isNotificationInProgress = false;
-  unpaidInvoiceNotifiedThisSession = false;
-  isSpendingCheckInitialRun = true; // Reset this flag as well
-  log('[Notifications] Reset notification tracking, including spending check initial run flag.');
+  log('[Notifications] Reset notification tracking.');
+}
+
+// A new threshold starts counting again from the spend it was set at
+function getSpendingKey(spendingThreshold: number): string {
+  return `spending-every-${spendingThreshold}`;
 }
 
-export async function checkAndNotifySpending(totalSpent: number) {
+export async function checkAndNotifySpending(totalSpent: number, periodStart: string) {
   if (isNotificationInProgress) {
     return;
   }
@@ -39,66 +44,246 @@ export async function checkAndNotifySpending(totalSpent: number) {
 
   try {
     isNotificationInProgress = true;
-    if (isSpendingCheckInitialRun) {
-      // On the initial run (or after a reset), prime the notifiedSpendingThresholds
-      // by adding all multiples of spendingThreshold that are less than or equal to totalSpent.
-      const multiplesToPrime = Math.floor(totalSpent / spendingThreshold);
-      for (let i = 1; i <= multiplesToPrime; i++) {
-        notifiedSpendingThresholds.add(i);
+    const reachedMultiples = Math.floor(totalSpent / spendingThreshold);
+    const currentThresholdAmount = reachedMultiples * spendingThreshold;
+    const spendingKey = getSpendingKey(spendingThreshold);
+    if (await claimNotification(periodStart, `spending-start-${spendingThreshold}`)) {
+      // The first check of a period (or after the threshold changed) only records the
+      // highest multiple of spendingThreshold that was already passed.
+      log(`[Notifications] Starting spending alerts at $${totalSpent.toFixed(2)} for this period.`);
+      await claimNotifiedAmount(periodStart, spendingKey, currentThresholdAmount);
+    }
+
+    // Only the highest newly passed multiple is shown, the ones below it count as shown
+    if (reachedMultiples >= 1 && (await claimNotifiedAmount(periodStart, spendingKey, currentThresholdAmount))) {
+      log(
+        `[Notifications] Spending threshold $${currentThresholdAmount.toFixed(2)} met or exceeded (Total spent: $${totalSpent.toFixed(2)}). Triggering notification.`,
+      );
+
+      const formattedCurrentThreshold = await convertAndFormatCurrency(currentThresholdAmount);
+      const formattedTotalSpent = await convertAndFormatCurrency(totalSpent);
+
+      // For the detail message, calculate the *next* threshold after the one we're notifying about
+      const nextHigherThresholdAmount = (reachedMultiples + 1) * spendingThreshold;
+      const formattedNextHigherThreshold = await convertAndFormatCurrency(nextHigherThresholdAmount);
+
+      const message = t('notifications.spendingThresholdReached', {
+        amount: formattedCurrentThreshold,
+      });
+      const detail = `${t('notifications.currentTotalCost', { amount: formattedTotalSpent })} ${t('notifications.nextNotificationAt', { amount: formattedNextHigherThreshold })}`;
+
+      // Show the notification
+      const notificationSelection = await vscode.window.showInformationMessage(
+        message,
+        { modal: false, detail },
+        t('notifications.manageLimitTitle'),
+        t('notifications.dismiss'),
+      );
+
+      if (notificationSelection === t('notifications.manageLimitTitle')) {
+        await vscode.commands.executeCommand('cursor-stats.setLimit');
       }
-      isSpendingCheckInitialRun = false; // Clear the flag after priming
     }
+  } catch (error) {
+    log(
+      `[Notifications] Error during checkAndNotifySpending: ${error instanceof Error ? error.message : String(error)}`,
+      true,
+    );
+  } finally {
+    isNotificationInProgress = false;
+  }
+}
+
+export async function checkAndNotifyProjectedSpend(forecast: UsageForecast) {
+  const limit = forecast.usageBased?.limit;
+  if (isNotificationInProgress || !forecast.usageBased || !limit) {
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  if (!config.get<boolean>('enableAlerts', true)) {
+    return;
+  }
+
+  const projection = getPreferredProjection(forecast.usageBased);
+  if (projection.projectedTotal <= limit) {
+    return;
+  }
 
-    let lastNotifiedMultiple = 0;
-    if (notifiedSpendingThresholds.size > 0) {
-      lastNotifiedMultiple = Math.max(0, ...Array.from(notifiedSpendingThresholds));
+  try {
+    isNotificationInProgress = true;
+    // Warn once per billing period
+    if (!(await claimNotification(forecast.period.start, 'projected-spend'))) {
+      return;
     }
+    log(
+      `[Notifications] Projected usage-based spend $${projection.projectedTotal.toFixed(2)} exceeds the $${limit} hard limit.`,
+    );
 
-    let multipleToConsider = lastNotifiedMultiple + 1;
+    const message = t('notifications.projectedSpendExceedsLimit', {
+      amount: await convertAndFormatCurrency(projection.projectedTotal),
+      limit: await convertAndFormatCurrency(limit),
+    });
+    const detail = projection.exhaustionDate
+      ? t('notifications.limitReachedAround', { date: formatDayAndMonth(new Date(projection.exhaustionDate)) })
+      : t('notifications.manageLimitDetail');
+
+    const selection = await vscode.window.showWarningMessage(
+      message,
+      { modal: false, detail },
+      t('notifications.manageLimitTitle'),
+      t('notifications.dismiss'),
+    );
 
-    while (true) {
-      const currentThresholdAmount = multipleToConsider * spendingThreshold;
-      if (totalSpent >= currentThresholdAmount) {
-        log(
-          `[Notifications] Spending threshold $${currentThresholdAmount.toFixed(2)} met or exceeded (Total spent: $${totalSpent.toFixed(2)}). Triggering notification.`,
-        );
+    if (selection === t('notifications.manageLimitTitle')) {
+      await vscode.commands.executeCommand('cursor-stats.setLimit');
+    }
+  } catch (error) {
+    log(
+      `[Notifications] Error during checkAndNotifyProjectedSpend: ${error instanceof Error ? error.message : String(error)}`,
+      true,
+    );
+  } finally {
+    isNotificationInProgress = false;
+  }
+}
 
-        const formattedCurrentThreshold = await convertAndFormatCurrency(currentThresholdAmount);
-        const formattedTotalSpent = await convertAndFormatCurrency(totalSpent);
+/**
+ * Raising a member's limit override lets the alert be shown again for the new limit
+ */
+export function getTeamMemberAlertKey(teamId: number, member: TeamMemberSpend): string {
+  return `team-${teamId}-member-${member.userId}-${member.hardLimitOverrideDollars}`;
+}
 
-        // For the detail message, calculate the *next* threshold after the one we're notifying about
-        const nextHigherThresholdAmount = (multipleToConsider + 1) * spendingThreshold;
-        const formattedNextHigherThreshold =
-          await convertAndFormatCurrency(nextHigherThresholdAmount);
+export function getTeamTotalAlertKey(teamId: number, threshold: number): string {
+  return `team-${teamId}-total-${threshold}`;
+}
 
-        const message = t('notifications.spendingThresholdReached', {
-          amount: formattedCurrentThreshold,
-        });
-        const detail = `${t('notifications.currentTotalCost', { amount: formattedTotalSpent })} ${t('notifications.nextNotificationAt', { amount: formattedNextHigherThreshold })}`;
-
-        // Show the notification
-        const notificationSelection = await vscode.window.showInformationMessage(
-          message,
-          { modal: false, detail },
-          t('notifications.manageLimitTitle'),
-          t('notifications.dismiss'),
-        );
+/**
+ * Finds the members that passed the given fraction of their limit override and the
+ * highest team total threshold that was passed, leaving out what was already alerted
+ */
+export function findTeamSpendAlerts(
+  teamSpend: TeamSpendResponse,
+  teamId: number,
+  memberFraction: number,
+  totalThresholds: number[],
+  isShown: (key: string) => boolean,
+): TeamSpendAlerts {
+  const members =
+    memberFraction > 0
+      ? teamSpend.teamMemberSpend.filter(
+          (member) =>
+            member.hardLimitOverrideDollars > 0 &&
+            (member.spendCents || 0) / 100 >= member.hardLimitOverrideDollars * memberFraction &&
+            !isShown(getTeamMemberAlertKey(teamId, member)),
+        )
+      : [];
+
+  // Passing several thresholds at once only alerts about the highest one
+  const totalSpent = teamSpend.teamMemberSpend.reduce((sum, member) => sum + (member.spendCents || 0), 0) / 100;
+  const highestThreshold = Math.max(0, ...totalThresholds.filter((threshold) => totalSpent >= threshold));
+  const totalThreshold =
+    highestThreshold > 0 && !isShown(getTeamTotalAlertKey(teamId, highestThreshold)) ? highestThreshold : undefined;
+
+  return { members, totalThreshold };
+}
 
-        if (notificationSelection === t('notifications.manageLimitTitle')) {
-          await vscode.commands.executeCommand('cursor-stats.setLimit');
-        }
+async function showTeamSpendAlert(message: string, detail: string): Promise<void> {
+  const selection = await vscode.window.showWarningMessage(
+    message,
+    { modal: false, detail },
+    t('notifications.showTeamSpendTitle'),
+    t('notifications.manageTeamLimitsTitle'),
+  );
+
+  if (selection === t('notifications.showTeamSpendTitle')) {
+    await vscode.commands.executeCommand('cursor-stats.showTeamSpend');
+  } else if (selection === t('notifications.manageTeamLimitsTitle')) {
+    await vscode.commands.executeCommand('cursor-stats.manageTeamLimits');
+  }
+}
 
-        // Mark this multiple as notified
-        notifiedSpendingThresholds.add(multipleToConsider);
-        multipleToConsider++;
-      } else {
-        // totalSpent is less than currentThresholdAmount, so we haven't crossed this one yet. Stop.
-        break;
+/**
+ * Alerts team admins when members get close to their limit override or the
+ * team's total spend passes one of the configured thresholds. Each alert is
+ * shown once per billing period, also across restarts.
+ */
+export async function checkAndNotifyTeamSpend(token: string, teamId: number) {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  const memberFraction = config.get<number>('teamMemberSpendAlertFraction', 0);
+  const totalThresholds = config.get<number[]>('teamSpendAlertThresholds', []);
+  if (isNotificationInProgress || !config.get<boolean>('enableAlerts', true)) {
+    return;
+  }
+  if (memberFraction <= 0 && totalThresholds.length === 0) {
+    return;
+  }
+
+  try {
+    isNotificationInProgress = true;
+    const teamSpend = await getAllTeamMemberSpend(token, teamId);
+
+    const periodStart = teamSpend.subscriptionCycleStart;
+    const found = findTeamSpendAlerts(teamSpend, teamId, memberFraction, totalThresholds, (key) =>
+      hasShownNotification(periodStart, key),
+    );
+
+    // Claim the alerts before showing them so neither a slow click nor another window causes duplicates
+    const alerts: TeamSpendAlerts = { members: [] };
+    for (const member of found.members) {
+      if (await claimNotification(periodStart, getTeamMemberAlertKey(teamId, member))) {
+        alerts.members.push(member);
+      }
+    }
+    if (
+      found.totalThreshold !== undefined &&
+      (await claimNotification(periodStart, getTeamTotalAlertKey(teamId, found.totalThreshold)))
+    ) {
+      alerts.totalThreshold = found.totalThreshold;
+      for (const threshold of totalThresholds.filter((threshold) => threshold < found.totalThreshold!)) {
+        await claimNotification(periodStart, getTeamTotalAlertKey(teamId, threshold));
       }
     }
+
+    if (alerts.members.length > 0) {
+      log(`[Notifications] ${alerts.members.length} team member(s) passed ${memberFraction * 100}% of their limit`);
+      const details = await Promise.all(
+        alerts.members.map(async (member) =>
+          t('notifications.teamMemberSpendDetail', {
+            name: member.name || member.email,
+            spent: await convertAndFormatCurrency((member.spendCents || 0) / 100),
+            limit: await convertAndFormatCurrency(member.hardLimitOverrideDollars),
+          }),
+        ),
+      );
+      await showTeamSpendAlert(
+        alerts.members.length === 1
+          ? t('notifications.teamMemberNearLimit', {
+              name: alerts.members[0].name || alerts.members[0].email,
+              percentage: Math.round(memberFraction * 100),
+            })
+          : t('notifications.teamMembersNearLimit', {
+              count: alerts.members.length,
+              percentage: Math.round(memberFraction * 100),
+            }),
+        details.join('\n'),
+      );
+    }
+
+    if (alerts.totalThreshold !== undefined) {
+      const totalSpent = teamSpend.teamMemberSpend.reduce((sum, member) => sum + (member.spendCents || 0), 0) / 100;
+      log(`[Notifications] Team spend $${totalSpent.toFixed(2)} passed the $${alerts.totalThreshold} threshold`);
+      await showTeamSpendAlert(
+        t('notifications.teamSpendThresholdReached', {
+          amount: await convertAndFormatCurrency(alerts.totalThreshold),
+        }),
+        t('notifications.currentTeamSpend', { amount: await convertAndFormatCurrency(totalSpent) }),
+      );
+    }
   } catch (error) {
     log(
-      `[Notifications] Error during checkAndNotifySpending: ${error instanceof Error ? error.message : String(error)}`,
+      `[Notifications] Error during checkAndNotifyTeamSpend: ${error instanceof Error ? error.message : String(error)}`,
       true,
     );
   } finally {
@@ -106,14 +291,17 @@ export async function checkAndNotifySpending(totalSpent: number) {
   }
 }
 
-export async function checkAndNotifyUnpaidInvoice(token: string) {
-  if (unpaidInvoiceNotifiedThisSession || isNotificationInProgress) {
+export async function checkAndNotifyUnpaidInvoice(token: string, periodStart: string) {
+  if (isNotificationInProgress) {
     return;
   }
 
   try {
     isNotificationInProgress = true;
     log('[Notifications] Checking for unpaid mid-month invoice notification.');
+    if (!(await claimNotification(periodStart, 'unpaid-invoice'))) {
+      return;
+    }
 
     const notification = await vscode.window.showWarningMessage(
       t('notifications.unpaidInvoice'),
@@ -131,7 +319,6 @@ export async function checkAndNotifyUnpaidInvoice(token: string) {
         vscode.env.openExternal(vscode.Uri.parse('https://www.cursor.com/settings'));
       }
     }
-    unpaidInvoiceNotifiedThisSession = true;
     log('[Notifications] Unpaid invoice notification shown.');
   } finally {
     isNotificationInProgress = false;
@@ -157,7 +344,8 @@ export async function checkAndNotifyUsage(usageInfo: UsageInfo) {
       .get<number[]>('usageAlertThresholds', [10, 30, 50, 75, 90, 100])
       .sort((a, b) => b - a); // Sort in descending order to get highest threshold first
 
-    const { percentage, type, limit } = usageInfo;
+    const { percentage, type, limit, periodStart } = usageInfo;
+    const getThresholdKey = (threshold: number) => `${type}-${threshold}`;
 
     // If this is a usage-based notification and premium is not over limit, skip it
     if (
@@ -175,9 +363,12 @@ export async function checkAndNotifyUsage(usageInfo: UsageInfo) {
     const highestExceededThreshold = thresholds.find((threshold) => percentage >= threshold);
 
     // Only notify if we haven't notified this threshold yet
-    const relevantThresholds =
-      type === 'premium' ? notifiedPremiumThresholds : notifiedUsageBasedThresholds;
-    if (highestExceededThreshold && !relevantThresholds.has(highestExceededThreshold)) {
+    if (highestExceededThreshold && (await claimNotification(periodStart, getThresholdKey(highestExceededThreshold)))) {
+      // Mark all lower thresholds as notified
+      for (const threshold of thresholds.filter((threshold) => threshold < highestExceededThreshold)) {
+        await claimNotification(periodStart, getThresholdKey(threshold));
+      }
+
       log(
         `[Notifications] Highest usage threshold ${highestExceededThreshold}% exceeded for ${type} usage`,
       );
@@ -241,19 +432,12 @@ export async function checkAndNotifyUsage(usageInfo: UsageInfo) {
       ) {
         await vscode.commands.executeCommand('cursor-stats.setLimit');
       }
-
-      // Mark all thresholds up to and including the current one as notified
-      thresholds.forEach((threshold) => {
-        if (threshold <= highestExceededThreshold) {
-          relevantThresholds.add(threshold);
-        }
-      });
     }
 
     // Clear notifications for thresholds that are no longer exceeded
-    for (const threshold of relevantThresholds) {
-      if (percentage < threshold) {
-        relevantThresholds.delete(threshold);
+    for (const threshold of thresholds) {
+      if (percentage < threshold && hasShownNotification(periodStart, getThresholdKey(threshold))) {
+        await releaseNotification(periodStart, getThresholdKey(threshold));
         log(
           `[Notifications] Cleared notification for threshold ${threshold}% as ${type} usage dropped below it`,
         );
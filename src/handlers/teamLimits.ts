@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { UsageLimitResponse } from '../interfaces/types';
+import { log } from '../utils/logger';
+import { t } from '../utils/i18n';
+import { convertAndFormatCurrency } from '../utils/currency';
+import { getCursorTokenFromDB } from '../services/database';
+import { getCurrentUsageLimit } from '../services/api';
+import { checkTeamMembership, setTeamHardLimitPerUser } from '../services/team';
+import { getExtensionContext } from '../extension';
+
+interface ActiveTeam {
+  token: string;
+  teamId: number;
+  teamName?: string;
+}
+
+/**
+ * Parses a limit entered in dollars. An empty value means no limit (0), anything
+ * that is not a number of 0 or more is rejected.
+ */
+export function parseLimitInput(value: string): number | undefined {
+  const trimmed = value.trim().replace(/^\$/, '');
+  if (!trimmed) {
+    return 0;
+  }
+  const amount = Number(trimmed);
+  return isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+async function formatLimit(dollars: number | undefined): Promise<string> {
+  return dollars ? convertAndFormatCurrency(dollars) : t('teamLimits.noLimit');
+}
+
+async function getActiveTeam(): Promise<ActiveTeam | undefined> {
+  const token = await getCursorTokenFromDB();
+  if (!token) {
+    vscode.window.showErrorMessage(t('settings.signInRequired'));
+    return undefined;
+  }
+
+  const membership = await checkTeamMembership(token, getExtensionContext());
+  if (!membership.isTeamMember || !membership.teamId) {
+    vscode.window.showInformationMessage(t('teamSpend.notTeamMember'));
+    return undefined;
+  }
+  return { token, teamId: membership.teamId, teamName: membership.teamName };
+}
+
+function showUpdateError(error: any): void {
+  const status = error.response?.status;
+  vscode.window.showErrorMessage(
+    status === 401 || status === 403
+      ? t('teamLimits.adminOnly')
+      : t('teamLimits.updateFailed', { error: error.message }),
+  );
+}
+
+async function confirmChange(message: string): Promise<boolean> {
+  const confirm = t('teamLimits.confirm');
+  const answer = await vscode.window.showWarningMessage(message, { modal: true }, confirm);
+  return answer === confirm;
+}
+
+async function editTeamLimit(team: ActiveTeam, usageLimit: UsageLimitResponse): Promise<boolean> {
+  const currentLimit = usageLimit.hardLimitPerUser;
+  const value = await vscode.window.showInputBox({
+    prompt: t('teamLimits.enterTeamLimit'),
+    value: currentLimit ? String(currentLimit) : '',
+    validateInput: (input) => (parseLimitInput(input) === undefined ? t('teamLimits.validAmountRequired') : null),
+  });
+  if (value === undefined) {
+    return false;
+  }
+
+  const newLimit = parseLimitInput(value)!;
+  if (newLimit === (currentLimit || 0)) {
+    return false;
+  }
+
+  const confirmed = await confirmChange(
+    t('teamLimits.confirmTeamLimit', {
+      team: team.teamName || String(team.teamId),
+      from: await formatLimit(currentLimit),
+      to: await formatLimit(newLimit),
+    }),
+  );
+  if (!confirmed) {
+    log(`[Command] Team hard limit per user change for team ${team.teamId} cancelled`);
+    return false;
+  }
+
+  if (!(await setTeamHardLimitPerUser(team.token, team.teamId, newLimit, usageLimit))) {
+    vscode.window.showWarningMessage(t('teamLimits.changedElsewhere'));
+    return false;
+  }
+  vscode.window.showInformationMessage(t('teamLimits.teamLimitUpdated', { limit: await formatLimit(newLimit) }));
+  return true;
+}
+
+/**
+ * Lets team admins change the default spending limit of every team member. Returns
+ * whether the limit was changed. Limit overrides of single members are left to the
+ * web dashboard, there is no endpoint for them the extension could rely on.
+ */
+export async function manageTeamLimits(): Promise<boolean> {
+  try {
+    const team = await getActiveTeam();
+    if (!team) {
+      return false;
+    }
+
+    const usageLimit = await getCurrentUsageLimit(team.token, team.teamId);
+    return await editTeamLimit(team, usageLimit);
+  } catch (error: any) {
+    log('[Command] Error managing team limits: ' + error.message, true);
+    showUpdateError(error);
+    return false;
+  }
+}
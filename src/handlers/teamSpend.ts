@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import { TeamMemberSpend, TeamSpendResponse } from '../interfaces/types';
+import { log } from '../utils/logger';
+import { t } from '../utils/i18n';
+import { convertAndFormatCurrency } from '../utils/currency';
+import { escapeHtml, getNonce } from '../utils/html';
+import { getCursorTokenFromDB } from '../services/database';
+import { checkTeamMembership, getAllTeamMemberSpend } from '../services/team';
+import { getCursorApiClient } from '../services/client';
+import { getExtensionContext } from '../extension';
+
+export type TeamSpendColumn =
+  | 'name'
+  | 'email'
+  | 'role'
+  | 'fastPremiumRequests'
+  | 'spendCents'
+  | 'hardLimitOverrideDollars';
+
+export interface TeamSpendSort {
+  column: TeamSpendColumn;
+  descending: boolean;
+}
+
+interface TeamSpendViewState {
+  teamName?: string;
+  teamSpend?: TeamSpendResponse;
+  error?: string;
+}
+
+const COLUMNS: { column: TeamSpendColumn; label: string; numeric: boolean }[] = [
+  { column: 'name', label: 'teamSpend.name', numeric: false },
+  { column: 'email', label: 'teamSpend.email', numeric: false },
+  { column: 'role', label: 'teamSpend.role', numeric: false },
+  { column: 'fastPremiumRequests', label: 'teamSpend.premiumRequests', numeric: true },
+  { column: 'spendCents', label: 'teamSpend.spend', numeric: true },
+  { column: 'hardLimitOverrideDollars', label: 'teamSpend.hardLimitOverride', numeric: true },
+];
+
+let teamSpendPanel: vscode.WebviewPanel | undefined;
+let viewState: TeamSpendViewState = {};
+let sort: TeamSpendSort = { column: 'spendCents', descending: true };
+
+/**
+ * Sorts team members by the given column. Members without premium requests or
+ * spend count as zero, ties are broken by name.
+ */
+export function sortTeamMembers(members: TeamMemberSpend[], { column, descending }: TeamSpendSort): TeamMemberSpend[] {
+  const direction = descending ? -1 : 1;
+  return [...members].sort((a, b) => {
+    const valueA = a[column] ?? 0;
+    const valueB = b[column] ?? 0;
+    const order =
+      typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB));
+    return order * direction || (a.name || '').localeCompare(b.name || '');
+  });
+}
+
+async function renderMemberRows(members: TeamMemberSpend[]): Promise<string> {
+  const rows = await Promise.all(
+    members.map(
+      async (member) => `<tr>
+        <td>${escapeHtml(member.name || '')}</td>
+        <td>${escapeHtml(member.email || '')}</td>
+        <td>${escapeHtml(member.role || '')}</td>
+        <td class="num">${member.fastPremiumRequests || 0}</td>
+        <td class="num">${escapeHtml(await convertAndFormatCurrency((member.spendCents || 0) / 100))}</td>
+        <td class="num">${member.hardLimitOverrideDollars ? escapeHtml(await convertAndFormatCurrency(member.hardLimitOverrideDollars)) : '—'}</td>
+      </tr>`,
+    ),
+  );
+  return rows.join('');
+}
+
+async function renderTeamSpendBody(teamSpend: TeamSpendResponse): Promise<string> {
+  const members = sortTeamMembers(teamSpend.teamMemberSpend, sort);
+  const totalSpendCents = members.reduce((sum, member) => sum + (member.spendCents || 0), 0);
+  const totalPremiumRequests = members.reduce((sum, member) => sum + (member.fastPremiumRequests || 0), 0);
+
+  const headers = COLUMNS.map(({ column, label, numeric }) => {
+    const indicator = column === sort.column ? (sort.descending ? ' ▼' : ' ▲') : '';
+    return `<th class="${numeric ? 'num' : ''}"><button data-column="${column}">${escapeHtml(t(label))}${indicator}</button></th>`;
+  }).join('');
+
+  return `
+    <p class="summary">
+      ${escapeHtml(t('teamSpend.members', { count: members.length, total: teamSpend.totalMembers || members.length }))} •
+      ${escapeHtml(t('teamSpend.totalSpend', { amount: await convertAndFormatCurrency(totalSpendCents / 100) }))} •
+      ${escapeHtml(t('teamSpend.totalPremiumRequests', { count: totalPremiumRequests }))}
+    </p>
+    <table>
+      <tr>${headers}</tr>
+      ${await renderMemberRows(members)}
+    </table>`;
+}
+
+async function renderTeamSpendHtml(): Promise<string> {
+  let body: string;
+  if (viewState.error) {
+    body = `<p class="error">${escapeHtml(viewState.error)}</p>`;
+  } else if (!viewState.teamSpend) {
+    body = `<p class="empty">${escapeHtml(t('teamSpend.loading'))}</p>`;
+  } else {
+    body = await renderTeamSpendBody(viewState.teamSpend);
+  }
+
+  const nonce = getNonce();
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <style>
+        body {
+          padding: 1.5rem;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-editor-foreground);
+          background: var(--vscode-editor-background);
+        }
+        h1 { font-weight: 400; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-textSeparator-foreground); }
+        th button { all: unset; cursor: pointer; font-weight: 600; }
+        .num { text-align: right; white-space: nowrap; }
+        .summary, .empty { opacity: 0.8; }
+        .error { color: var(--vscode-errorForeground); }
+        #refresh {
+          color: var(--vscode-button-foreground);
+          background: var(--vscode-button-background);
+          border: none;
+          padding: 4px 12px;
+          cursor: pointer;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>👥 ${escapeHtml(t('teamSpend.title'))}${viewState.teamName ? ` – ${escapeHtml(viewState.teamName)}` : ''}</h1>
+      <button id="refresh">🔄 ${escapeHtml(t('statusBar.refresh'))}</button>
+      ${body}
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('[data-column]').forEach((button) => {
+          button.addEventListener('click', () => vscode.postMessage({ command: 'sort', column: button.dataset.column }));
+        });
+        document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+      </script>
+    </body>
+    </html>`;
+}
+
+async function renderTeamSpend(): Promise<void> {
+  if (!teamSpendPanel) {
+    return;
+  }
+  try {
+    teamSpendPanel.webview.html = await renderTeamSpendHtml();
+  } catch (error: any) {
+    log('[TeamSpend] Error rendering team spend: ' + error.message, true);
+  }
+}
+
+async function loadTeamSpend(): Promise<void> {
+  viewState = {};
+  await renderTeamSpend();
+
+  try {
+    const token = await getCursorTokenFromDB();
+    if (!token) {
+      viewState.error = t('settings.signInRequired');
+      return;
+    }
+
+    // Always follows the active team, which can change while the view is open
+    const membership = await checkTeamMembership(token, getExtensionContext());
+    if (!membership.isTeamMember || !membership.teamId) {
+      viewState.error = t('teamSpend.notTeamMember');
+      return;
+    }
+    viewState.teamName = membership.teamName;
+    viewState.teamSpend = await getAllTeamMemberSpend(token, membership.teamId);
+  } catch (error: any) {
+    const status = error.response?.status;
+    log(`[TeamSpend] Error loading team spend: ${error.message}`, true);
+    viewState.error =
+      status === 401 || status === 403 ? t('teamSpend.adminOnly') : t('teamSpend.loadFailed', { error: error.message });
+  } finally {
+    await renderTeamSpend();
+  }
+}
+
+/**
+ * Opens the team spend view listing every member of the user's team, or
+ * reveals and reloads it if it is already open
+ */
+export async function showTeamSpend(): Promise<void> {
+  if (teamSpendPanel) {
+    teamSpendPanel.reveal(vscode.ViewColumn.One);
+    await loadTeamSpend();
+    return;
+  }
+
+  log('[TeamSpend] Opening team spend view');
+  teamSpendPanel = vscode.window.createWebviewPanel('cursorStatsTeamSpend', t('teamSpend.title'), vscode.ViewColumn.One, {
+    enableScripts: true,
+  });
+  teamSpendPanel.onDidDispose(() => {
+    teamSpendPanel = undefined;
+    viewState = {};
+    log('[TeamSpend] Team spend view closed');
+  });
+  teamSpendPanel.webview.onDidReceiveMessage(async (message: { command: string; column?: TeamSpendColumn }) => {
+    if (message.command === 'sort' && COLUMNS.some(({ column }) => column === message.column)) {
+      const column = message.column as TeamSpendColumn;
+      // Numbers sort largest first, text A-Z; clicking the same column again flips the order
+      sort =
+        sort.column === column
+          ? { column, descending: !sort.descending }
+          : { column, descending: COLUMNS.find((entry) => entry.column === column)!.numeric };
+      await renderTeamSpend();
+    } else if (message.command === 'refresh') {
+      getCursorApiClient().clearCache();
+      await loadTeamSpend();
+    }
+  });
+
+  await loadTeamSpend();
+}
+
+/**
+ * Reloads the team spend view if it is open
+ */
+export async function refreshTeamSpend(): Promise<void> {
+  if (teamSpendPanel) {
+    await loadTeamSpend();
+  }
+}
@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import { ForecastProjection, ModelFamilyUsage, RefreshSchedule, TooltipModel, TooltipPeriod, TooltipUsageItem, UsageForecast, UsageProjection } from '../interfaces/types';
+import { convertAndFormatCurrency } from '../utils/currency';
+import { t } from '../utils/i18n';
+import { formatDayAndMonth } from './statusBar';
+import { getPreferredProjection } from '../utils/forecast';
+import {
+    shouldShowProgressBars,
+    createPeriodProgressBar,
+    createUsageProgressBar,
+    calculateDailyRemaining
+} from '../utils/progressBars';
+
+function createTooltip(): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    tooltip.isTrusted = true;
+    tooltip.supportHtml = true;
+    tooltip.supportThemeIcons = true;
+
+    // Header section with centered title
+    tooltip.appendMarkdown('<div align="center">\n\n');
+    tooltip.appendMarkdown(`## ⚡ ${t('statusBar.cursorUsageStats')}\n\n`);
+    tooltip.appendMarkdown('</div>\n\n');
+    return tooltip;
+}
+
+/**
+ * Escapes text from the API or the file system, so that it cannot add links to
+ * commands or markup to the trusted tooltip
+ */
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!|~<>&]/g, '\\$&');
+}
+
+function appendCentered(tooltip: vscode.MarkdownString, text: string): void {
+    tooltip.appendMarkdown(`<div align="center">${text}</div>\n\n`);
+}
+
+function appendSectionTitle(tooltip: vscode.MarkdownString, title: string): void {
+    tooltip.appendMarkdown('<div align="center">\n\n');
+    tooltip.appendMarkdown(`### ${title}\n\n`);
+    tooltip.appendMarkdown('</div>\n\n');
+}
+
+export function formatRelativeTime(timestamp: number): string {
+    const date = new Date(timestamp);
+    const hours = date.getHours().toString().padStart(2, '0');
+    const minutes = date.getMinutes().toString().padStart(2, '0');
+    const seconds = date.getSeconds().toString().padStart(2, '0');
+
+    return `${hours}:${minutes}:${seconds}`;
+}
+
+function formatPeriod(period: TooltipPeriod): string {
+    return `${formatDayAndMonth(new Date(period.start))} - ${formatDayAndMonth(new Date(period.end))}`;
+}
+
+function calculateElapsedPercentage(period: TooltipPeriod): number {
+    const start = new Date(period.start).getTime();
+    const end = new Date(period.end).getTime();
+    const now = Date.now();
+
+    if (now <= start || end <= start) {
+        return 0;
+    }
+    if (now >= end) {
+        return 100;
+    }
+    return ((now - start) / (end - start)) * 100;
+}
+
+function appendPremiumSection(tooltip: vscode.MarkdownString, premium: TooltipModel['premium']): void {
+    appendSectionTitle(tooltip, `🚀 ${t('statusBar.premiumFastRequests')}`);
+
+    const { current, limit, percentage, period } = premium;
+    const elapsedPercent = Math.round(calculateElapsedPercentage(period));
+    appendCentered(tooltip, `${formatPeriod(period)} (${elapsedPercent}%) ● ${current}/${limit} (${Math.round(percentage)}%) ${t('statusBar.used')}`);
+
+    if (shouldShowProgressBars()) {
+        const usageProgressBar = createUsageProgressBar(current, limit, t('statusBar.usage'));
+        if (usageProgressBar) {
+            appendCentered(tooltip, usageProgressBar);
+        }
+
+        const periodProgressBar = createPeriodProgressBar(period.start, period.end, t('statusBar.period'));
+        if (periodProgressBar) {
+            appendCentered(tooltip, periodProgressBar);
+        }
+    }
+
+    // Daily remaining counts whole days up to the day the period ends
+    const end = new Date(period.end);
+    const periodEndDate = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+    const dailyRemainingText = calculateDailyRemaining(current, limit, periodEndDate);
+    dailyRemainingText.split('\n').forEach(line => {
+        if (line.trim()) {
+            appendCentered(tooltip, line.trim());
+        }
+    });
+}
+
+async function formatItemCosts(items: TooltipUsageItem[]): Promise<string[]> {
+    // Pad the numerical part of each cost so the amounts line up
+    const maxCostLength = Math.max(0, ...items.map(item => item.costDollars.toFixed(2).length));
+    return Promise.all(items.map(async item => {
+        const formattedCost = await convertAndFormatCurrency(item.costDollars);
+        const currencySymbol = formattedCost.match(/^[^0-9-.\\,]*/)?.[0] || '';
+        const numericalPart = formattedCost.substring(currencySymbol.length);
+        return currencySymbol + numericalPart.padStart(maxCostLength, '0');
+    }));
+}
+
+function formatModelName(item: TooltipUsageItem): string {
+    if (!item.modelName) {
+        return '';
+    }
+    const isUnknown = item.modelName === 'unknown-model';
+    if (item.isDiscounted) {
+        return `(${t('statusBar.discounted')} | ${isUnknown ? t('statusBar.unknownModel') : item.modelName})`;
+    }
+    return isUnknown ? `(${t('statusBar.unknownModel')})` : `(${item.modelName})`;
+}
+
+async function appendUsageItems(tooltip: vscode.MarkdownString, items: TooltipUsageItem[]): Promise<void> {
+    const sortedItems = [...items].sort((a, b) => b.requestCount - a.requestCount);
+    const formattedCosts = await formatItemCosts(sortedItems);
+
+    sortedItems.forEach((item, index) => {
+        let line = `${item.calculation} ➜ &nbsp;&nbsp;**${formattedCosts[index]}**`;
+        const modelNameDisplay = formatModelName(item);
+        if (modelNameDisplay) {
+            const desiredTotalWidth = 70; // Adjust as needed for good visual alignment
+            const currentLineWidth = `   • ${line}`.replace(/\*\*/g, '').replace(/&nbsp;/g, ' ').length;
+            const spacesNeeded = Math.max(1, desiredTotalWidth - currentLineWidth - modelNameDisplay.length);
+            line += ' '.repeat(spacesNeeded) + `&nbsp;&nbsp;&nbsp;&nbsp;${escapeMarkdown(modelNameDisplay)}`;
+        }
+        tooltip.appendMarkdown(`• ${line}\n\n`);
+    });
+}
+
+async function appendUsageBasedSection(
+    tooltip: vscode.MarkdownString,
+    usageBased: NonNullable<TooltipModel['usageBased']>,
+    team: TooltipModel['team']
+): Promise<void> {
+    const { isEnabled, limitDollars, totalCostDollars, midMonthPaymentDollars, period, items } = usageBased;
+
+    appendSectionTitle(tooltip, `📈 ${t('statusBar.usageBasedPricing')} (${isEnabled ? t('statusBar.enabled') : t('statusBar.disabled')})`);
+
+    const formattedTotalCost = await convertAndFormatCurrency(totalCostDollars);
+
+    if (isEnabled && limitDollars) {
+        if (period) {
+            const personalLimit = team?.personalLimitDollars ?? limitDollars;
+            const personalPercentage = ((totalCostDollars / personalLimit) * 100).toFixed(1);
+            const teamPercentage = ((totalCostDollars / limitDollars) * 100).toFixed(1);
+            const formattedPersonalLimit = await convertAndFormatCurrency(personalLimit);
+            const elapsedPercent = Math.round(calculateElapsedPercentage(period));
+
+            if (team && personalLimit !== limitDollars) {
+                // For team members, show both personal and team usage
+                const formattedTeamLimit = await convertAndFormatCurrency(limitDollars);
+                appendCentered(tooltip, `${formatPeriod(period)} (${elapsedPercent}%)`);
+                appendCentered(tooltip, `**Personal**: ${formattedPersonalLimit} (${personalPercentage}% | ${formattedTotalCost} ${t('statusBar.used')})`);
+                appendCentered(tooltip, `**Team Total**: ${formattedTeamLimit} (${teamPercentage}% contribution)`);
+            } else {
+                appendCentered(tooltip, `${formatPeriod(period)} (${elapsedPercent}%) ● ${formattedPersonalLimit} (${personalPercentage}% | ${formattedTotalCost} ${t('statusBar.used')})`);
+            }
+
+            if (shouldShowProgressBars()) {
+                const usageProgressBar = createUsageProgressBar(parseFloat(personalPercentage), 100, t('statusBar.usage'));
+                if (usageProgressBar) {
+                    appendCentered(tooltip, usageProgressBar);
+                }
+
+                const periodProgressBar = createPeriodProgressBar(period.start, period.end, t('statusBar.period'));
+                if (periodProgressBar) {
+                    appendCentered(tooltip, periodProgressBar);
+                }
+            }
+        }
+    } else if (!isEnabled) {
+        tooltip.appendMarkdown(`> ℹ️ ${t('statusBar.usageBasedDisabled')}\n\n`);
+    }
+
+    // Show usage details regardless of enabled/disabled status
+    if (items.length > 0) {
+        await appendUsageItems(tooltip, items);
+
+        if (midMonthPaymentDollars > 0) {
+            const formattedMidMonthPayment = await convertAndFormatCurrency(midMonthPaymentDollars);
+            const formattedUnpaidAmount = await convertAndFormatCurrency(Math.max(0, totalCostDollars - midMonthPaymentDollars));
+            tooltip.appendMarkdown(`> ${t('statusBar.youHavePaid', { amount: formattedMidMonthPayment })}. (${t('statusBar.unpaidAmount', { amount: `**${formattedUnpaidAmount}**` })})\n\n`);
+        }
+    } else if (totalCostDollars > 0) {
+        // For team spend data or when we have usage but no detailed breakdown
+        if (team) {
+            tooltip.appendMarkdown(`> 💼 ${t('statusBar.teamSpend')} data: ${formattedTotalCost} current usage\n\n`);
+        } else {
+            tooltip.appendMarkdown(`> 💰 Current usage: ${formattedTotalCost}\n\n`);
+        }
+    } else {
+        tooltip.appendMarkdown(`> ℹ️ ${t('statusBar.noUsageRecorded')}\n\n`);
+    }
+}
+
+async function appendModelFamilySection(tooltip: vscode.MarkdownString, families: ModelFamilyUsage[]): Promise<void> {
+    appendSectionTitle(tooltip, `🧮 ${t('statusBar.costByModelFamily')}`);
+
+    tooltip.appendMarkdown(`| ${t('statusBar.modelFamily')} | ${t('statusBar.requests')} | ${t('statusBar.totalCost')} | ${t('statusBar.averagePerRequest')} | ${t('statusBar.shareOfSpend')} |\n`);
+    tooltip.appendMarkdown('|:--|--:|--:|--:|--:|\n');
+    for (const family of families) {
+        const formattedCost = await convertAndFormatCurrency(family.costDollars);
+        const formattedAverage = await convertAndFormatCurrency(family.averageCostDollars, 3);
+        tooltip.appendMarkdown(`| ${escapeMarkdown(family.family ?? t('statusBar.otherModels'))} | ${family.requestCount} | ${formattedCost} | ${formattedAverage} | ${family.shareOfSpend.toFixed(1)}% |\n`);
+    }
+    tooltip.appendMarkdown('\n');
+}
+
+// Recent rate first, since it is the one notifications act on
+function listProjections(projection: UsageProjection): Array<{ label: string; forecast: ForecastProjection }> {
+    const projections = [{ label: t('forecast.linear'), forecast: projection.linear }];
+    if (projection.recentRate) {
+        projections.unshift({ label: t('forecast.recentRate'), forecast: projection.recentRate });
+    }
+    return projections;
+}
+
+async function appendForecastSection(tooltip: vscode.MarkdownString, forecast: UsageForecast): Promise<void> {
+    appendSectionTitle(tooltip, `🔮 ${t('forecast.title')}`);
+
+    const { premium, usageBased } = forecast;
+    if (premium.limit !== undefined && premium.current >= premium.limit) {
+        appendCentered(tooltip, `⏳ ${t('forecast.premiumExhausted')}`);
+    } else {
+        const estimates = listProjections(premium).map(({ label, forecast: projection }) =>
+            `${projection.exhaustionDate ? formatDayAndMonth(new Date(projection.exhaustionDate)) : t('forecast.afterPeriodEnd')} (${label})`
+        );
+        appendCentered(tooltip, `⏳ ${t('forecast.premiumRunsOut')}: ${estimates.join(' · ')}`);
+    }
+
+    if (usageBased) {
+        const amounts = await Promise.all(listProjections(usageBased).map(async ({ label, forecast: projection }) =>
+            `${await convertAndFormatCurrency(projection.projectedTotal)} (${label})`
+        ));
+        let line = `💸 ${t('forecast.projectedSpend', { date: formatDayAndMonth(new Date(forecast.period.end)) })}: ${amounts.join(' · ')}`;
+        if (usageBased.limit) {
+            const exceedsLimit = getPreferredProjection(usageBased).projectedTotal > usageBased.limit;
+            line += ` / ${await convertAndFormatCurrency(usageBased.limit)}${exceedsLimit ? ' ⚠️' : ''}`;
+        }
+        appendCentered(tooltip, line);
+    }
+
+    if (forecast.excludeWeekends) {
+        appendCentered(tooltip, `_${t('statusBar.weekdaysOnly')}_`);
+    }
+}
+
+function appendFooter(tooltip: vscode.MarkdownString, updatedAt: number, schedule: RefreshSchedule | null): void {
+    // Action Buttons Section with new compact design
+    tooltip.appendMarkdown('---\n\n');
+    tooltip.appendMarkdown('<div align="center">\n\n');
+
+    // First row: Account and Extension settings
+    tooltip.appendMarkdown(`🌐 [${t('statusBar.accountSettings')}](https://www.cursor.com/settings) • `);
+    tooltip.appendMarkdown(`🌍 [${t('statusBar.currency')}](command:cursor-stats.selectCurrency) • `);
+    tooltip.appendMarkdown(`⚙️ [${t('statusBar.extensionSettings')}](command:workbench.action.openSettings?%22@ext%3ADwtexe.cursor-stats%22)\n\n`);
+
+    // Second row: Usage Based Pricing, Refresh, and Last Updated
+    tooltip.appendMarkdown(`💰 [${t('statusBar.usageBasedPricing')}](command:cursor-stats.setLimit) • `);
+    tooltip.appendMarkdown(`🔄 [${t('statusBar.refresh')}](command:cursor-stats.refreshStats) • `);
+    tooltip.appendMarkdown(`📊 [${t('statusBar.dashboard')}](command:cursor-stats.openDashboard) • `);
+    tooltip.appendMarkdown(`🕒 ${formatRelativeTime(updatedAt)}\n\n`);
+
+    if (schedule) {
+        tooltip.appendMarkdown(`⏱️ ${t('statusBar.nextRefresh', {
+            time: formatRelativeTime(schedule.nextRefreshAt),
+            reason: t(`statusBar.refreshReasons.${schedule.reason}`)
+        })}\n\n`);
+    }
+
+    tooltip.appendMarkdown('</div>');
+}
+
+/**
+ * Renders the status bar tooltip from a tooltip model
+ */
+export async function renderTooltip(model: TooltipModel): Promise<vscode.MarkdownString> {
+    const tooltip = createTooltip();
+
+    if (model.team?.teamName) {
+        appendCentered(tooltip, `👥 ${t('statusBar.team')}: **${escapeMarkdown(model.team.teamName)}**`);
+    }
+
+    appendPremiumSection(tooltip, model.premium);
+
+    if (model.workspace) {
+        appendCentered(tooltip, `📁 ${t('statusBar.thisWorkspace', { name: escapeMarkdown(model.workspace.name), count: model.workspace.requests })} • [${t('statusBar.exportWorkspaceUsage')}](command:cursor-stats.exportWorkspaceUsage)`);
+    }
+
+    if (model.usageBased) {
+        await appendUsageBasedSection(tooltip, model.usageBased, model.team);
+    } else {
+        tooltip.appendMarkdown(`> ⚠️ ${t('statusBar.errorCheckingStatus')}\n\n`);
+    }
+
+    if (model.forecast) {
+        await appendForecastSection(tooltip, model.forecast);
+    }
+
+    if (model.modelFamilies.length > 0) {
+        await appendModelFamilySection(tooltip, model.modelFamilies);
+    }
+
+    appendFooter(tooltip, model.updatedAt, model.schedule);
+    return tooltip;
+}
+
+/**
+ * Renders a tooltip that only shows the given error messages
+ */
+export function renderErrorTooltip(messages: string[]): vscode.MarkdownString {
+    const tooltip = createTooltip();
+    tooltip.appendMarkdown(`> ⚠️ **${t('statusBar.errorState')}**\n\n`);
+    tooltip.appendMarkdown(messages.join('\n\n'));
+    appendFooter(tooltip, Date.now(), null);
+    return tooltip;
+}
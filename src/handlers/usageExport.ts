@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MonthlyUsage, UsageBasedPricing } from '../interfaces/types';
+import { fetchCursorStats } from '../services/api';
+import { getMonthKey, getMonthlyUsage } from '../services/invoiceCache';
+import { getCursorTokenFromDB } from '../services/database';
+import { getMonthName } from './statusBar';
+import { toCsv, toMarkdownTable } from '../utils/exportFormats';
+import { isUsageEventsEnabled } from '../utils/usageEvents';
+import { log } from '../utils/logger';
+import { t } from '../utils/i18n';
+
+// `eventsCsv` lists the usage events, one row per request
+export type UsageExportFormat = 'csv' | 'json' | 'markdown' | 'eventsCsv';
+
+export interface UsageExportRow {
+  type: 'usage' | 'midMonthPayment';
+  model: string;
+  family: string;
+  description: string;
+  requests: number | null;
+  unitCost: number | null;
+  total: number;
+  discounted: boolean;
+}
+
+const FILE_TYPES: { [format in UsageExportFormat]: { name: string; extension: string } } = {
+  csv: { name: 'CSV', extension: 'csv' },
+  json: { name: 'JSON', extension: 'json' },
+  markdown: { name: 'Markdown', extension: 'md' },
+  eventsCsv: { name: 'CSV', extension: 'csv' },
+};
+
+function parseDollars(value: string): number {
+  return parseFloat(value.replace('$', '')) || 0;
+}
+
+function formatDollars(value: number | null, decimals: number = 2): string {
+  if (value === null) {
+    return '';
+  }
+  return value < 0 ? `-$${Math.abs(value).toFixed(decimals)}` : `$${value.toFixed(decimals)}`;
+}
+
+/**
+ * Parses a month entered as YYYY-MM
+ */
+export function parseMonthInput(input: string): { month: number; year: number } | undefined {
+  const match = input.trim().match(/^(\d{4})-(\d{1,2})$/);
+  if (!match) {
+    return undefined;
+  }
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? { month, year: Number(match[1]) } : undefined;
+}
+
+/**
+ * Turns the parsed invoice items into export rows, with one row per mid-month payment
+ */
+export function getUsageExportRows(pricing: UsageBasedPricing): UsageExportRow[] {
+  const rows: UsageExportRow[] = [];
+  // Mid-month payment items carry the running total of the payments so far
+  let paidSoFar = 0;
+  for (const item of pricing.items) {
+    if (item.requestCount === undefined) {
+      const paid = Math.abs(parseDollars(item.totalDollars));
+      rows.push({
+        type: 'midMonthPayment',
+        model: '',
+        family: '',
+        description: item.description ?? '',
+        requests: null,
+        unitCost: null,
+        total: -Math.round((paid - paidSoFar) * 100) / 100,
+        discounted: false,
+      });
+      paidSoFar = paid;
+      continue;
+    }
+
+    rows.push({
+      type: 'usage',
+      model: item.modelNameForTooltip ?? '',
+      family: item.modelFamily ?? '',
+      description: item.description ?? '',
+      requests: item.requestCount,
+      unitCost: item.unitCostDollars ?? null,
+      total: parseDollars(item.totalDollars),
+      discounted: item.isDiscounted ?? false,
+    });
+  }
+  return rows;
+}
+
+export function formatUsageExport(period: MonthlyUsage, format: UsageExportFormat): string {
+  const rows = getUsageExportRows(period.usageBasedPricing);
+  const usageTotal = Math.round(
+    rows.filter((row) => row.type === 'usage').reduce((sum, row) => sum + row.total, 0) * 100,
+  ) / 100;
+
+  const events = (period.usageBasedPricing.usageEvents || []).map((event) => ({
+    timestamp: new Date(event.timestamp).toISOString(),
+    model: event.model,
+    kind: event.kind,
+    requests: event.requests,
+    cost: event.costCents / 100,
+  }));
+
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        month: period.month,
+        year: period.year,
+        totalDollars: usageTotal,
+        midMonthPaymentDollars: period.usageBasedPricing.midMonthPayment,
+        hasUnpaidMidMonthInvoice: period.usageBasedPricing.hasUnpaidMidMonthInvoice,
+        items: rows,
+        ...(period.usageBasedPricing.usageEvents ? { events } : {}),
+      },
+      null,
+      2,
+    );
+  }
+
+  if (format === 'eventsCsv') {
+    return toCsv(
+      ['timestamp', 'model', 'kind', 'requests', 'cost'],
+      events.map((event) => [event.timestamp, event.model, event.kind, event.requests, event.cost]),
+    );
+  }
+
+  if (format === 'csv') {
+    return toCsv(
+      ['type', 'model', 'family', 'description', 'requests', 'unit_cost', 'total', 'discounted'],
+      rows.map((row) => [
+        row.type,
+        row.model,
+        row.family,
+        row.description,
+        row.requests ?? '',
+        row.unitCost ?? '',
+        row.total,
+        row.discounted,
+      ]),
+    );
+  }
+
+  const table = toMarkdownTable(
+    [t('dashboard.model'), t('statusBar.requests'), t('usageExport.unitCost'), t('statusBar.total'), t('usageExport.discounted')],
+    rows.map((row) => [
+      row.type === 'midMonthPayment' ? t('api.midMonthPayment') : row.model,
+      row.requests ?? '',
+      formatDollars(row.unitCost, 3),
+      formatDollars(row.total),
+      row.discounted ? '✓' : '',
+    ]),
+  );
+  const title = t('usageExport.title', { month: getMonthName(period.month), year: period.year });
+  return `## ${title}\n\n${table}\n**${t('statusBar.totalCost')}:** ${formatDollars(usageTotal)}\n`;
+}
+
+async function pickPeriod(token: string): Promise<MonthlyUsage | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: t('usageExport.currentPeriod'), period: 'current' },
+      { label: t('usageExport.lastPeriod'), period: 'last' },
+      { label: t('usageExport.otherMonth'), period: 'other' },
+    ],
+    { placeHolder: t('usageExport.selectPeriod') },
+  );
+  if (!choice) {
+    return undefined;
+  }
+
+  if (choice.period === 'other') {
+    const now = new Date();
+    const value = await vscode.window.showInputBox({
+      prompt: t('usageExport.enterMonth'),
+      value: `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`,
+      validateInput: (input) => (parseMonthInput(input) ? null : t('usageExport.invalidMonth')),
+    });
+    if (value === undefined) {
+      return undefined;
+    }
+    const { month, year } = parseMonthInput(value)!;
+    return getMonthlyUsage(token, month, year, false, isUsageEventsEnabled());
+  }
+
+  const stats = await fetchCursorStats(token);
+  const period = choice.period === 'current' ? stats.currentMonth : stats.lastMonth;
+  // The regular refresh never asks for usage events
+  return isUsageEventsEnabled() ? getMonthlyUsage(token, period.month, period.year, false, true) : period;
+}
+
+/**
+ * Saves the usage-based items of a billing period as CSV, JSON or a Markdown table,
+ * or its usage events one request per row in the detailed mode
+ */
+export async function exportUsage(): Promise<void> {
+  const token = await getCursorTokenFromDB();
+  if (!token) {
+    vscode.window.showErrorMessage(t('settings.signInRequired'));
+    return;
+  }
+
+  try {
+    const period = await pickPeriod(token);
+    if (!period) {
+      return;
+    }
+
+    const formats: { label: string; format: UsageExportFormat }[] = (['csv', 'json', 'markdown'] as const).map(
+      (format) => ({ label: FILE_TYPES[format].name, format }),
+    );
+    if (period.usageBasedPricing.usageEvents) {
+      formats.push({ label: t('usageExport.eventsCsv'), format: 'eventsCsv' });
+    }
+    const formatChoice = await vscode.window.showQuickPick(formats, { placeHolder: t('usageExport.selectFormat') });
+    if (!formatChoice) {
+      return;
+    }
+
+    const { name, extension } = FILE_TYPES[formatChoice.format];
+    const suffix = formatChoice.format === 'eventsCsv' ? '-requests' : '';
+    const fileName = `cursor-usage-${getMonthKey(period.month, period.year)}${suffix}.${extension}`;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), fileName)),
+      filters: { [name]: [extension] },
+      title: t('usageExport.saveTitle'),
+    });
+    if (!uri) {
+      return;
+    }
+
+    fs.writeFileSync(uri.fsPath, formatUsageExport(period, formatChoice.format));
+    log(`[Command] Exported the usage of ${period.month}/${period.year} to ${uri.fsPath}`);
+
+    const selection = await vscode.window.showInformationMessage(
+      t('usageExport.exported', { fileName: path.basename(uri.fsPath) }),
+      t('commands.openFile'),
+    );
+    if (selection === t('commands.openFile')) {
+      await vscode.commands.executeCommand('vscode.open', uri);
+    }
+  } catch (error: any) {
+    log(`[Command] Error exporting usage: ${error.message}`, true);
+    vscode.window.showErrorMessage(t('usageExport.exportFailed', { error: error.message }));
+  }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceTally } from '../interfaces/types';
+import { getDayKey, getLatestSnapshot } from '../services/history';
+import { NO_WORKSPACE } from '../services/workspaceAttribution';
+import { toCsv } from '../utils/exportFormats';
+import { log } from '../utils/logger';
+import { t } from '../utils/i18n';
+
+export interface WorkspaceUsageRow {
+  workspace: string;
+  requests: number;
+  // Percentage of all attributed requests
+  share: number;
+}
+
+/**
+ * Lists the workspaces of a tally with their share, most requests first
+ */
+export function getWorkspaceBreakdown(tally: WorkspaceTally): WorkspaceUsageRow[] {
+  const total = Object.values(tally).reduce((sum, requests) => sum + requests, 0);
+  return Object.entries(tally)
+    .map(([workspace, requests]) => ({
+      workspace: workspace === NO_WORKSPACE ? t('dashboard.unknownWorkspace') : workspace,
+      requests,
+      share: total > 0 ? Math.round((requests / total) * 1000) / 10 : 0,
+    }))
+    .sort((a, b) => b.requests - a.requests);
+}
+
+export function formatWorkspaceBreakdown(rows: WorkspaceUsageRow[], periodStart: string, format: 'csv' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify({ periodStart, workspaces: rows }, null, 2);
+  }
+  return toCsv(
+    ['workspace', 'requests', 'share'],
+    rows.map((row) => [row.workspace, row.requests, row.share]),
+  );
+}
+
+/**
+ * Saves the premium requests attributed to each workspace this billing period as CSV or JSON
+ */
+export async function exportWorkspaceUsage(): Promise<void> {
+  const snapshot = getLatestSnapshot();
+  if (!snapshot?.workspaceRequests || Object.keys(snapshot.workspaceRequests).length === 0) {
+    vscode.window.showInformationMessage(t('workspaceUsage.nothingToExport'));
+    return;
+  }
+
+  const periodStart = snapshot.period.startOfMonth;
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(
+      path.join(os.homedir(), `cursor-workspace-usage-${getDayKey(new Date(periodStart).getTime())}.csv`),
+    ),
+    filters: { CSV: ['csv'], JSON: ['json'] },
+    title: t('workspaceUsage.saveTitle'),
+  });
+  if (!uri) {
+    return;
+  }
+
+  try {
+    const format = uri.fsPath.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    const rows = getWorkspaceBreakdown(snapshot.workspaceRequests);
+    fs.writeFileSync(uri.fsPath, formatWorkspaceBreakdown(rows, periodStart, format));
+    log(`[Command] Exported the usage of ${rows.length} workspaces to ${uri.fsPath}`);
+
+    const selection = await vscode.window.showInformationMessage(
+      t('workspaceUsage.exported', { fileName: path.basename(uri.fsPath) }),
+      t('commands.openFile'),
+    );
+    if (selection === t('commands.openFile')) {
+      await vscode.commands.executeCommand('vscode.open', uri);
+    }
+  } catch (error: any) {
+    log(`[Command] Error exporting workspace usage: ${error.message}`, true);
+    vscode.window.showErrorMessage(t('workspaceUsage.exportFailed', { error: error.message }));
+  }
+}
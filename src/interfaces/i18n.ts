@@ -58,6 +58,34 @@ export interface LanguagePack {
     // New keys for cooldown
     apiUnavailable: string;
 
+    // Dashboard link in tooltip
+    dashboard: string;
+
+    // Model family breakdown in tooltip
+    costByModelFamily: string;
+    modelFamily: string;
+    requests: string;
+    averagePerRequest: string;
+    shareOfSpend: string;
+    otherModels: string;
+
+    // Active team name in tooltip
+    team: string;
+
+    // Adaptive refresh schedule in tooltip
+    nextRefresh: string;
+    refreshReasons: {
+      normal: string;
+      idle: string;
+      nearLimit: string;
+      backoff: string;
+      retryAfter: string;
+    };
+
+    // Requests attributed to this window's workspace in tooltip
+    thisWorkspace: string;
+    exportWorkspaceUsage: string;
+
     months: {
       january: string;
       february: string;
@@ -94,6 +122,15 @@ export interface LanguagePack {
     unknownModelsDetected: string;
     usageBasedSpendingThreshold: string;
     failedToOpenSettings: string;
+    projectedSpendExceedsLimit: string;
+    limitReachedAround: string;
+    teamMemberNearLimit: string;
+    teamMembersNearLimit: string;
+    teamMemberSpendDetail: string;
+    teamSpendThresholdReached: string;
+    currentTeamSpend: string;
+    showTeamSpendTitle: string;
+    manageTeamLimitsTitle: string;
   };
 
   // Command related
@@ -139,6 +176,16 @@ export interface LanguagePack {
     selectCurrencyPrompt: string;
     currentLanguagePrompt: string;
     selectLanguagePrompt: string;
+    openDashboard: string;
+    showTeamSpend: string;
+    selectTeam: string;
+    selectTeamPrompt: string;
+    activeTeam: string;
+    teamSelected: string;
+    manageTeamLimits: string;
+    exportWorkspaceUsage: string;
+    exportUsage: string;
+    showBillingHistory: string;
   };
 
   // Settings related
@@ -212,6 +259,138 @@ export interface LanguagePack {
     requestUnit: string;
   };
 
+  // Usage dashboard webview
+  dashboard: {
+    title: string;
+    premiumBurn: string;
+    cumulativeSpend: string;
+    modelBreakdown: string;
+    lastMonthComparison: string;
+    noHistory: string;
+    waitingForData: string;
+    hardLimit: string;
+    model: string;
+    thisPeriod: string;
+    lastPeriod: string;
+    localRequests: string;
+    localRequestsNote: string;
+    requestsPerDay: string;
+    requestsPerHour: string;
+    requestsByWorkspace: string;
+    unknownWorkspace: string;
+    noLocalRequests: string;
+  };
+
+  // Team spend webview
+  teamSpend: {
+    title: string;
+    name: string;
+    email: string;
+    role: string;
+    premiumRequests: string;
+    spend: string;
+    hardLimitOverride: string;
+    members: string;
+    totalSpend: string;
+    totalPremiumRequests: string;
+    loading: string;
+    notTeamMember: string;
+    adminOnly: string;
+    loadFailed: string;
+  };
+
+  // Team member limit management
+  teamLimits: {
+    noLimit: string;
+    enterTeamLimit: string;
+    validAmountRequired: string;
+    confirmTeamLimit: string;
+    confirm: string;
+    teamLimitUpdated: string;
+    changedElsewhere: string;
+    adminOnly: string;
+    updateFailed: string;
+  };
+
+  // Export of the requests attributed to each workspace
+  workspaceUsage: {
+    saveTitle: string;
+    nothingToExport: string;
+    exported: string;
+    exportFailed: string;
+  };
+
+  // Export of the usage of a billing period
+  usageExport: {
+    selectPeriod: string;
+    currentPeriod: string;
+    lastPeriod: string;
+    otherMonth: string;
+    enterMonth: string;
+    invalidMonth: string;
+    selectFormat: string;
+    saveTitle: string;
+    title: string;
+    unitCost: string;
+    discounted: string;
+    eventsCsv: string;
+    exported: string;
+    exportFailed: string;
+  };
+
+  // Browser for the invoices of past months
+  billingHistory: {
+    title: string;
+    otherMonth: string;
+    loading: string;
+    loadFailed: string;
+    total: string;
+    midMonthPaid: string;
+    unpaidInvoice: string;
+    cached: string;
+    live: string;
+    byModel: string;
+    share: string;
+    noUsage: string;
+    midMonthPayments: string;
+    requestsTitle: string;
+    searchPlaceholder: string;
+    time: string;
+    kind: string;
+    cost: string;
+    noEvents: string;
+    pageInfo: string;
+    eventKinds: {
+      usageBased: string;
+      included: string;
+      notCharged: string;
+      other: string;
+    };
+  };
+
+  // Personal spending cap that disables usage-based pricing
+  guardrail: {
+    capReached: string;
+    willDisable: string;
+    willLowerLimit: string;
+    allowThisTime: string;
+    applyNow: string;
+    disabled: string;
+    limitLowered: string;
+    failed: string;
+  };
+
+  // Spend forecast in tooltip
+  forecast: {
+    title: string;
+    premiumRunsOut: string;
+    premiumExhausted: string;
+    afterPeriodEnd: string;
+    projectedSpend: string;
+    linear: string;
+    recentRate: string;
+  };
+
   // GitHub related
   github: {
     preRelease: string;
@@ -4,11 +4,44 @@ export interface UsageItem {
   description?: string;
   modelNameForTooltip?: string;
   isDiscounted?: boolean;
+  requestCount?: number;
+  modelFamily?: string;
+  unitCostDollars?: number;
+}
+
+export interface ModelPattern {
+  // Case-insensitive regular expression matched against the invoice description
+  pattern: string;
+  // Defaults to the first capture group, or the whole match
+  displayName?: string;
+  family: string;
+}
+
+export interface ResolvedModel {
+  name: string;
+  family?: string;
+}
+
+export type InvoiceItemKind = 'token' | 'request' | 'toolCall' | 'midMonthPayment' | 'discounted';
+
+export interface ParsedInvoiceItem {
+  description: string;
+  count: number;
+  // Undefined when the description does not name a known model
+  model?: string;
+  family?: string;
+  unitCents: number;
+  totalCents: number;
+  kind: InvoiceItemKind;
+  // Name of the registry pattern that matched
+  pattern: string;
 }
 
 export interface UsageInfo {
   percentage: number;
   type: 'premium' | 'usage-based';
+  // Start of the billing period the alert belongs to
+  periodStart: string;
   limit?: number;
   totalSpent?: number;
   premiumPercentage?: number;
@@ -18,6 +51,21 @@ export interface UsageBasedPricing {
   items: UsageItem[];
   hasUnpaidMidMonthInvoice: boolean;
   midMonthPayment: number;
+  // Only requested in the detailed mode, newest first
+  usageEvents?: UsageEvent[];
+}
+
+export type UsageEventKind = 'usageBased' | 'included' | 'notCharged' | 'other';
+
+/**
+ * One AI request from the usage events of an invoice
+ */
+export interface UsageEvent {
+  timestamp: number;
+  model: string;
+  kind: UsageEventKind;
+  requests: number;
+  costCents: number;
 }
 
 export interface CursorStats {
@@ -38,7 +86,175 @@ export interface CursorStats {
     };
     isTeamSpendData?: boolean;
     teamId?: number;
+    teamName?: string;
     teamSpendCents?: number; // Add spendCents from team spend data
+    hardLimitOverrideDollars?: number;
+}
+
+// Stats fetched by one window and shared with the other open windows
+export interface SharedStats {
+    windowId: string;
+    updatedAt: number;
+    stats: CursorStats;
+    usageStatus: { isEnabled: boolean; limit?: number };
+    usageStatusAvailable: boolean;
+    workspaceRequests?: WorkspaceTally;
+}
+
+export interface TooltipPeriod {
+    start: string;
+    end: string;
+}
+
+export interface TooltipUsageItem {
+    calculation: string;
+    requestCount: number;
+    costDollars: number;
+    modelName?: string;
+    isDiscounted: boolean;
+}
+
+export interface ForecastProjection {
+    // Per counted day, weekends are not counted when excludeWeekends is enabled
+    ratePerDay: number;
+    // Expected value at the end of the billing period
+    projectedTotal: number;
+    // ISO date the limit is reached, undefined when it lasts until the period ends
+    exhaustionDate?: string;
+}
+
+export interface UsageProjection {
+    current: number;
+    limit?: number;
+    // Average rate since the start of the period
+    linear: ForecastProjection;
+    // Rate over the last few days of stored history, null when there is not enough history
+    recentRate: ForecastProjection | null;
+}
+
+export interface UsageForecast {
+    period: TooltipPeriod;
+    excludeWeekends: boolean;
+    premium: UsageProjection;
+    // Null when usage-based pricing is disabled or there is no usage-based data for the current period
+    usageBased: UsageProjection | null;
+}
+
+export interface ModelFamilyUsage {
+    // Null for items that no model pattern matched
+    family: string | null;
+    requestCount: number;
+    costDollars: number;
+    averageCostDollars: number;
+    // Percentage of the total cost of all aggregated items
+    shareOfSpend: number;
+}
+
+export type RefreshReason = 'normal' | 'idle' | 'nearLimit' | 'backoff' | 'retryAfter';
+
+export interface RefreshSchedule {
+    nextRefreshAt: number;
+    reason: RefreshReason;
+}
+
+/**
+ * Everything the status bar tooltip shows. Amounts are always in USD so the
+ * renderer can convert them to the display currency.
+ */
+export interface TooltipModel {
+    premium: {
+        current: number;
+        limit: number;
+        percentage: number;
+        period: TooltipPeriod;
+    };
+    // Null when the usage-based pricing status could not be checked
+    usageBased: {
+        isEnabled: boolean;
+        limitDollars?: number;
+        totalCostDollars: number;
+        midMonthPaymentDollars: number;
+        // Undefined when there is no usage-based data for the period
+        period?: TooltipPeriod;
+        items: TooltipUsageItem[];
+    } | null;
+    // Null for individual accounts
+    team: {
+        teamId: number;
+        teamName?: string;
+        usesTeamSpendData: boolean;
+        personalLimitDollars?: number;
+    } | null;
+    // Aggregated over the current and last billing period, most expensive first
+    modelFamilies: ModelFamilyUsage[];
+    forecast: UsageForecast | null;
+    // Null when no folder is open or nothing was attributed yet
+    workspace: {
+        name: string;
+        requests: number;
+    } | null;
+    // Null when this window does not poll the API itself
+    schedule: RefreshSchedule | null;
+    updatedAt: number;
+}
+
+export interface UsageSnapshot {
+    timestamp: number;
+    premiumRequests: {
+        current: number;
+        limit: number;
+    };
+    usageBasedCostDollars: number;
+    teamSpendCents?: number;
+    period: {
+        startOfMonth: string;
+        month: number;
+        year: number;
+    };
+    // Running total for the billing period, missing in snapshots recorded before attribution existed
+    workspaceRequests?: WorkspaceTally;
+}
+
+// Premium requests attributed to each workspace folder, keyed by its path
+export type WorkspaceTally = { [workspace: string]: number };
+
+export interface UsageHistoryFile {
+    version: number;
+    snapshots: UsageSnapshot[];
+}
+
+export interface UsageHistoryQuery {
+    since?: number;
+    until?: number;
+    startOfMonth?: string;
+}
+
+export interface CachedInvoice {
+    fetchedAt: number;
+    // As returned by the API, without usage events
+    invoice: MonthlyInvoiceResponse;
+}
+
+export interface InvoiceCacheFile {
+    version: number;
+    // Keyed by month as YYYY-MM
+    months: { [month: string]: CachedInvoice };
+}
+
+export interface MonthlyUsage {
+    month: number;
+    year: number;
+    usageBasedPricing: UsageBasedPricing;
+    // Set when a closed month was read from the local cache
+    cachedAt?: number;
+}
+
+export interface UsageHistorySummary {
+    snapshotCount: number;
+    oldestTimestamp?: number;
+    newestTimestamp?: number;
+    retentionDays: number;
+    storagePath: string;
 }
 
 export interface ProgressBarSettings {
@@ -86,6 +302,44 @@ export interface TimingInfo {
   };
 }
 
+export interface RequestCount {
+    key: string;
+    count: number;
+}
+
+export interface WorkspaceRequestCount {
+    // Null for requests whose workspace is unknown
+    workspace: string | null;
+    count: number;
+}
+
+/**
+ * AI requests counted from Cursor's local composer data. Keys are local days
+ * (YYYY-MM-DD) and hours (YYYY-MM-DD HH:00), oldest first; empty ones are left out.
+ */
+export interface RequestTimeline {
+    total: number;
+    hourly: RequestCount[];
+    daily: RequestCount[];
+    // Most requests first
+    workspaces: WorkspaceRequestCount[];
+}
+
+export interface UsageBasedPremiumRequestsResponse {
+    usageBasedPremiumRequests: boolean;
+}
+
+export interface InvoiceItem {
+    description: string;
+    cents?: number;
+}
+
+export interface MonthlyInvoiceResponse {
+    items?: InvoiceItem[];
+    hasUnpaidMidMonthInvoice: boolean;
+    usageEvents?: unknown[];
+}
+
 export interface UsageLimitResponse {
     hardLimit?: number;
     hardLimitPerUser?: number;
@@ -175,13 +429,33 @@ export interface TeamMember {
 }
 
 
+export interface CachedTeam {
+  id: number;
+  name: string;
+  role: string;
+  // The user's id within the team, fetched once the team is first used
+  userId?: number;
+}
+
 export interface UserCache {
+  // Id of the user in the active team
   userId: number;
   jwtSub: string;
   isTeamMember: boolean;
+  // Active team
   teamId?: number;
   lastChecked: number;
   startOfMonth?: string;
+  teams?: CachedTeam[];
+}
+
+export interface TeamMembership {
+  isTeamMember: boolean;
+  teamId?: number;
+  teamName?: string;
+  userId?: number;
+  startOfMonth: string;
+  teams: CachedTeam[];
 }
 
 export interface CurrencyRates {
@@ -196,6 +470,21 @@ export interface CurrencyCache {
   timestamp: number;
 }
 
+export interface ApiCacheCounters {
+    hits: number;
+    coalesced: number;
+    misses: number;
+}
+
+export interface ApiCacheStats extends ApiCacheCounters {
+    ttlMs: number;
+    invalidations: number;
+    entries: number;
+    endpoints: {
+        [endpoint: string]: ApiCacheCounters;
+    };
+}
+
 export interface CursorReport {
     timestamp: string;
     extensionVersion: string;
@@ -207,9 +496,21 @@ export interface CursorReport {
     teamInfo: {
         isTeamMember: boolean;
         teamId?: number;
+        teamName?: string;
         userId?: number;
+        teamCount: number;
     } | null;
     teamSpend: TeamSpendResponse | null;
+    history: {
+        summary: UsageHistorySummary;
+        daily: UsageSnapshot[];
+    } | null;
+    apiCache: ApiCacheStats | null;
+    modelFamilies: {
+        currentMonth: ModelFamilyUsage[];
+        lastMonth: ModelFamilyUsage[];
+        combined: ModelFamilyUsage[];
+    } | null;
     rawResponses: {
         cursorStats?: any;
         usageLimit?: any;
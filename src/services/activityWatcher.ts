@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getCursorDBPath, getLatestComposerTimestamp } from './database';
+import { isLeaderWindow } from './windowCoordinator';
+import { log } from '../utils/logger';
+
+const DATABASE_POLL_MS = 2000;
+// Cursor writes the database many times during one request, wait until it settles
+export const ACTIVITY_DEBOUNCE_MS = 5000;
+
+export function isActivityRefreshEnabled(): boolean {
+  return vscode.workspace.getConfiguration('cursorStats').get<boolean>('refreshOnActivity', false);
+}
+
+/**
+ * Calls the listener once Cursor's state database settles after a new AI request
+ * shows up in the composer data. Other writes to the database are ignored, and only
+ * the window that polls the API reads the database.
+ */
+export function watchActivity(listener: () => void, debounceMs: number = ACTIVITY_DEBOUNCE_MS): vscode.Disposable {
+  // SQLite may write to the write-ahead log first, so watch both files
+  const dbPath = getCursorDBPath();
+  const watchedPaths = [dbPath, `${dbPath}-wal`];
+  let latestActivity: Promise<number | undefined> = isLeaderWindow()
+    ? getLatestComposerTimestamp()
+    : Promise.resolve(undefined);
+  let debounceTimer: NodeJS.Timeout | null = null;
+
+  const checkActivity = async () => {
+    debounceTimer = null;
+    if (!isActivityRefreshEnabled() || !isLeaderWindow()) {
+      return;
+    }
+    const previous = await latestActivity;
+    latestActivity = getLatestComposerTimestamp();
+    const latest = await latestActivity;
+    if (latest !== undefined && (previous === undefined || latest > previous)) {
+      log(`[Activity] New AI request at ${new Date(latest).toISOString()}`);
+      listener();
+    }
+  };
+
+  const onChange = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(checkActivity, debounceMs);
+  };
+
+  for (const watchedPath of watchedPaths) {
+    fs.watchFile(watchedPath, { interval: DATABASE_POLL_MS }, onChange);
+  }
+  log(`[Activity] Watching ${dbPath} for AI requests`);
+
+  return new vscode.Disposable(() => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    for (const watchedPath of watchedPaths) {
+      fs.unwatchFile(watchedPath, onChange);
+    }
+  });
+}
@@ -1,37 +1,17 @@
-import axios from 'axios';
-import { CursorStats, UsageLimitResponse, ExtendedAxiosError, UsageItem, CursorUsageResponse } from '../interfaces/types';
+import { CursorStats, UsageLimitResponse, ExtendedAxiosError, UsageItem, UsageBasedPricing, ParsedInvoiceItem, InvoiceItem, MonthlyInvoiceResponse } from '../interfaces/types';
 import { log } from '../utils/logger';
 import { checkTeamMembership, getTeamSpend, extractUserSpend } from './team';
+import { getCursorApiClient } from './client';
+import { parseInvoiceItem } from '../utils/invoiceParser';
+import { parseUsageEvents } from '../utils/usageEvents';
+import { getModelResolver } from '../utils/modelPatterns';
 import { getExtensionContext } from '../extension';
 import { t } from '../utils/i18n';
 import * as fs from 'fs';
 
-// Common headers that mimic web browser requests to bypass CORS validation
-const getBrowserHeaders = (token: string) => ({
-    'Content-Type': 'application/json',
-    'Cookie': `WorkosCursorSessionToken=${token}`,
-    'Origin': 'https://cursor.com',
-    'Referer': 'https://cursor.com/dashboard',
-    'Sec-Fetch-Site': 'same-origin',
-    'Sec-Fetch-Mode': 'cors',
-    'Sec-Fetch-Dest': 'empty',
-    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    'Accept': '*/*',
-    'Accept-Language': 'en',
-    'Cache-Control': 'no-cache',
-    'Pragma': 'no-cache'
-});
-
 export async function getCurrentUsageLimit(token: string, teamId?: number): Promise<UsageLimitResponse> {
     try {
-        const payload = teamId ? { teamId } : {};
-        const response = await axios.post('https://cursor.com/api/dashboard/get-hard-limit', 
-            payload,
-            {
-                headers: getBrowserHeaders(token)
-            }
-        );
-        return response.data;
+        return await getCursorApiClient().getHardLimit(token, teamId);
     } catch (error: any) {
         log('[API] Error fetching usage limit: ' + error.message, true);
         throw error;
@@ -40,15 +20,7 @@ export async function getCurrentUsageLimit(token: string, teamId?: number): Prom
 
 export async function setUsageLimit(token: string, hardLimit: number, noUsageBasedAllowed: boolean): Promise<void> {
     try {
-        await axios.post('https://cursor.com/api/dashboard/set-hard-limit', 
-            {
-                hardLimit,
-                noUsageBasedAllowed
-            },
-            {
-                headers: getBrowserHeaders(token)
-            }
-        );
+        await getCursorApiClient().setHardLimit(token, hardLimit, noUsageBasedAllowed);
         log(`[API] Successfully ${noUsageBasedAllowed ? 'disabled' : 'enabled'} usage-based pricing with limit: $${hardLimit}`);
     } catch (error: any) {
         log('[API] Error setting usage limit: ' + error.message, true);
@@ -62,20 +34,15 @@ export async function checkUsageBasedStatus(token: string, teamId?: number): Pro
         const payload = teamId ? { teamId } : {};
         log(`[API] Checking usage-based status with payload: ${JSON.stringify(payload)}`);
         
-        const response = await axios.post('https://cursor.com/api/dashboard/get-usage-based-premium-requests', 
-            payload,
-            {
-                headers: getBrowserHeaders(token)
-            }
-        );
+        const response = await getCursorApiClient().getUsageBasedPremiumRequests(token, teamId);
         
-        log(`[API] Usage-based status response: ${JSON.stringify(response.data)}`);
+        log(`[API] Usage-based status response: ${JSON.stringify(response)}`);
         
         // Get the hard limit to determine the spending limit
         const limitResponse = await getCurrentUsageLimit(token, teamId);
         log(`[API] Hard limit response: ${JSON.stringify(limitResponse)}`);
         
-        const isEnabled = response.data.usageBasedPremiumRequests === true;
+        const isEnabled = response.usageBasedPremiumRequests === true;
         log(`[API] Usage-based pricing is ${isEnabled ? 'enabled' : 'disabled'}`);
         
         return {
@@ -95,229 +62,153 @@ export async function checkUsageBasedStatus(token: string, teamId?: number): Pro
     }
 }
 
-async function fetchMonthData(token: string, month: number, year: number): Promise<{ items: UsageItem[], hasUnpaidMidMonthInvoice: boolean, midMonthPayment: number }> {
+function getItemDisplayName(item: ParsedInvoiceItem): string {
+    if (item.kind === 'toolCall') {
+        return t('api.toolCalls');
+    }
+    if (item.model) {
+        return item.model;
+    }
+    return item.pattern === 'extraFastPremium' ? t('api.fastPremium') : t('statusBar.unknownModel');
+}
+
+/**
+ * Fetches the invoice of a month as the API returns it
+ */
+export async function fetchMonthlyInvoice(token: string, month: number, year: number, includeUsageEvents: boolean = false): Promise<MonthlyInvoiceResponse> {
     log(`[API] Fetching data for ${month}/${year}`);
     try {
         // Path to local dev data file, leave empty for production
         const devDataPath: string = "";
 
-        let response;
         if (devDataPath) {
             try {
                 log(`[API] Dev mode enabled, reading from: ${devDataPath}`);
                 const rawData = fs.readFileSync(devDataPath, 'utf8');
-                response = { data: JSON.parse(rawData) };
+                const data = JSON.parse(rawData);
                 log('[API] Successfully loaded dev data');
+                return data;
             } catch (devError: any) {
                 log('[API] Error reading dev data: ' + devError.message, true);
                 throw devError;
             }
-        } else {
-            response = await axios.post('https://cursor.com/api/dashboard/get-monthly-invoice', {
-                month,
-                year,
-                includeUsageEvents: false
-            }, {
-                headers: getBrowserHeaders(token)
-            });
         }
-        
-        const usageItems: UsageItem[] = [];
-        let midMonthPayment = 0;
-        if (response.data.items) {
-            // First pass: find the maximum request count and cost per request among valid items
-            let maxRequestCount = 0;
-            let maxCostPerRequest = 0;
-            for (const item of response.data.items) {
-                // Skip items without cents value or mid-month payments
-                if (!item.hasOwnProperty('cents') || typeof item.cents === 'undefined' || item.description.includes('Mid-month usage paid')) {
-                    continue;
-                }
-                
-                let currentItemRequestCount = 0;
-                const tokenBasedMatch = item.description.match(/^(\d+) token-based usage calls to/);
-                if (tokenBasedMatch && tokenBasedMatch[1]) {
-                    currentItemRequestCount = parseInt(tokenBasedMatch[1]);
-                } else {
-                    const originalMatch = item.description.match(/^(\d+)/); // Match digits at the beginning
-                    if (originalMatch && originalMatch[1]) {
-                        currentItemRequestCount = parseInt(originalMatch[1]);
-                    }
-                }
+        return await getCursorApiClient().getMonthlyInvoice(token, month, year, includeUsageEvents);
+    } catch (error: any) {
+        const axiosError = error as ExtendedAxiosError;
+        log(`[API] Error fetching monthly data for ${month}/${year}: ${axiosError.message}`, true);
+        log('[API] API error details: ' + JSON.stringify({
+            status: axiosError.response?.status,
+            data: axiosError.response?.data,
+            message: axiosError.message
+        }), true);
+        throw error;
+    }
+}
 
-                if (currentItemRequestCount > 0) {
-                    maxRequestCount = Math.max(maxRequestCount, currentItemRequestCount);
-                    
-                    // Calculate cost per request for this item to find maximum
-                    const costPerRequestCents = item.cents / currentItemRequestCount;
-                    const costPerRequestDollars = costPerRequestCents / 100;
-                    maxCostPerRequest = Math.max(maxCostPerRequest, costPerRequestDollars);
-                }
-            }
-            
-            // Calculate the padding width based on the maximum request count
-            const paddingWidth = maxRequestCount > 0 ? maxRequestCount.toString().length : 1; // Ensure paddingWidth is at least 1
-            
-            // Calculate the padding width for cost per request (format to 3 decimal places and find max width)
-            // Max cost will be something like "XX.XXX" or "X.XXX", so we need to find the max length of that string.
-            // Let's find the maximum cost in cents first to determine the number of integer digits.
-            let maxCostCentsForPadding = 0;
-            for (const item of response.data.items) {
-                if (!item.hasOwnProperty('cents') || typeof item.cents === 'undefined' || item.description.includes('Mid-month usage paid')) {
-                    continue;
-                }
-                let currentItemRequestCount = 0;
-                const tokenBasedMatch = item.description.match(/^(\d+) token-based usage calls to/);
-                if (tokenBasedMatch && tokenBasedMatch[1]) {
-                    currentItemRequestCount = parseInt(tokenBasedMatch[1]);
-                } else {
-                    const originalMatch = item.description.match(/^(\d+)/);
-                    if (originalMatch && originalMatch[1]) {
-                        currentItemRequestCount = parseInt(originalMatch[1]);
-                    }
-                }
-                if (currentItemRequestCount > 0) {
-                    const costPerRequestCents = item.cents / currentItemRequestCount;
-                    maxCostCentsForPadding = Math.max(maxCostCentsForPadding, costPerRequestCents);
-                }
-            }
-            // Now format this max cost per request to get its string length
-            const maxCostPerRequestForPaddingFormatted = (maxCostCentsForPadding / 100).toFixed(3);
-            const costPaddingWidth = maxCostPerRequestForPaddingFormatted.length;
+/**
+ * Turns the line items of an invoice into usage items, labelled in the current
+ * language and with the models resolved by the current model patterns
+ */
+export function parseInvoiceItems(invoiceItems: InvoiceItem[]): { items: UsageItem[]; midMonthPayment: number } {
+    const usageItems: UsageItem[] = [];
+    let midMonthPayment = 0;
+    const parsedItems: ParsedInvoiceItem[] = [];
+    const resolveModel = getModelResolver();
+    for (const item of invoiceItems) {
+        // Skip items without cents value
+        if (typeof item.cents === 'undefined') {
+            log('[API] Skipping item without cents value: ' + item.description);
+            continue;
+        }
 
-            for (const item of response.data.items) {
-                
-                // Skip items without cents value
-                if (!item.hasOwnProperty('cents')) {
-                    log('[API] Skipping item without cents value: ' + item.description);
-                    continue;
-                }
-                
-                // Check if this is a mid-month payment
-                if (item.description.includes('Mid-month usage paid')) {
-                    // Skip if cents is undefined
-                    if (typeof item.cents === 'undefined') {
-                        continue;
-                    }
-                    // Add to the total mid-month payment amount (convert from cents to dollars)
-                    midMonthPayment += Math.abs(item.cents) / 100;
-                    log(`[API] Added mid-month payment of $${(Math.abs(item.cents) / 100).toFixed(2)}, total now: $${midMonthPayment.toFixed(2)}`);
-                    // Add a special line for mid-month payment that statusBar.ts can parse
-                    usageItems.push({
-                        calculation: `${t('api.midMonthPayment')}: $${midMonthPayment.toFixed(2)}`,
-                        totalDollars: `-$${midMonthPayment.toFixed(2)}`,
-                        description: item.description
-                    });
-                    continue; // Skip adding this to regular usage items
-                }
+        const parsedItem = parseInvoiceItem(item.description, item.cents, resolveModel);
+        if (!parsedItem) {
+            log('[API] Could not extract request count or model info from: ' + item.description);
+            continue;
+        }
 
-                // Logic to parse different item description formats
-                const cents = item.cents;
+        if (parsedItem.kind === 'midMonthPayment') {
+            // Add to the total mid-month payment amount (convert from cents to dollars)
+            midMonthPayment += Math.abs(parsedItem.totalCents) / 100;
+            log(`[API] Added mid-month payment of $${(Math.abs(parsedItem.totalCents) / 100).toFixed(2)}, total now: $${midMonthPayment.toFixed(2)}`);
+            // Add a special line for mid-month payment that statusBar.ts can parse
+            usageItems.push({
+                calculation: `${t('api.midMonthPayment')}: $${midMonthPayment.toFixed(2)}`,
+                totalDollars: `-$${midMonthPayment.toFixed(2)}`,
+                description: item.description
+            });
+            continue; // Skip adding this to regular usage items
+        }
 
-                if (typeof cents === 'undefined') {
-                    log('[API] Skipping item with undefined cents value: ' + item.description);
-                    continue;
-                }
+        // Skip items with 0 requests to avoid division by zero
+        if (parsedItem.count === 0) {
+            log('[API] Skipping item with 0 requests: ' + item.description);
+            continue;
+        }
 
-                let requestCount: number;
-                let parsedModelName: string; // Renamed from modelInfo for clarity
-                let isToolCall = false;
+        if (!parsedItem.model && parsedItem.kind !== 'toolCall') {
+            log(`[API] Could not determine specific model for: "${item.description}" (matched ${parsedItem.pattern} pattern)`);
+        }
+        parsedItems.push(parsedItem);
+    }
 
-                const tokenBasedMatch = item.description.match(/^(\d+) token-based usage calls to ([\w.-]+), totalling: \$(?:[\d.]+)/);
-                if (tokenBasedMatch) {
-                    requestCount = parseInt(tokenBasedMatch[1]);
-                    parsedModelName = tokenBasedMatch[2];
-                } else {
-                    const originalMatch = item.description.match(/^(\d+)\s+(.+?)(?: request| calls)?(?: beyond|\*| per|$)/i);
-                    if (originalMatch) {
-                        requestCount = parseInt(originalMatch[1]);
-                        const extractedDescription = originalMatch[2].trim();
+    // Pad request counts and per-request costs to the same width so the tooltip lines up
+    const paddingWidth = Math.max(1, ...parsedItems.map(item => item.count.toString().length));
+    const costPaddingWidth = Math.max(0, ...parsedItems.map(item => (item.unitCents / 100).toFixed(3).length));
 
-                        // Updated pattern to handle "discounted" prefix and include claude-4-sonnet
-                        const genericModelPattern = /\b(?:discounted\s+)?(claude-(?:3-(?:opus|sonnet|haiku)|3\.[57]-sonnet(?:-[\w-]+)?(?:-max)?|4-sonnet(?:-thinking)?)|gpt-(?:4(?:\.\d+|o-128k|-preview)?|3\.5-turbo)|gemini-(?:1\.5-flash-500k|2[\.-]5-pro-(?:exp-\d{2}-\d{2}|preview-\d{2}-\d{2}|exp-max))|o[134](?:-mini)?)\b/i;
-                        const specificModelMatch = item.description.match(genericModelPattern);
+    for (const item of parsedItems) {
+        const paddedRequestCount = item.count.toString().padStart(paddingWidth, '0');
+        const costPerRequestDollarsFormatted = (item.unitCents / 100).toFixed(3).padStart(costPaddingWidth, '0');
 
-                        if (item.description.includes("tool calls")) {
-                            parsedModelName = t('api.toolCalls');
-                            isToolCall = true;
-                        } else if (specificModelMatch) {
-                            // Extract the model name (group 1), which excludes the "discounted" prefix
-                            parsedModelName = specificModelMatch[1];
-                        } else if (item.description.includes("extra fast premium request")) {
-                            const extraFastModelMatch = item.description.match(/extra fast premium requests? \(([^)]+)\)/i);
-                            if (extraFastModelMatch && extraFastModelMatch[1]) {
-                                parsedModelName = extraFastModelMatch[1]; // e.g., Haiku
-                            } else {
-                                parsedModelName = t('api.fastPremium');
-                            }
-                        } else {
-                            // Fallback for unknown model structure
-                            parsedModelName = t('statusBar.unknownModel'); // Default to unknown-model
-                            log(`[API] Could not determine specific model for (original format): "${item.description}". Using "${parsedModelName}".`);
-                        }
-                    } else {
-                        log('[API] Could not extract request count or model info from: ' + item.description);
-                        parsedModelName = t('statusBar.unknownModel'); // Ensure it's set for items we can't parse fully
-                        // Try to get at least a request count if possible, even if model is unknown
-                        const fallbackCountMatch = item.description.match(/^(\d+)/);
-                        if (fallbackCountMatch) {
-                            requestCount = parseInt(fallbackCountMatch[1]);
-                        } else {
-                            continue; // Truly unparsable
-                        }
-                    }
-                }
-                
-                // Skip items with 0 requests to avoid division by zero
-                if (requestCount === 0) {
-                    log('[API] Skipping item with 0 requests: ' + item.description);
-                    continue;
-                }
-                
-                const costPerRequestCents = cents / requestCount;
-                const totalDollars = cents / 100;
+        const tilde = item.kind === 'token' ? "~" : "&nbsp;&nbsp;";
+        const itemUnit = t('api.requestUnit'); // Always use "req" as the unit
 
-                const paddedRequestCount = requestCount.toString().padStart(paddingWidth, '0');
-                const costPerRequestDollarsFormatted = (costPerRequestCents / 100).toFixed(3).padStart(costPaddingWidth, '0');
-                
-                const isTotallingItem = !!tokenBasedMatch; 
-                const tilde = isTotallingItem ? "~" : "&nbsp;&nbsp;";
-                const itemUnit = t('api.requestUnit'); // Always use "req" as the unit
-                
-                // Simplified calculation string, model name is now separate
-                const calculationString = `**${paddedRequestCount}** ${itemUnit} @ **$${costPerRequestDollarsFormatted}${tilde}**`;
+        // Simplified calculation string, model name is now separate
+        const calculationString = `**${paddedRequestCount}** ${itemUnit} @ **$${costPerRequestDollarsFormatted}${tilde}**`;
 
-                usageItems.push({
-                    calculation: calculationString,
-                    totalDollars: `$${totalDollars.toFixed(2)}`,
-                    description: item.description,
-                    modelNameForTooltip: parsedModelName, // Store the determined model name here
-                    isDiscounted: item.description.toLowerCase().includes("discounted") // Add a flag for discounted items
-                });
-            }
-        }
-        
-        return {
-            items: usageItems,
-            hasUnpaidMidMonthInvoice: response.data.hasUnpaidMidMonthInvoice,
-            midMonthPayment
-        };
-    } catch (error: any) {
-        const axiosError = error as ExtendedAxiosError;
-        log(`[API] Error fetching monthly data for ${month}/${year}: ${axiosError.message}`, true);
-        log('[API] API error details: ' + JSON.stringify({
-            status: axiosError.response?.status,
-            data: axiosError.response?.data,
-            message: axiosError.message
-        }), true);
-        throw error;
+        usageItems.push({
+            calculation: calculationString,
+            totalDollars: `$${(item.totalCents / 100).toFixed(2)}`,
+            description: item.description,
+            modelNameForTooltip: getItemDisplayName(item),
+            modelFamily: item.family,
+            isDiscounted: item.kind === 'discounted',
+            requestCount: item.count,
+            unitCostDollars: item.unitCents / 100
+        });
     }
+
+    return { items: usageItems, midMonthPayment };
 }
 
-export async function fetchCursorStats(token: string): Promise<CursorStats> {
-    // Extract user ID from token
-    const userId = token.split('%3A%3A')[0];
+/**
+ * Parses an invoice as returned by fetchMonthlyInvoice, including its usage events
+ * when they were asked for
+ */
+export function parseMonthlyInvoice(invoice: MonthlyInvoiceResponse, includeUsageEvents: boolean = false): UsageBasedPricing {
+    const { items, midMonthPayment } = parseInvoiceItems(invoice.items || []);
+    const monthData: UsageBasedPricing = {
+        items,
+        hasUnpaidMidMonthInvoice: invoice.hasUnpaidMidMonthInvoice,
+        midMonthPayment
+    };
+    if (includeUsageEvents) {
+        monthData.usageEvents = parseUsageEvents(invoice.usageEvents || []);
+        log(`[API] Parsed ${monthData.usageEvents.length} usage events`);
+    }
+    return monthData;
+}
 
+/**
+ * Fetches and parses the invoice of one calendar month (1-12), with its usage events
+ * when `includeUsageEvents` is set
+ */
+export async function fetchMonthData(token: string, month: number, year: number, includeUsageEvents: boolean = false): Promise<UsageBasedPricing> {
+    return parseMonthlyInvoice(await fetchMonthlyInvoice(token, month, year, includeUsageEvents), includeUsageEvents);
+}
+
+export async function fetchCursorStats(token: string): Promise<CursorStats> {
     try {
         // Check if user is a team member
         const context = getExtensionContext();
@@ -326,6 +217,7 @@ export async function fetchCursorStats(token: string): Promise<CursorStats> {
         let premiumRequests;
         let isUsingTeamSpend = false;
         let teamSpendCents: number | undefined = undefined;
+        let hardLimitOverrideDollars: number | undefined = undefined;
         
         if (teamInfo.isTeamMember && teamInfo.teamId && teamInfo.userId) {
             // Use team spend data for team members to get team-specific usage
@@ -334,30 +226,28 @@ export async function fetchCursorStats(token: string): Promise<CursorStats> {
                 const teamSpend = await getTeamSpend(token, teamInfo.teamId);
                 const userSpend = extractUserSpend(teamSpend, teamInfo.userId);
                 
-                // Store the spendCents value
+                // Store the spendCents value and the personal limit set by the team admin
                 teamSpendCents = userSpend.spendCents || 0;
+                hardLimitOverrideDollars = userSpend.hardLimitOverrideDollars;
                 
                 // Get individual usage to get the premium request limit (GPT-4)
-                const individualUsage = await axios.get<CursorUsageResponse>('https://cursor.com/api/usage', {
-                    params: { user: userId },
-                    headers: { Cookie: `WorkosCursorSessionToken=${token}` }
-                });
+                const individualUsage = await getCursorApiClient().getUsage(token);
                 
                 // Use GPT-4 data for both current usage and limit since it updates faster
-                const premiumRequestLimit = individualUsage.data['gpt-4'].maxRequestUsage || 500;
+                const premiumRequestLimit = individualUsage['gpt-4'].maxRequestUsage || 500;
                 
                 premiumRequests = {
-                    current: individualUsage.data['gpt-4'].numRequests, // Use GPT-4 number instead of team spend
+                    current: individualUsage['gpt-4'].numRequests, // Use GPT-4 number instead of team spend
                     limit: premiumRequestLimit, // Use the premium request limit (500)
                     startOfMonth: teamInfo.startOfMonth
                 };
                 
                 log('[API] Successfully extracted team member data with premium request limit', {
                     teamPremiumRequests: userSpend.fastPremiumRequests || 0,
-                    individualPremiumRequests: individualUsage.data['gpt-4'].numRequests,
+                    individualPremiumRequests: individualUsage['gpt-4'].numRequests,
                     premiumRequestLimit: premiumRequestLimit,
-                    usageBasedLimit: individualUsage.data['gpt-4-32k'].maxRequestUsage,
-                    usageBasedCurrent: individualUsage.data['gpt-4-32k'].numRequests,
+                    usageBasedLimit: individualUsage['gpt-4-32k'].maxRequestUsage,
+                    usageBasedCurrent: individualUsage['gpt-4-32k'].numRequests,
                     hardLimitOverrideDollars: userSpend.hardLimitOverrideDollars,
                     userName: userSpend.name,
                     spendCents: userSpend.spendCents || 0,
@@ -378,14 +268,7 @@ export async function fetchCursorStats(token: string): Promise<CursorStats> {
         // Fallback to individual usage API if team methods failed or user is not a team member
         if (!premiumRequests) {
             log('[API] Using individual usage API...');
-            const usageResponse = await axios.get<CursorUsageResponse>('https://cursor.com/api/usage', {
-                params: { user: userId },
-                headers: {
-                    Cookie: `WorkosCursorSessionToken=${token}`
-                }
-            });
-
-            const usageData = usageResponse.data;
+            const usageData = await getCursorApiClient().getUsage(token);
             log('[API] Successfully fetched individual usage data', {
                 gpt4Requests: usageData['gpt-4'].numRequests,
                 gpt4Limit: usageData['gpt-4'].maxRequestUsage,
@@ -457,9 +340,11 @@ export async function fetchCursorStats(token: string): Promise<CursorStats> {
             premiumRequests,
             isTeamSpendData: isUsingTeamSpend,
             teamId: teamInfo.teamId,
+            teamName: teamInfo.teamName,
             teamSpendCents: isUsingTeamSpend && teamInfo.isTeamMember && teamInfo.teamId && teamInfo.userId 
                 ? teamSpendCents
-                : undefined
+                : undefined,
+            hardLimitOverrideDollars: isUsingTeamSpend ? hardLimitOverrideDollars : undefined
         };
     } catch (error: any) {
         log('[API] Error fetching premium requests: ' + error, true);
@@ -474,13 +359,7 @@ export async function fetchCursorStats(token: string): Promise<CursorStats> {
 
 export async function getStripeSessionUrl(token: string): Promise<string> {
     try {
-        const response = await axios.get('https://cursor.com/api/stripeSession', {
-            headers: {
-                Cookie: `WorkosCursorSessionToken=${token}`
-            }
-        });
-        // Remove quotes from the response string
-        return response.data.replace(/"/g, '');
+        return await getCursorApiClient().getStripeSessionUrl(token);
     } catch (error: any) {
         log('[API] Error getting Stripe session URL: ' + error.message, true);
         throw error;
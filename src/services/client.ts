@@ -0,0 +1,362 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import {
+  ApiCacheStats,
+  CursorUsageResponse,
+  UsageLimitResponse,
+  UsageBasedPremiumRequestsResponse,
+  MonthlyInvoiceResponse,
+  InvoiceItem,
+  TeamInfo,
+  TeamMemberInfo,
+  TeamSpendResponse,
+} from '../interfaces/types';
+import { log } from '../utils/logger';
+
+export const DEFAULT_API_BASE_URL = 'https://cursor.com';
+// Long enough to cover one refresh cycle, short enough to never serve data from the previous one
+export const RESPONSE_CACHE_TTL_MS = 30 * 1000;
+
+type Validator<T> = (data: any) => data is T;
+
+interface CacheEntry {
+  promise: Promise<any>;
+  // Undefined while the request is still in flight
+  expiresAt?: number;
+}
+
+/**
+ * Thrown when a Cursor API response does not have the shape we expect
+ */
+export class CursorApiValidationError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    message: string,
+  ) {
+    super(`Unexpected response from ${endpoint}: ${message}`);
+    this.name = 'CursorApiValidationError';
+  }
+}
+
+function isObject(data: any): data is { [key: string]: any } {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
+
+function isOptional(value: any, type: string): boolean {
+  return value === undefined || value === null || typeof value === type;
+}
+
+function isModelUsage(data: any): boolean {
+  return isObject(data) && typeof data.numRequests === 'number';
+}
+
+const isUsageResponse: Validator<CursorUsageResponse> = (data): data is CursorUsageResponse =>
+  isObject(data) && typeof data.startOfMonth === 'string' && isModelUsage(data['gpt-4']);
+
+const isUsageLimitResponse: Validator<UsageLimitResponse> = (data): data is UsageLimitResponse =>
+  isObject(data) &&
+  isOptional(data.hardLimit, 'number') &&
+  isOptional(data.hardLimitPerUser, 'number') &&
+  isOptional(data.noUsageBasedAllowed, 'boolean');
+
+const isUsageBasedPremiumRequestsResponse: Validator<UsageBasedPremiumRequestsResponse> = (
+  data,
+): data is UsageBasedPremiumRequestsResponse =>
+  isObject(data) && isOptional(data.usageBasedPremiumRequests, 'boolean');
+
+function isInvoiceItem(item: unknown): item is InvoiceItem {
+  return isObject(item) && typeof item.description === 'string' && isOptional(item.cents, 'number');
+}
+
+// The line items are checked one by one in getMonthlyInvoice, so that one malformed
+// item does not hide the whole invoice
+const isMonthlyInvoiceResponse: Validator<MonthlyInvoiceResponse> = (
+  data,
+): data is MonthlyInvoiceResponse =>
+  isObject(data) &&
+  (data.items === undefined || Array.isArray(data.items)) &&
+  (data.usageEvents === undefined || data.usageEvents === null || Array.isArray(data.usageEvents));
+
+const isTeamInfo: Validator<TeamInfo> = (data): data is TeamInfo =>
+  isObject(data) &&
+  (data.teams === undefined ||
+    (Array.isArray(data.teams) && data.teams.every((team: any) => isObject(team) && typeof team.id === 'number')));
+
+const isTeamMemberInfo: Validator<TeamMemberInfo> = (data): data is TeamMemberInfo =>
+  isObject(data) && typeof data.userId === 'number' && Array.isArray(data.teamMembers);
+
+const isTeamSpendResponse: Validator<TeamSpendResponse> = (data): data is TeamSpendResponse =>
+  isObject(data) &&
+  Array.isArray(data.teamMemberSpend) &&
+  data.teamMemberSpend.every((member: any) => isObject(member) && typeof member.userId === 'number');
+
+const isString: Validator<string> = (data): data is string => typeof data === 'string';
+
+/**
+ * Typed client for the Cursor dashboard API. Every response is validated at
+ * runtime so that API changes surface as a clear error instead of a crash deep
+ * inside the stats code.
+ */
+export class CursorApiClient {
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly cacheStats: ApiCacheStats = {
+    ttlMs: RESPONSE_CACHE_TTL_MS,
+    hits: 0,
+    coalesced: 0,
+    misses: 0,
+    invalidations: 0,
+    entries: 0,
+    endpoints: {},
+  };
+
+  constructor(public readonly baseUrl: string = DEFAULT_API_BASE_URL) {}
+
+  /**
+   * Drops every cached response. Called at the start of each refresh cycle and
+   * after any request that changes account settings.
+   */
+  clearCache(): void {
+    if (this.cache.size > 0) {
+      this.cache.clear();
+      this.cacheStats.invalidations++;
+    }
+  }
+
+  getCacheStats(): ApiCacheStats {
+    return {
+      ...this.cacheStats,
+      entries: this.cache.size,
+      endpoints: Object.fromEntries(
+        Object.entries(this.cacheStats.endpoints).map(([endpoint, counters]) => [endpoint, { ...counters }]),
+      ),
+    };
+  }
+
+  private countCacheResult(endpoint: string, result: 'hits' | 'coalesced' | 'misses'): void {
+    if (!this.cacheStats.endpoints[endpoint]) {
+      this.cacheStats.endpoints[endpoint] = { hits: 0, coalesced: 0, misses: 0 };
+    }
+    this.cacheStats.endpoints[endpoint][result]++;
+    this.cacheStats[result]++;
+  }
+
+  /**
+   * Returns the cached or in-flight response for identical requests, so that
+   * concurrent and repeated callers share a single network round trip.
+   * Failed requests are never cached.
+   */
+  private cached<T>(endpoint: string, key: string, request: () => Promise<T>): Promise<T> {
+    const existing = this.cache.get(key);
+    if (existing) {
+      if (existing.expiresAt === undefined) {
+        this.countCacheResult(endpoint, 'coalesced');
+        return existing.promise;
+      }
+      if (existing.expiresAt > Date.now()) {
+        this.countCacheResult(endpoint, 'hits');
+        return existing.promise;
+      }
+      this.cache.delete(key);
+    }
+
+    this.countCacheResult(endpoint, 'misses');
+    const entry: CacheEntry = { promise: Promise.resolve() };
+    entry.promise = request().then(
+      (data) => {
+        entry.expiresAt = Date.now() + RESPONSE_CACHE_TTL_MS;
+        return data;
+      },
+      (error) => {
+        if (this.cache.get(key) === entry) {
+          this.cache.delete(key);
+        }
+        throw error;
+      },
+    );
+    this.cache.set(key, entry);
+    return entry.promise;
+  }
+
+  // Common headers that mimic web browser requests to bypass CORS validation
+  private getBrowserHeaders(token: string) {
+    return {
+      'Content-Type': 'application/json',
+      Cookie: `WorkosCursorSessionToken=${token}`,
+      Origin: this.baseUrl,
+      Referer: `${this.baseUrl}/dashboard`,
+      'Sec-Fetch-Site': 'same-origin',
+      'Sec-Fetch-Mode': 'cors',
+      'Sec-Fetch-Dest': 'empty',
+      'User-Agent':
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      Accept: '*/*',
+      'Accept-Language': 'en',
+      'Cache-Control': 'no-cache',
+      Pragma: 'no-cache',
+    };
+  }
+
+  private validate<T>(endpoint: string, data: any, validator: Validator<T>): T {
+    if (!validator(data)) {
+      log(`[API] Response validation failed for ${endpoint}: ${JSON.stringify(data)?.substring(0, 500)}`, true);
+      throw new CursorApiValidationError(endpoint, 'response did not match the expected format');
+    }
+    return data;
+  }
+
+  private get<T>(
+    endpoint: string,
+    token: string,
+    validator: Validator<T>,
+    params?: { [key: string]: string },
+  ): Promise<T> {
+    return this.cached(endpoint, `GET ${endpoint} ${JSON.stringify(params ?? {})} ${token}`, async () => {
+      const response = await axios.get(`${this.baseUrl}${endpoint}`, {
+        params,
+        headers: { Cookie: `WorkosCursorSessionToken=${token}` },
+      });
+      return this.validate(endpoint, response.data, validator);
+    });
+  }
+
+  private post<T>(endpoint: string, token: string, body: object, validator: Validator<T>): Promise<T> {
+    return this.cached(endpoint, `POST ${endpoint} ${JSON.stringify(body)} ${token}`, async () => {
+      const response = await axios.post(`${this.baseUrl}${endpoint}`, body, {
+        headers: this.getBrowserHeaders(token),
+      });
+      return this.validate(endpoint, response.data, validator);
+    });
+  }
+
+  getUsage(token: string): Promise<CursorUsageResponse> {
+    const userId = token.split('%3A%3A')[0];
+    return this.get('/api/usage', token, isUsageResponse, { user: userId });
+  }
+
+  getHardLimit(token: string, teamId?: number): Promise<UsageLimitResponse> {
+    return this.post('/api/dashboard/get-hard-limit', token, teamId ? { teamId } : {}, isUsageLimitResponse);
+  }
+
+  async setHardLimit(token: string, hardLimit: number, noUsageBasedAllowed: boolean): Promise<void> {
+    await axios.post(
+      `${this.baseUrl}/api/dashboard/set-hard-limit`,
+      { hardLimit, noUsageBasedAllowed },
+      { headers: this.getBrowserHeaders(token) },
+    );
+    this.clearCache();
+  }
+
+  getUsageBasedPremiumRequests(token: string, teamId?: number): Promise<UsageBasedPremiumRequestsResponse> {
+    return this.post(
+      '/api/dashboard/get-usage-based-premium-requests',
+      token,
+      teamId ? { teamId } : {},
+      isUsageBasedPremiumRequestsResponse,
+    );
+  }
+
+  async getMonthlyInvoice(
+    token: string,
+    month: number,
+    year: number,
+    includeUsageEvents: boolean = false,
+  ): Promise<MonthlyInvoiceResponse> {
+    const invoice = await this.post(
+      '/api/dashboard/get-monthly-invoice',
+      token,
+      { month, year, includeUsageEvents },
+      isMonthlyInvoiceResponse,
+    );
+    if (!invoice.items) {
+      return invoice;
+    }
+
+    const items = invoice.items.filter((item: unknown) => {
+      if (!isInvoiceItem(item)) {
+        log(`[API] Skipping malformed invoice item for ${month}/${year}: ${JSON.stringify(item)}`, true);
+        return false;
+      }
+      return true;
+    });
+    return { ...invoice, items };
+  }
+
+  getTeams(token: string): Promise<TeamInfo> {
+    return this.post('/api/dashboard/teams', token, {}, isTeamInfo);
+  }
+
+  getTeam(token: string, teamId: number): Promise<TeamMemberInfo> {
+    return this.post('/api/dashboard/team', token, { teamId }, isTeamMemberInfo);
+  }
+
+  getTeamSpend(token: string, teamId: number, page?: number): Promise<TeamSpendResponse> {
+    const body = page === undefined ? { teamId } : { teamId, page };
+    return this.post('/api/dashboard/get-team-spend', token, body, isTeamSpendResponse);
+  }
+
+  async setTeamHardLimit(
+    token: string,
+    teamId: number,
+    limits: { hardLimit?: number; hardLimitPerUser: number; noUsageBasedAllowed?: boolean },
+  ): Promise<void> {
+    await axios.post(
+      `${this.baseUrl}/api/dashboard/set-hard-limit`,
+      { teamId, ...limits },
+      { headers: this.getBrowserHeaders(token) },
+    );
+    this.clearCache();
+  }
+
+  async getStripeSessionUrl(token: string): Promise<string> {
+    const url = await this.get('/api/stripeSession', token, isString);
+    // Remove quotes from the response string
+    return url.replace(/"/g, '');
+  }
+}
+
+let apiClient: CursorApiClient | null = null;
+// Logs a rejected base URL once instead of on every request
+let rejectedBaseUrl: string | undefined;
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * The session token is sent with every request, so only https is allowed, apart
+ * from plain http to a local mock server
+ */
+export function isAllowedApiBaseUrl(baseUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return false;
+  }
+  return url.protocol === 'https:' || (url.protocol === 'http:' && LOCAL_HOSTNAMES.includes(url.hostname));
+}
+
+export function getApiBaseUrl(): string {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  const baseUrl = (config.get<string>('apiBaseUrl', DEFAULT_API_BASE_URL).trim() || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+  if (!isAllowedApiBaseUrl(baseUrl)) {
+    if (rejectedBaseUrl !== baseUrl) {
+      rejectedBaseUrl = baseUrl;
+      log(`[API] Ignoring API base URL ${baseUrl}, it must use https unless it points to localhost`, true);
+    }
+    return DEFAULT_API_BASE_URL;
+  }
+  return baseUrl;
+}
+
+/**
+ * Returns the shared API client, recreating it when the base URL setting changes
+ */
+export function getCursorApiClient(): CursorApiClient {
+  const baseUrl = getApiBaseUrl();
+  if (!apiClient || apiClient.baseUrl !== baseUrl) {
+    if (baseUrl !== DEFAULT_API_BASE_URL) {
+      log(`[API] Using custom API base URL: ${baseUrl}`);
+    }
+    apiClient = new CursorApiClient(baseUrl);
+  }
+  return apiClient;
+}
@@ -6,6 +6,30 @@ import * as fs from 'fs';
 import initSqlJs from 'sql.js';
 import { log } from '../utils/logger';
 import { execSync } from 'child_process';
+import { ComposerData, TimingInfo } from '../interfaces/types';
+
+interface CachedTimings {
+  signature: string;
+  timings: TimingInfo[];
+}
+
+interface CachedLatestTimestamp {
+  signature: string;
+  timestamp: number | undefined;
+}
+
+interface CachedWorkspaceComposers {
+  signature: string;
+  workspacePath: string | undefined;
+  composerIds: string[];
+}
+
+// Parsing every conversation is slow, so the timings are kept until the database changes
+let composerTimingsCache: CachedTimings | undefined;
+// The activity watcher asks after every write, most of which change no conversation
+let latestTimestampCache: CachedLatestTimestamp | undefined;
+// The same for the composers of each workspace storage folder, by folder path
+const workspaceComposersCache = new Map<string, CachedWorkspaceComposers>();
 
 // use globalStorageUri to get the user directory path
 // support Portable mode : https://code.visualstudio.com/docs/editor/portable
@@ -121,6 +145,233 @@ export async function getCursorTokenFromDB(): Promise<string | undefined> {
     return undefined;
   }
 }
+
+// Cursor stores JSON values as text or as blobs
+function decodeValue(value: unknown): string {
+  return typeof value === 'string' ? value : Buffer.from(value as Uint8Array).toString('utf8');
+}
+
+/**
+ * Identifies the current contents of files by their path, modification time and size
+ */
+function getFilesSignature(filePaths: string[]): string {
+  return filePaths
+    .map((filePath) => {
+      try {
+        const stats = fs.statSync(filePath);
+        return `${filePath}:${stats.mtimeMs}:${stats.size}`;
+      } catch {
+        return `${filePath}:missing`;
+      }
+    })
+    .join('|');
+}
+
+/**
+ * The signature of a database includes the write-ahead log SQLite may write to first
+ */
+function getDatabaseSignature(dbPath: string): string {
+  return getFilesSignature([dbPath, `${dbPath}-wal`]);
+}
+
+/**
+ * Reads the start time of every AI request in the composer conversations Cursor keeps
+ * in state.vscdb, oldest first. Works without the web API.
+ */
+export async function getComposerTimings(): Promise<TimingInfo[]> {
+  try {
+    const dbPath = getCursorDBPath();
+    if (!fs.existsSync(dbPath)) {
+      log('[Database] Database file does not exist', true);
+      return [];
+    }
+
+    const signature = getDatabaseSignature(dbPath);
+    if (composerTimingsCache?.signature === signature) {
+      return [...composerTimingsCache.timings];
+    }
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(new Uint8Array(fs.readFileSync(dbPath)));
+    try {
+      const tables = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'cursorDiskKV'");
+      if (!tables.length) {
+        log('[Database] No composer data in database');
+        composerTimingsCache = { signature, timings: [] };
+        return [];
+      }
+
+      const result = db.exec("SELECT key, value FROM cursorDiskKV WHERE key LIKE 'composerData:%'");
+      const timings: TimingInfo[] = [];
+      for (const [key, value] of result[0]?.values ?? []) {
+        let composer: ComposerData;
+        try {
+          composer = JSON.parse(decodeValue(value));
+        } catch {
+          log(`[Database] Skipping unreadable composer data: ${key}`);
+          continue;
+        }
+
+        for (const message of composer?.conversation ?? []) {
+          if (message.timingInfo?.clientStartTime) {
+            timings.push({
+              key: key as string,
+              timestamp: message.timingInfo.clientStartTime,
+              timingInfo: message.timingInfo,
+            });
+          }
+        }
+      }
+
+      log(`[Database] Read ${timings.length} composer requests`);
+      timings.sort((a, b) => a.timestamp - b.timestamp);
+      composerTimingsCache = { signature, timings };
+      return [...timings];
+    } finally {
+      db.close();
+    }
+  } catch (error: any) {
+    log('[Database] Error reading composer data: ' + error, true);
+    return [];
+  }
+}
+
+/**
+ * Reads only the start time of the newest AI request in the composer data, which is
+ * all the activity watcher needs, without parsing every conversation in JavaScript
+ */
+export async function getLatestComposerTimestamp(): Promise<number | undefined> {
+  try {
+    const dbPath = getCursorDBPath();
+    if (!fs.existsSync(dbPath)) {
+      return undefined;
+    }
+
+    const signature = getDatabaseSignature(dbPath);
+    if (latestTimestampCache?.signature === signature) {
+      return latestTimestampCache.timestamp;
+    }
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(new Uint8Array(fs.readFileSync(dbPath)));
+    try {
+      const tables = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'cursorDiskKV'");
+      if (!tables.length) {
+        latestTimestampCache = { signature, timestamp: undefined };
+        return undefined;
+      }
+
+      const result = db.exec(`
+        SELECT MAX(json_extract(message.value, '$.timingInfo.clientStartTime'))
+        FROM (
+          SELECT CAST(value AS TEXT) AS json FROM cursorDiskKV
+          WHERE key LIKE 'composerData:%' AND json_valid(CAST(value AS TEXT))
+        ) AS composer, json_each(composer.json, '$.conversation') AS message
+      `);
+      const latest = result[0]?.values[0]?.[0];
+      const timestamp = typeof latest === 'number' ? latest : undefined;
+      latestTimestampCache = { signature, timestamp };
+      return timestamp;
+    } finally {
+      db.close();
+    }
+  } catch (error: any) {
+    log('[Database] Error reading the latest composer request: ' + error, true);
+    return undefined;
+  }
+}
+
+/**
+ * Reads the workspace a workspace storage folder belongs to and the composers started in it
+ */
+async function readWorkspaceComposers(
+  SQL: initSqlJs.SqlJsStatic,
+  workspaceJsonPath: string,
+  dbPath: string,
+): Promise<Omit<CachedWorkspaceComposers, 'signature'>> {
+  // Single folder windows store a folder, multi-root windows their workspace file
+  const { folder, workspace } = JSON.parse(fs.readFileSync(workspaceJsonPath, 'utf8'));
+  if (!folder && !workspace) {
+    return { workspacePath: undefined, composerIds: [] };
+  }
+  const workspacePath = vscode.Uri.parse(folder || workspace).fsPath;
+
+  const db = new SQL.Database(new Uint8Array(fs.readFileSync(dbPath)));
+  try {
+    const result = db.exec("SELECT value FROM ItemTable WHERE key = 'composer.composerData'");
+    const value = result[0]?.values[0]?.[0];
+    const composers = value ? JSON.parse(decodeValue(value)).allComposers : undefined;
+    const composerIds: string[] = [];
+    for (const composer of composers ?? []) {
+      if (composer.composerId) {
+        composerIds.push(composer.composerId);
+      }
+    }
+    return { workspacePath, composerIds };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Maps composer ids to the folder of the workspace they were started in, read from the
+ * per-workspace databases next to the global state.vscdb. Only the databases that
+ * changed since the last call are read again.
+ */
+export async function getComposerWorkspaces(): Promise<Map<string, string>> {
+  const workspaces = new Map<string, string>();
+  try {
+    const workspaceStorageDir = path.join(path.dirname(path.dirname(getCursorDBPath())), 'workspaceStorage');
+    if (!fs.existsSync(workspaceStorageDir)) {
+      log('[Database] No workspace storage found');
+      return workspaces;
+    }
+
+    let SQL: initSqlJs.SqlJsStatic | undefined;
+    const storageFolders = new Set<string>();
+    for (const entry of fs.readdirSync(workspaceStorageDir, { withFileTypes: true })) {
+      const storageFolder = path.join(workspaceStorageDir, entry.name);
+      const workspaceJsonPath = path.join(storageFolder, 'workspace.json');
+      const dbPath = path.join(storageFolder, 'state.vscdb');
+      if (!entry.isDirectory() || !fs.existsSync(workspaceJsonPath) || !fs.existsSync(dbPath)) {
+        continue;
+      }
+      storageFolders.add(storageFolder);
+
+      try {
+        const signature = getFilesSignature([workspaceJsonPath, dbPath, `${dbPath}-wal`]);
+        let cached = workspaceComposersCache.get(storageFolder);
+        if (cached?.signature !== signature) {
+          SQL ??= await initSqlJs();
+          cached = { signature, ...(await readWorkspaceComposers(SQL, workspaceJsonPath, dbPath)) };
+          workspaceComposersCache.set(storageFolder, cached);
+        }
+
+        const { workspacePath, composerIds } = cached;
+        if (workspacePath) {
+          for (const composerId of composerIds) {
+            workspaces.set(composerId, workspacePath);
+          }
+        }
+      } catch (error: any) {
+        log(`[Database] Skipping workspace storage ${entry.name}: ${error.message}`);
+      }
+    }
+
+    // Forget the folders of workspaces Cursor removed
+    for (const storageFolder of workspaceComposersCache.keys()) {
+      if (!storageFolders.has(storageFolder)) {
+        workspaceComposersCache.delete(storageFolder);
+      }
+    }
+
+    log(`[Database] Found the workspaces of ${workspaces.size} composers`);
+  } catch (error: any) {
+    log('[Database] Error reading workspace storage: ' + error, true);
+  }
+  return workspaces;
+}
+
 export function getWindowsUsername(): string | undefined {
   try {
     // Executes cmd.exe and echoes the %USERNAME% variable
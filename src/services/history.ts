@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CursorStats,
+  UsageSnapshot,
+  UsageHistoryFile,
+  UsageHistoryQuery,
+  UsageHistorySummary,
+  WorkspaceTally,
+} from '../interfaces/types';
+import { log } from '../utils/logger';
+import { getExtensionContext } from '../extension';
+
+const HISTORY_FILE_NAME = 'usage-history.json';
+const HISTORY_FILE_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Snapshots newer than this are kept as-is, older ones are compacted to one per day
+const RAW_RETENTION_DAYS = 7;
+const DEFAULT_RETENTION_DAYS = 90;
+
+interface CachedHistory {
+  signature: string;
+  snapshots: UsageSnapshot[];
+}
+
+// Other windows write to the same file, so the cache is only kept while the file is unchanged
+let historyCache: CachedHistory | null = null;
+
+export function getHistoryFilePath(): string {
+  const context = getExtensionContext();
+  return path.join(context.globalStorageUri.fsPath, HISTORY_FILE_NAME);
+}
+
+export function getHistoryRetentionDays(): number {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  return Math.max(config.get<number>('historyRetentionDays', DEFAULT_RETENTION_DAYS), RAW_RETENTION_DAYS);
+}
+
+/**
+ * Returns a local calendar day key (YYYY-MM-DD) for a timestamp
+ */
+export function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Identifies the current contents of the history file by its modification time and size
+ */
+function getHistorySignature(historyPath: string): string {
+  try {
+    const stats = fs.statSync(historyPath);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return 'missing';
+  }
+}
+
+function loadHistory(): UsageSnapshot[] {
+  const historyPath = getHistoryFilePath();
+  const signature = getHistorySignature(historyPath);
+  if (historyCache?.signature === signature) {
+    return historyCache.snapshots;
+  }
+
+  let snapshots: UsageSnapshot[] = [];
+  try {
+    if (fs.existsSync(historyPath)) {
+      const data: UsageHistoryFile = JSON.parse(fs.readFileSync(historyPath, 'utf8'));
+      snapshots = Array.isArray(data.snapshots) ? data.snapshots : [];
+      log(`[History] Loaded ${snapshots.length} snapshots from ${historyPath}`);
+    } else {
+      log('[History] No history file found, starting fresh');
+    }
+  } catch (error: any) {
+    log('[History] Error loading usage history: ' + error.message, true);
+  }
+
+  historyCache = { signature, snapshots };
+  return snapshots;
+}
+
+function saveHistory(snapshots: UsageSnapshot[]): void {
+  try {
+    const historyPath = getHistoryFilePath();
+    fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+    const data: UsageHistoryFile = {
+      version: HISTORY_FILE_VERSION,
+      snapshots,
+    };
+    // Renamed into place so that other windows never read a half-written file
+    const tempPath = `${historyPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, historyPath);
+    historyCache = { signature: getHistorySignature(historyPath), snapshots };
+  } catch (error: any) {
+    log('[History] Error saving usage history: ' + error.message, true);
+  }
+}
+
+function isSameUsage(a: UsageSnapshot, b: UsageSnapshot): boolean {
+  return (
+    a.premiumRequests.current === b.premiumRequests.current &&
+    a.premiumRequests.limit === b.premiumRequests.limit &&
+    a.usageBasedCostDollars === b.usageBasedCostDollars &&
+    a.teamSpendCents === b.teamSpendCents &&
+    a.period.startOfMonth === b.period.startOfMonth
+  );
+}
+
+/**
+ * Drops snapshots past the retention window and keeps only the last snapshot
+ * of each day for anything older than the raw retention window.
+ */
+export function compactSnapshots(
+  snapshots: UsageSnapshot[],
+  now: number = Date.now(),
+  retentionDays: number = DEFAULT_RETENTION_DAYS,
+): UsageSnapshot[] {
+  const retentionCutoff = now - retentionDays * DAY_MS;
+  const rawCutoff = now - RAW_RETENTION_DAYS * DAY_MS;
+
+  const sorted = snapshots
+    .filter((snapshot) => snapshot.timestamp >= retentionCutoff)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const compacted: UsageSnapshot[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const snapshot = sorted[i];
+    const next = sorted[i + 1];
+    if (
+      snapshot.timestamp < rawCutoff &&
+      next &&
+      next.timestamp < rawCutoff &&
+      getDayKey(next.timestamp) === getDayKey(snapshot.timestamp)
+    ) {
+      // A later snapshot from the same compacted day supersedes this one
+      continue;
+    }
+    compacted.push(snapshot);
+  }
+
+  return compacted;
+}
+
+/**
+ * Appends a snapshot of a successful refresh to the local history store.
+ * Unchanged readings are only recorded once per day to keep the file small.
+ */
+export function recordSnapshot(
+  stats: CursorStats,
+  usageBasedCostDollars: number,
+  workspaceRequests?: WorkspaceTally,
+): UsageSnapshot | undefined {
+  const snapshot: UsageSnapshot = {
+    timestamp: Date.now(),
+    premiumRequests: {
+      current: stats.premiumRequests.current,
+      limit: stats.premiumRequests.limit,
+    },
+    usageBasedCostDollars: Math.round(usageBasedCostDollars * 100) / 100,
+    teamSpendCents: stats.teamSpendCents,
+    period: {
+      startOfMonth: stats.premiumRequests.startOfMonth,
+      month: stats.currentMonth.month,
+      year: stats.currentMonth.year,
+    },
+    workspaceRequests,
+  };
+
+  // Read again right before writing, another window may have added snapshots since
+  historyCache = null;
+  const snapshots = loadHistory();
+  const latest = snapshots[snapshots.length - 1];
+  if (
+    latest &&
+    isSameUsage(latest, snapshot) &&
+    getDayKey(latest.timestamp) === getDayKey(snapshot.timestamp)
+  ) {
+    log('[History] Usage unchanged since last snapshot, skipping');
+    return undefined;
+  }
+
+  const updated = compactSnapshots([...snapshots, snapshot], snapshot.timestamp, getHistoryRetentionDays());
+  saveHistory(updated);
+  log(
+    `[History] Recorded snapshot: ${snapshot.premiumRequests.current}/${snapshot.premiumRequests.limit} premium, $${snapshot.usageBasedCostDollars.toFixed(2)} usage-based (${updated.length} stored)`,
+  );
+  return snapshot;
+}
+
+/**
+ * Returns stored snapshots in chronological order, optionally filtered by
+ * time range or billing period.
+ */
+export function getSnapshots(query: UsageHistoryQuery = {}): UsageSnapshot[] {
+  return loadHistory().filter(
+    (snapshot) =>
+      (query.since === undefined || snapshot.timestamp >= query.since) &&
+      (query.until === undefined || snapshot.timestamp <= query.until) &&
+      (query.startOfMonth === undefined || snapshot.period.startOfMonth === query.startOfMonth),
+  );
+}
+
+/**
+ * Returns the last snapshot of each day matching the query
+ */
+export function getDailySnapshots(query: UsageHistoryQuery = {}): UsageSnapshot[] {
+  const byDay = new Map<string, UsageSnapshot>();
+  for (const snapshot of getSnapshots(query)) {
+    byDay.set(getDayKey(snapshot.timestamp), snapshot);
+  }
+  return Array.from(byDay.values());
+}
+
+export function getLatestSnapshot(): UsageSnapshot | undefined {
+  const snapshots = loadHistory();
+  return snapshots[snapshots.length - 1];
+}
+
+export function getHistorySummary(): UsageHistorySummary {
+  const snapshots = loadHistory();
+  return {
+    snapshotCount: snapshots.length,
+    oldestTimestamp: snapshots[0]?.timestamp,
+    newestTimestamp: snapshots[snapshots.length - 1]?.timestamp,
+    retentionDays: getHistoryRetentionDays(),
+    storagePath: getHistoryFilePath(),
+  };
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CachedInvoice, InvoiceCacheFile, MonthlyUsage } from '../interfaces/types';
+import { fetchMonthlyInvoice, parseMonthlyInvoice } from './api';
+import { log } from '../utils/logger';
+import { getExtensionContext } from '../extension';
+
+const INVOICE_CACHE_FILE_NAME = 'invoice-cache.json';
+// Version 1 also kept the usage events of each month, version 2 the parsed items
+const INVOICE_CACHE_FILE_VERSION = 3;
+
+interface LoadedInvoiceCache {
+  signature: string;
+  months: { [month: string]: CachedInvoice };
+}
+
+// Other windows write to the same file, so the cache is only kept while the file is unchanged
+let invoiceCache: LoadedInvoiceCache | null = null;
+
+export function getInvoiceCacheFilePath(): string {
+  const context = getExtensionContext();
+  return path.join(context.globalStorageUri.fsPath, INVOICE_CACHE_FILE_NAME);
+}
+
+/**
+ * Returns the cache key (YYYY-MM) of a calendar month (1-12)
+ */
+export function getMonthKey(month: number, year: number): string {
+  return `${year}-${month.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Whether the invoice of a month can no longer change. A billing period starting in
+ * a month ends during the next one at the latest, so its invoice is final once the
+ * month after that has begun.
+ */
+export function isClosedMonth(month: number, year: number, now: number = Date.now()): boolean {
+  const today = new Date(now);
+  const monthsAgo = (today.getFullYear() - year) * 12 + (today.getMonth() + 1 - month);
+  return monthsAgo >= 2;
+}
+
+/**
+ * Identifies the current contents of the cache file by its modification time and size
+ */
+function getInvoiceCacheSignature(cachePath: string): string {
+  try {
+    const stats = fs.statSync(cachePath);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return 'missing';
+  }
+}
+
+function loadInvoiceCache(): { [month: string]: CachedInvoice } {
+  const cachePath = getInvoiceCacheFilePath();
+  const signature = getInvoiceCacheSignature(cachePath);
+  if (invoiceCache?.signature === signature) {
+    return invoiceCache.months;
+  }
+
+  let months: { [month: string]: CachedInvoice } = {};
+  try {
+    if (fs.existsSync(cachePath)) {
+      const data: InvoiceCacheFile = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+      months = data.version === INVOICE_CACHE_FILE_VERSION && data.months ? data.months : {};
+      log(`[Billing] Loaded ${Object.keys(months).length} cached invoices from ${cachePath}`);
+    }
+  } catch (error: any) {
+    log('[Billing] Error loading invoice cache: ' + error.message, true);
+  }
+
+  invoiceCache = { signature, months };
+  return months;
+}
+
+function saveInvoiceCache(months: { [month: string]: CachedInvoice }): void {
+  try {
+    const cachePath = getInvoiceCacheFilePath();
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    const data: InvoiceCacheFile = {
+      version: INVOICE_CACHE_FILE_VERSION,
+      months,
+    };
+    // Renamed into place so that other windows never read a half-written file
+    const tempPath = `${cachePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, cachePath);
+    invoiceCache = { signature: getInvoiceCacheSignature(cachePath), months };
+  } catch (error: any) {
+    log('[Billing] Error saving invoice cache: ' + error.message, true);
+  }
+}
+
+/**
+ * Returns the parsed invoice of any month. Closed months are fetched once and then
+ * read from the local cache unless `refresh` is set; open months are always fetched.
+ * The cache keeps the line items as the API returned them, so they are labelled in
+ * the current language and model patterns whenever they are read. Usage events are
+ * not cached, which would keep thousands of them per month in the cache file, so
+ * asking for them always fetches the month.
+ */
+export async function getMonthlyUsage(
+  token: string,
+  month: number,
+  year: number,
+  refresh: boolean = false,
+  includeUsageEvents: boolean = false,
+): Promise<MonthlyUsage> {
+  const key = getMonthKey(month, year);
+  const closed = isClosedMonth(month, year);
+  const cached = loadInvoiceCache()[key];
+  if (closed && cached && !refresh && !includeUsageEvents) {
+    log(`[Billing] Using cached invoice for ${key}`);
+    return { month, year, usageBasedPricing: parseMonthlyInvoice(cached.invoice), cachedAt: cached.fetchedAt };
+  }
+
+  const invoice = await fetchMonthlyInvoice(token, month, year, includeUsageEvents);
+  if (closed) {
+    // Read again right before writing, another window may have cached other months since
+    invoiceCache = null;
+    const months = loadInvoiceCache();
+    saveInvoiceCache({
+      ...months,
+      [key]: {
+        fetchedAt: Date.now(),
+        invoice: { items: invoice.items, hasUnpaidMidMonthInvoice: invoice.hasUnpaidMidMonthInvoice },
+      },
+    });
+    log(`[Billing] Cached the closed invoice for ${key}`);
+  }
+  return { month, year, usageBasedPricing: parseMonthlyInvoice(invoice, includeUsageEvents) };
+}
+
+/**
+ * Forgets every cached invoice so closed months are fetched again
+ */
+export function clearInvoiceCache(): void {
+  saveInvoiceCache({});
+}
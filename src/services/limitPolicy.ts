@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { getCurrentUsageLimit, setUsageLimit } from './api';
+import { log } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * One rule of the `cursorStats.limitPolicies` setting. Rules are checked in order and
+ * the first one whose conditions all hold is applied; a rule without conditions
+ * always matches, which makes it the default at the end of the list.
+ */
+export interface LimitPolicyRule {
+  name?: string;
+  // Local weekdays the rule applies on, e.g. ["mon", "tue"]
+  days?: string[];
+  // Applies only in the last N days of the billing period
+  lastDaysOfPeriod?: number;
+  // False disables usage-based pricing, defaults to true
+  enabled?: boolean;
+  // Dollars, keeps the current limit when left out
+  limit?: number;
+}
+
+export interface UsageLimitState {
+  isEnabled: boolean;
+  limit?: number;
+}
+
+export interface PlannedLimitChange {
+  rule: string;
+  hardLimit: number;
+  noUsageBasedAllowed: boolean;
+}
+
+// Dry runs log each intended change once instead of on every refresh
+let lastDryRunKey: string | undefined;
+// The server may store a different limit than the one sent (rounding, clamping or a
+// limit below the spend), so a change is sent once until the plan changes
+let lastAppliedKey: string | undefined;
+
+export function getLimitPolicies(): LimitPolicyRule[] {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  const rules = config.get<LimitPolicyRule[]>('limitPolicies', []);
+  return Array.isArray(rules) ? rules : [];
+}
+
+export function isLimitPolicyDryRun(): boolean {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  return config.get<boolean>('limitPolicyDryRun', false);
+}
+
+function getRuleName(rule: LimitPolicyRule, index: number): string {
+  return rule.name || `#${index + 1}`;
+}
+
+export function ruleMatches(rule: LimitPolicyRule, now: Date, periodEnd: Date): boolean {
+  if (rule.days && !rule.days.map((day) => day.toLowerCase().slice(0, 3)).includes(WEEKDAYS[now.getDay()])) {
+    return false;
+  }
+  if (rule.lastDaysOfPeriod !== undefined && periodEnd.getTime() - now.getTime() > rule.lastDaysOfPeriod * DAY_MS) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Finds the first matching rule and the limit change it asks for, or undefined when
+ * no rule matches or the limit is already as the rule wants it
+ */
+export function planLimitChange(
+  rules: LimitPolicyRule[],
+  current: UsageLimitState,
+  now: Date,
+  periodEnd: Date,
+): PlannedLimitChange | undefined {
+  const index = rules.findIndex((rule) => ruleMatches(rule, now, periodEnd));
+  if (index === -1) {
+    return undefined;
+  }
+  const rule = rules[index];
+  const name = getRuleName(rule, index);
+
+  if (rule.enabled === false) {
+    return current.isEnabled ? { rule: name, hardLimit: 0, noUsageBasedAllowed: true } : undefined;
+  }
+
+  const hardLimit = rule.limit ?? current.limit;
+  if (!hardLimit || hardLimit <= 0) {
+    log(`[Policy] Rule ${name} enables usage-based pricing but there is no limit to enable it with`);
+    return undefined;
+  }
+  if (current.isEnabled && current.limit === hardLimit) {
+    return undefined;
+  }
+  return { rule: name, hardLimit, noUsageBasedAllowed: false };
+}
+
+/**
+ * Evaluates the limit policies and applies the change of the first matching rule. In
+ * dry-run mode the change is only logged. Changes that would let spend continue past
+ * the spending cap (0 for none) are left to the guardrail, and a change already sent
+ * this period is not sent again while the plan stays the same.
+ * @returns Whether the limit was changed
+ */
+export async function applyLimitPolicies(
+  token: string,
+  spentDollars: number,
+  periodEnd: Date,
+  spendingCap: number,
+): Promise<boolean> {
+  const rules = getLimitPolicies();
+  if (rules.length === 0) {
+    return false;
+  }
+
+  try {
+    const limitResponse = await getCurrentUsageLimit(token);
+    const current = { isEnabled: !limitResponse.noUsageBasedAllowed, limit: limitResponse.hardLimit };
+    const change = planLimitChange(rules, current, new Date(), periodEnd);
+    if (!change) {
+      lastAppliedKey = undefined;
+      return false;
+    }
+
+    if (!change.noUsageBasedAllowed && spendingCap > 0 && spentDollars >= spendingCap) {
+      log(`[Policy] Rule ${change.rule} skipped, spend of $${spentDollars.toFixed(2)} reached the $${spendingCap} spending cap`);
+      return false;
+    }
+
+    const details = {
+      rule: change.rule,
+      from: { enabled: current.isEnabled, limit: current.limit ?? null },
+      to: { enabled: !change.noUsageBasedAllowed, limit: change.noUsageBasedAllowed ? null : change.hardLimit },
+    };
+    if (isLimitPolicyDryRun()) {
+      const key = JSON.stringify(details);
+      if (key !== lastDryRunKey) {
+        lastDryRunKey = key;
+        log('[Audit] Limit policy dry run, would change the usage-based limit', details);
+      }
+      return false;
+    }
+
+    const appliedKey = JSON.stringify({ periodEnd: periodEnd.getTime(), rule: change.rule, to: details.to });
+    if (appliedKey === lastAppliedKey) {
+      return false;
+    }
+
+    await setUsageLimit(token, change.hardLimit, change.noUsageBasedAllowed);
+    lastAppliedKey = appliedKey;
+    lastDryRunKey = undefined;
+    log('[Audit] Limit policy changed the usage-based limit', details);
+    return true;
+  } catch (error: any) {
+    log(`[Policy] Error applying limit policies: ${error.message}`, true);
+    return false;
+  }
+}
@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from '../utils/logger';
+import { getExtensionContext } from '../extension';
+
+const NOTIFICATION_STATE_KEY = 'notificationState';
+const NOTIFIED_AMOUNTS_KEY = 'notifiedAmounts';
+const CLAIMS_DIR_NAME = 'notification-claims';
+// Personal and team billing periods can start on different days, so keep a few
+const MAX_PERIODS = 6;
+
+// Keys of the notifications already shown, per billing period start
+type NotificationState = { [periodStart: string]: string[] };
+// Highest amount already notified per alert, per billing period start
+type NotifiedAmounts = { [periodStart: string]: { [key: string]: number } };
+
+function loadState(): NotificationState {
+  return getExtensionContext().globalState.get<NotificationState>(NOTIFICATION_STATE_KEY, {});
+}
+
+function getClaimsDir(): string {
+  return path.join(getExtensionContext().globalStorageUri.fsPath, CLAIMS_DIR_NAME);
+}
+
+/**
+ * Claims are plain files, one directory per period named after its start time, so
+ * the operating system decides which window creates a claim first
+ */
+function getClaimPath(periodStart: string, key: string): string {
+  return path.join(getClaimsDir(), String(new Date(periodStart).getTime()), key.replace(/[^\w.-]/g, '_'));
+}
+
+function pruneClaims(keptPeriodStarts: string[]): void {
+  const claimsDir = getClaimsDir();
+  if (!fs.existsSync(claimsDir)) {
+    return;
+  }
+  const keptNames = keptPeriodStarts.map((periodStart) => String(new Date(periodStart).getTime()));
+  for (const name of fs.readdirSync(claimsDir)) {
+    if (!keptNames.includes(name)) {
+      fs.rmSync(path.join(claimsDir, name), { recursive: true, force: true });
+    }
+  }
+}
+
+async function saveState(state: NotificationState): Promise<void> {
+  const periodStarts = Object.keys(state).sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+  const keptPeriodStarts = periodStarts.slice(0, MAX_PERIODS);
+  await getExtensionContext().globalState.update(
+    NOTIFICATION_STATE_KEY,
+    Object.fromEntries(keptPeriodStarts.map((periodStart) => [periodStart, state[periodStart]])),
+  );
+
+  if (keptPeriodStarts.length < periodStarts.length) {
+    try {
+      pruneClaims(keptPeriodStarts);
+    } catch (error: any) {
+      log('[Notifications] Error removing old notification claims: ' + error.message, true);
+    }
+  }
+}
+
+async function recordNotification(periodStart: string, key: string): Promise<void> {
+  const state = loadState();
+  const shown = state[periodStart] || [];
+  if (!shown.includes(key)) {
+    await saveState({ ...state, [periodStart]: [...shown, key] });
+  }
+}
+
+/**
+ * Whether a notification was already shown in this billing period, by this or
+ * another window
+ */
+export function hasShownNotification(periodStart: string, key: string): boolean {
+  return (loadState()[periodStart] || []).includes(key) || fs.existsSync(getClaimPath(periodStart, key));
+}
+
+/**
+ * Reserves a notification for this window. Returns false when it was already shown
+ * in this billing period, so only one window ever shows it.
+ */
+export async function claimNotification(periodStart: string, key: string): Promise<boolean> {
+  if ((loadState()[periodStart] || []).includes(key)) {
+    return false;
+  }
+
+  const claimPath = getClaimPath(periodStart, key);
+  try {
+    fs.mkdirSync(path.dirname(claimPath), { recursive: true });
+    fs.writeFileSync(claimPath, String(Date.now()), { flag: 'wx' });
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      log(`[Notifications] Notification ${key} was already shown in another window`);
+      await recordNotification(periodStart, key);
+      return false;
+    }
+    // Without the claim file the window can still rely on its own state
+    log(`[Notifications] Error claiming notification ${key}: ${error.message}`, true);
+  }
+
+  await recordNotification(periodStart, key);
+  return true;
+}
+
+/**
+ * The highest amount an alert that repeats as the amount grows was shown for in this
+ * billing period, 0 if none
+ */
+export function getNotifiedAmount(periodStart: string, key: string): number {
+  const amounts = getExtensionContext().globalState.get<NotifiedAmounts>(NOTIFIED_AMOUNTS_KEY, {});
+  return amounts[periodStart]?.[key] ?? 0;
+}
+
+async function recordNotifiedAmount(periodStart: string, key: string, amount: number): Promise<void> {
+  const amounts = getExtensionContext().globalState.get<NotifiedAmounts>(NOTIFIED_AMOUNTS_KEY, {});
+  const updated: NotifiedAmounts = { ...amounts, [periodStart]: { ...amounts[periodStart], [key]: amount } };
+  const keptPeriodStarts = Object.keys(updated)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())
+    .slice(0, MAX_PERIODS);
+  await getExtensionContext().globalState.update(
+    NOTIFIED_AMOUNTS_KEY,
+    Object.fromEntries(keptPeriodStarts.map((start) => [start, updated[start]])),
+  );
+}
+
+/**
+ * Reserves the notification of an alert for an amount above the highest one already
+ * notified this period. Only that amount is stored, not every amount passed on the way.
+ */
+export async function claimNotifiedAmount(periodStart: string, key: string, amount: number): Promise<boolean> {
+  if (amount <= getNotifiedAmount(periodStart, key)) {
+    return false;
+  }
+
+  const claimPath = getClaimPath(periodStart, `${key}-${amount.toFixed(2)}`);
+  try {
+    fs.mkdirSync(path.dirname(claimPath), { recursive: true });
+    fs.writeFileSync(claimPath, String(Date.now()), { flag: 'wx' });
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      log(`[Notifications] Notification ${key} for ${amount} was already shown in another window`);
+      await recordNotifiedAmount(periodStart, key, amount);
+      return false;
+    }
+    log(`[Notifications] Error claiming notification ${key} for ${amount}: ${error.message}`, true);
+  }
+
+  await recordNotifiedAmount(periodStart, key, amount);
+  return true;
+}
+
+/**
+ * Forgets a shown notification so it can be shown again, e.g. when usage dropped
+ * below a threshold after the limit was raised
+ */
+export async function releaseNotification(periodStart: string, key: string): Promise<void> {
+  const state = loadState();
+  if (state[periodStart]?.includes(key)) {
+    await saveState({ ...state, [periodStart]: state[periodStart].filter((shownKey) => shownKey !== key) });
+  }
+  fs.rmSync(getClaimPath(periodStart, key), { force: true });
+}
+
+/**
+ * Forgets every shown notification of every billing period
+ */
+export async function clearNotificationState(): Promise<void> {
+  await getExtensionContext().globalState.update(NOTIFICATION_STATE_KEY, undefined);
+  await getExtensionContext().globalState.update(NOTIFIED_AMOUNTS_KEY, undefined);
+  fs.rmSync(getClaimsDir(), { recursive: true, force: true });
+}
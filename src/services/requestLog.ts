@@ -0,0 +1,69 @@
+import { RequestCount, RequestTimeline, TimingInfo, WorkspaceRequestCount } from '../interfaces/types';
+import { getComposerTimings, getComposerWorkspaces } from './database';
+import { getDayKey } from './history';
+import { log } from '../utils/logger';
+
+const COMPOSER_KEY_PREFIX = 'composerData:';
+
+/**
+ * Returns a local hour key (YYYY-MM-DD HH:00) for a timestamp
+ */
+export function getHourKey(timestamp: number): string {
+  const hours = new Date(timestamp).getHours().toString().padStart(2, '0');
+  return `${getDayKey(timestamp)} ${hours}:00`;
+}
+
+export function getComposerId(timing: TimingInfo): string {
+  return timing.key.startsWith(COMPOSER_KEY_PREFIX) ? timing.key.slice(COMPOSER_KEY_PREFIX.length) : timing.key;
+}
+
+function increment<K>(counts: Map<K, number>, key: K): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+function toRequestCounts(counts: Map<string, number>): RequestCount[] {
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, count]) => ({ key, count }));
+}
+
+/**
+ * Counts the composer requests started at or after `since` per hour, day and workspace
+ */
+export function buildRequestTimeline(
+  timings: TimingInfo[],
+  workspaces: Map<string, string>,
+  since: number = 0,
+): RequestTimeline {
+  const hourly = new Map<string, number>();
+  const daily = new Map<string, number>();
+  const byWorkspace = new Map<string | null, number>();
+  let total = 0;
+
+  for (const timing of timings) {
+    if (timing.timestamp < since) {
+      continue;
+    }
+    total++;
+    increment(hourly, getHourKey(timing.timestamp));
+    increment(daily, getDayKey(timing.timestamp));
+    increment(byWorkspace, workspaces.get(getComposerId(timing)) ?? null);
+  }
+
+  const workspaceCounts: WorkspaceRequestCount[] = Array.from(byWorkspace.entries())
+    .map(([workspace, count]) => ({ workspace, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return { total, hourly: toRequestCounts(hourly), daily: toRequestCounts(daily), workspaces: workspaceCounts };
+}
+
+/**
+ * Reads the AI requests from Cursor's local database, which also works while the
+ * Cursor API is unreachable
+ */
+export async function getRequestTimeline(since?: number): Promise<RequestTimeline> {
+  const [timings, workspaces] = await Promise.all([getComposerTimings(), getComposerWorkspaces()]);
+  const timeline = buildRequestTimeline(timings, workspaces, since);
+  log(`[Database] Local request log: ${timeline.total} requests in ${timeline.workspaces.length} workspaces`);
+  return timeline;
+}
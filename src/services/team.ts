@@ -1,10 +1,10 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import axios from 'axios';
 import * as jwt from 'jsonwebtoken';
-import { TeamInfo, TeamMemberInfo, TeamSpendResponse, TeamMemberSpend, UserCache, CursorUsageResponse } from '../interfaces/types';
+import { CachedTeam, TeamMembership, TeamSpendResponse, UsageLimitResponse, UserCache } from '../interfaces/types';
 import { log } from '../utils/logger';
+import { getCursorApiClient } from './client';
 
 const CACHE_FILE_NAME = 'user-cache.json';
 
@@ -42,7 +42,8 @@ export async function saveUserCache(context: vscode.ExtensionContext, cache: Use
             isTeamMember: cache.isTeamMember,
             teamId: cache.teamId,
             lastChecked: new Date(cache.lastChecked).toISOString(),
-            hasStartOfMonth: !!cache.startOfMonth
+            hasStartOfMonth: !!cache.startOfMonth,
+            teamCount: cache.teams?.length || 0
         });
         
         fs.writeFileSync(cachePath, JSON.stringify(cache, null, 2));
@@ -57,107 +58,112 @@ export async function saveUserCache(context: vscode.ExtensionContext, cache: Use
     }
 }
 
-export async function checkTeamMembership(token: string, context: vscode.ExtensionContext): Promise<{ isTeamMember: boolean; teamId?: number; userId?: number; startOfMonth: string }> {
+/**
+ * Returns the team id from the cursorStats.activeTeamId setting, if one is set
+ */
+export function getActiveTeamSetting(): number | undefined {
+    const activeTeamId = vscode.workspace.getConfiguration('cursorStats').get<number | null>('activeTeamId', null);
+    return typeof activeTeamId === 'number' && activeTeamId > 0 ? activeTeamId : undefined;
+}
+
+/**
+ * Picks the team selected in the settings, falling back to the first team
+ */
+export function selectActiveTeam(teams: CachedTeam[]): CachedTeam | undefined {
+    const activeTeamId = getActiveTeamSetting();
+    const selectedTeam = activeTeamId !== undefined ? teams.find(team => team.id === activeTeamId) : undefined;
+    if (activeTeamId !== undefined && !selectedTeam) {
+        log('[Team] Configured team not found, using the first team', {
+            activeTeamId,
+            availableTeamIds: teams.map(team => team.id)
+        }, true);
+    }
+    return selectedTeam || teams[0];
+}
+
+export async function checkTeamMembership(token: string, context: vscode.ExtensionContext): Promise<TeamMembership> {
     try {
         // Extract JWT sub from token
         const jwtToken = token.split('%3A%3A')[1];
         const decoded = jwt.decode(jwtToken, { complete: true });
         const jwtSub = decoded?.payload?.sub as string;
+        const client = getCursorApiClient();
 
-        // Check cache first
-        const cache = await loadUserCache(context);
-        if (cache && cache.jwtSub === jwtSub && cache.startOfMonth) {
-            return {
-                isTeamMember: cache.isTeamMember,
-                teamId: cache.teamId,
-                userId: cache.userId,
-                startOfMonth: cache.startOfMonth
-            };
-        }
+        // Check cache first, caches written before multiple teams were supported have no team list
+        let cache = await loadUserCache(context);
+        let cacheChanged = false;
+        if (!cache || cache.jwtSub !== jwtSub || !cache.startOfMonth || !cache.teams) {
+            // Get start of month from usage API
+            log('[Team] Cache miss or invalid, fetching fresh usage data');
+            log('[Team] Making request to /api/usage endpoint');
+            const usageData = await client.getUsage(token);
+            const startOfMonth = usageData.startOfMonth;
+            log('[Team] Usage API response', {
+                startOfMonth,
+                hasGPT4Data: !!usageData['gpt-4']
+            });
 
-        // Get start of month from usage API
-        log('[Team] Cache miss or invalid, fetching fresh usage data');
-        const tokenUserId = token.split('%3A%3A')[0];
-        log('[Team] Making request to /api/usage endpoint');
-        const usageResponse = await axios.get<CursorUsageResponse>('https://cursor.com/api/usage', {
-            params: { user: tokenUserId },
-            headers: {
-                Cookie: `WorkosCursorSessionToken=${token}`
-            }
-        });
-        const startOfMonth = usageResponse.data.startOfMonth;
-        log('[Team] Usage API response', {
-            startOfMonth,
-            hasGPT4Data: !!usageResponse.data['gpt-4'],
-            status: usageResponse.status
-        });
+            // Fetch team membership data
+            log('[Team] Making request to /api/dashboard/teams endpoint');
+            const teamsData = await client.getTeams(token);
+            const teams: CachedTeam[] = (teamsData.teams || []).map(team => ({
+                id: team.id,
+                name: team.name,
+                role: team.role
+            }));
+            log('[Team] Teams API response', {
+                isTeamMember: teams.length > 0,
+                teamIds: teams.map(team => team.id),
+                teamCount: teams.length
+            });
 
-        // Common headers that mimic web browser requests to bypass CORS validation
-        const getBrowserHeaders = (token: string) => ({
-            'Content-Type': 'application/json',
-            'Cookie': `WorkosCursorSessionToken=${token}`,
-            'Origin': 'https://cursor.com',
-            'Referer': 'https://cursor.com/dashboard',
-            'Sec-Fetch-Site': 'same-origin',
-            'Sec-Fetch-Mode': 'cors',
-            'Sec-Fetch-Dest': 'empty',
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            'Accept': '*/*',
-            'Accept-Language': 'en',
-            'Cache-Control': 'no-cache',
-            'Pragma': 'no-cache'
-        });
+            cache = {
+                userId: 0,
+                jwtSub,
+                isTeamMember: teams.length > 0,
+                lastChecked: Date.now(),
+                startOfMonth,
+                teams
+            };
+            cacheChanged = true;
+        }
 
-        // Fetch team membership data
-        log('[Team] Making request to /api/dashboard/teams endpoint');
-        const response = await axios.post<TeamInfo>('https://cursor.com/api/dashboard/teams', 
-            {}, // empty JSON body
-            {
-                headers: getBrowserHeaders(token)
-            }
-        );
-        
-        const isTeamMember = response.data.teams && response.data.teams.length > 0;
-        const teamId = isTeamMember ? response.data.teams[0].id : undefined;
-        log('[Team] Teams API response', {
-            isTeamMember,
-            teamId,
-            teamCount: response.data.teams?.length || 0,
-            status: response.status
-        });
+        const teams = cache.teams || [];
+        const activeTeam = selectActiveTeam(teams);
 
-        let teamUserId: number | undefined;
-
-        if (isTeamMember && teamId) {
-            // Fetch team details to get userId
-            log('[Team] Making request to /api/dashboard/team endpoint');
-            const teamResponse = await axios.post<TeamMemberInfo>('https://cursor.com/api/dashboard/team', 
-                { teamId },
-                {
-                    headers: getBrowserHeaders(token)
-                }
-            );
-            teamUserId = teamResponse.data.userId;
+        if (activeTeam && activeTeam.userId === undefined) {
+            // Fetch team details to get userId, once per team
+            log('[Team] Making request to /api/dashboard/team endpoint', { teamId: activeTeam.id });
+            const teamData = await client.getTeam(token, activeTeam.id);
+            activeTeam.userId = teamData.userId;
             log('[Team] Team details response', {
-                userId: teamUserId,
-                memberCount: teamResponse.data.teamMembers.length,
-                status: teamResponse.status
+                teamId: activeTeam.id,
+                userId: teamData.userId,
+                memberCount: teamData.teamMembers.length
             });
+            cacheChanged = true;
         }
 
-        // Save to cache
-        const cacheData = {
-            userId: teamUserId || 0,
-            jwtSub,
-            isTeamMember,
-            teamId,
-            lastChecked: Date.now(),
-            startOfMonth
-        };
-        log('[Team] Saving new cache data');
-        await saveUserCache(context, cacheData);
+        if (cache.teamId !== activeTeam?.id) {
+            log('[Team] Active team changed', { from: cache.teamId, to: activeTeam?.id });
+            cache.teamId = activeTeam?.id;
+            cache.userId = activeTeam?.userId || 0;
+            cacheChanged = true;
+        }
+
+        if (cacheChanged) {
+            log('[Team] Saving new cache data');
+            await saveUserCache(context, cache);
+        }
 
-        return { isTeamMember, teamId, userId: teamUserId, startOfMonth };
+        return {
+            isTeamMember: teams.length > 0,
+            teamId: activeTeam?.id,
+            teamName: activeTeam?.name,
+            userId: activeTeam?.userId,
+            startOfMonth: cache.startOfMonth!,
+            teams
+        };
     } catch (error: any) {
         log('[Team] Error checking team membership', error.message, true);
         log('[Team] API error details', {
@@ -175,35 +181,13 @@ export async function checkTeamMembership(token: string, context: vscode.Extensi
 
 export async function getTeamSpend(token: string, teamId: number): Promise<TeamSpendResponse> {
     try {
-        // Common headers that mimic web browser requests to bypass CORS validation
-        const getBrowserHeaders = (token: string) => ({
-            'Content-Type': 'application/json',
-            'Cookie': `WorkosCursorSessionToken=${token}`,
-            'Origin': 'https://cursor.com',
-            'Referer': 'https://cursor.com/dashboard',
-            'Sec-Fetch-Site': 'same-origin',
-            'Sec-Fetch-Mode': 'cors',
-            'Sec-Fetch-Dest': 'empty',
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            'Accept': '*/*',
-            'Accept-Language': 'en',
-            'Cache-Control': 'no-cache',
-            'Pragma': 'no-cache'
-        });
-
         log('[Team] Making request to get team spend');
-        const response = await axios.post<TeamSpendResponse>('https://cursor.com/api/dashboard/get-team-spend', 
-            { teamId }, // Include teamId in request body
-            {
-                headers: getBrowserHeaders(token)
-            }
-        );
+        const teamSpend = await getCursorApiClient().getTeamSpend(token, teamId);
         log('[Team] Team spend response', {
-            memberCount: response.data.teamMemberSpend.length,
-            totalMembers: response.data.totalMembers,
-            status: response.status
+            memberCount: teamSpend.teamMemberSpend.length,
+            totalMembers: teamSpend.totalMembers
         });
-        return response.data;
+        return teamSpend;
     } catch (error: any) {
         log('[Team] Error fetching team spend', error.message, true);
         log('[Team] Team spend error details', {
@@ -219,6 +203,82 @@ export async function getTeamSpend(token: string, teamId: number): Promise<TeamS
     }
 }
 
+/**
+ * Fetches the spend of every team member, following the pagination of the team spend endpoint
+ */
+export async function getAllTeamMemberSpend(token: string, teamId: number): Promise<TeamSpendResponse> {
+    const firstPage = await getTeamSpend(token, teamId);
+    const totalPages = firstPage.totalPages || 1;
+    const members = new Map(firstPage.teamMemberSpend.map(member => [member.userId, member]));
+
+    for (let page = 2; page <= totalPages; page++) {
+        log(`[Team] Fetching team spend page ${page}/${totalPages}`);
+        const response = await getCursorApiClient().getTeamSpend(token, teamId, page);
+        for (const member of response.teamMemberSpend) {
+            members.set(member.userId, member);
+        }
+    }
+
+    log('[Team] Fetched spend for all team members', {
+        memberCount: members.size,
+        totalMembers: firstPage.totalMembers,
+        totalPages
+    });
+    return { ...firstPage, teamMemberSpend: Array.from(members.values()) };
+}
+
+/**
+ * Sets the default monthly spending limit of every team member, keeping the
+ * team's overall limit and usage-based pricing state as they are. Nothing is sent
+ * if the limits changed since they were read as seenLimit, e.g. on the web dashboard,
+ * since writing them back would undo that change. Returns whether the limit was set.
+ */
+export async function setTeamHardLimitPerUser(
+    token: string,
+    teamId: number,
+    hardLimitPerUser: number,
+    seenLimit: UsageLimitResponse
+): Promise<boolean> {
+    try {
+        const client = getCursorApiClient();
+        // The limits are written back as read, so they must not come from the response cache
+        client.clearCache();
+        const currentLimit = await client.getHardLimit(token, teamId);
+        if (
+            currentLimit.hardLimit !== seenLimit.hardLimit ||
+            currentLimit.hardLimitPerUser !== seenLimit.hardLimitPerUser ||
+            currentLimit.noUsageBasedAllowed !== seenLimit.noUsageBasedAllowed
+        ) {
+            log('[Team] Team limits changed since they were read, not changing the limit per user', {
+                teamId,
+                seen: seenLimit,
+                current: currentLimit
+            }, true);
+            return false;
+        }
+
+        await client.setTeamHardLimit(token, teamId, {
+            hardLimit: currentLimit.hardLimit,
+            hardLimitPerUser,
+            noUsageBasedAllowed: currentLimit.noUsageBasedAllowed
+        });
+        log('[Audit] Changed team hard limit per user', {
+            teamId,
+            from: currentLimit.hardLimitPerUser ?? null,
+            to: hardLimitPerUser
+        });
+        return true;
+    } catch (error: any) {
+        log('[Team] Error setting team hard limit per user', error.message, true);
+        log('[Team] Team hard limit error details', {
+            teamId,
+            status: error.response?.status,
+            data: error.response?.data
+        }, true);
+        throw error;
+    }
+}
+
 export function extractUserSpend(teamSpend: TeamSpendResponse, userId: number) {
     log('[Team] Extracting spend data for user', { userId });
     
@@ -0,0 +1,282 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { SharedStats } from '../interfaces/types';
+import { log } from '../utils/logger';
+import { getExtensionContext } from '../extension';
+
+const LEADER_LOCK_FILE_NAME = 'leader.lock';
+const SHARED_STATS_FILE_NAME = 'shared-stats.json';
+const SHARED_STATS_POLL_MS = 1000;
+// The leader renews its lock this often while its window is focused
+const LEADER_HEARTBEAT_MS = 30 * 1000;
+// A leader that has not renewed its lock for this long stopped polling, e.g. its window lost focus
+const LEADER_STALE_MS = 3 * LEADER_HEARTBEAT_MS;
+// Time for a window taking over at the same moment to finish before checking who won
+const TAKEOVER_SETTLE_MS = 200;
+// A takeover marker this old was left behind by a window that closed while taking over
+const TAKEOVER_MARKER_STALE_MS = 10 * 1000;
+
+interface LeaderLock {
+  windowId: string;
+  pid: number;
+  claimedAt: number;
+  // Missing in locks written before heartbeats, claimedAt applies then
+  heartbeatAt?: number;
+}
+
+// Identifies this window, every window runs its own extension host
+const windowId = crypto.randomBytes(8).toString('hex');
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+export function getWindowId(): string {
+  return windowId;
+}
+
+export function getLeaderLockPath(): string {
+  return path.join(getExtensionContext().globalStorageUri.fsPath, LEADER_LOCK_FILE_NAME);
+}
+
+function getTakeoverMarkerPath(): string {
+  return `${getLeaderLockPath()}.takeover`;
+}
+
+export function getSharedStatsPath(): string {
+  return path.join(getExtensionContext().globalStorageUri.fsPath, SHARED_STATS_FILE_NAME);
+}
+
+function readLock(): LeaderLock | null {
+  try {
+    return JSON.parse(fs.readFileSync(getLeaderLockPath(), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to someone else
+    return error.code === 'EPERM';
+  }
+}
+
+/**
+ * Whether the leader's window was closed or has stopped renewing its lock. A lock of
+ * another window in this process is left over from before the extension restarted.
+ */
+function isStaleLock(lock: LeaderLock, now: number = Date.now()): boolean {
+  if (lock.windowId !== windowId && (lock.pid === process.pid || !isProcessAlive(lock.pid))) {
+    return true;
+  }
+  return now - (lock.heartbeatAt ?? lock.claimedAt) > LEADER_STALE_MS;
+}
+
+function createLock(): void {
+  const now = Date.now();
+  const lock: LeaderLock = { windowId, pid: process.pid, claimedAt: now, heartbeatAt: now };
+  fs.mkdirSync(path.dirname(getLeaderLockPath()), { recursive: true });
+  fs.writeFileSync(getLeaderLockPath(), JSON.stringify(lock), { flag: 'wx' });
+}
+
+/**
+ * Writes a lock next to the current one and renames it over it, so the lock is never
+ * missing and never half written
+ */
+function replaceLock(lock: LeaderLock): void {
+  const lockPath = getLeaderLockPath();
+  const tempPath = `${lockPath}.${windowId}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(lock));
+  try {
+    fs.renameSync(tempPath, lockPath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function isSameLock(a: LeaderLock | null, b: LeaderLock): boolean {
+  return (
+    a !== null &&
+    a.windowId === b.windowId &&
+    a.pid === b.pid &&
+    a.claimedAt === b.claimedAt &&
+    a.heartbeatAt === b.heartbeatAt
+  );
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Replaces a stale lock with this window's. Only the window that creates the takeover
+ * marker may replace it, and it checks again after a moment that its lock is the one left.
+ */
+async function takeOverLock(staleLock: LeaderLock): Promise<boolean> {
+  const markerPath = getTakeoverMarkerPath();
+  try {
+    if (Date.now() - fs.statSync(markerPath).mtimeMs > TAKEOVER_MARKER_STALE_MS) {
+      fs.rmSync(markerPath, { force: true });
+    }
+  } catch {
+    // No marker left behind
+  }
+
+  let marker: number;
+  try {
+    marker = fs.openSync(markerPath, 'wx');
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      log('[Window] Another window is taking over polling');
+      return false;
+    }
+    throw error;
+  }
+
+  try {
+    // Another window may have taken over before this one created the marker
+    if (!isSameLock(readLock(), staleLock)) {
+      return false;
+    }
+    log(`[Window] Leader window ${staleLock.windowId} stopped polling, taking over`);
+    const now = Date.now();
+    replaceLock({ windowId, pid: process.pid, claimedAt: now, heartbeatAt: now });
+  } finally {
+    fs.closeSync(marker);
+    fs.rmSync(markerPath, { force: true });
+  }
+
+  await wait(TAKEOVER_SETTLE_MS);
+  const elected = readLock()?.windowId === windowId;
+  if (elected) {
+    log(`[Window] Window ${windowId} was elected to poll the API for all windows`);
+  }
+  return elected;
+}
+
+/**
+ * Renews this window's lock while it leads, or takes over from a leader that stopped
+ * polling. The current leader keeps polling until then, focusing a window does not
+ * hand over.
+ */
+export async function maintainLeadership(): Promise<void> {
+  try {
+    const lock = readLock();
+    if (!lock) {
+      isLeaderWindow();
+    } else if (!isStaleLock(lock)) {
+      if (lock.windowId === windowId) {
+        replaceLock({ ...lock, heartbeatAt: Date.now() });
+      }
+    } else {
+      await takeOverLock(lock);
+    }
+  } catch (error: any) {
+    log('[Window] Error maintaining leadership: ' + error.message, true);
+  }
+}
+
+/**
+ * Maintains leadership right away and then regularly, while the window is focused
+ * and can poll
+ */
+export function startLeaderHeartbeat(): Promise<void> {
+  stopLeaderHeartbeat();
+  heartbeatTimer = setInterval(maintainLeadership, LEADER_HEARTBEAT_MS);
+  return maintainLeadership();
+}
+
+export function stopLeaderHeartbeat(): void {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+}
+
+/**
+ * Whether this window should poll the API. The first window to find no lock becomes
+ * the leader, taking over a stale lock is left to maintainLeadership.
+ */
+export function isLeaderWindow(): boolean {
+  const lock = readLock();
+  if (lock) {
+    return lock.windowId === windowId;
+  }
+
+  try {
+    // Only one of several windows racing for the lock manages to create it
+    createLock();
+    log(`[Window] Window ${windowId} was elected to poll the API for all windows`);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      return readLock()?.windowId === windowId;
+    }
+    log('[Window] Error electing a leader window, polling anyway: ' + error.message, true);
+    return true;
+  }
+}
+
+/**
+ * Gives up leadership when the window closes so another window can take over right away
+ */
+export function releaseLeadership(): void {
+  try {
+    if (readLock()?.windowId === windowId) {
+      fs.rmSync(getLeaderLockPath(), { force: true });
+      log('[Window] Released leadership');
+    }
+  } catch (error: any) {
+    log('[Window] Error releasing leadership: ' + error.message, true);
+  }
+}
+
+/**
+ * Writes freshly fetched stats for the other windows to render
+ */
+export function publishStats(shared: Omit<SharedStats, 'windowId'>): void {
+  try {
+    const sharedStatsPath = getSharedStatsPath();
+    const temporaryPath = `${sharedStatsPath}.${windowId}.tmp`;
+    fs.mkdirSync(path.dirname(sharedStatsPath), { recursive: true });
+    // Write and rename so readers never see a half-written file
+    fs.writeFileSync(temporaryPath, JSON.stringify({ ...shared, windowId }));
+    fs.renameSync(temporaryPath, sharedStatsPath);
+  } catch (error: any) {
+    log('[Window] Error sharing stats with other windows: ' + error.message, true);
+  }
+}
+
+export function readSharedStats(): SharedStats | null {
+  try {
+    const sharedStatsPath = getSharedStatsPath();
+    return fs.existsSync(sharedStatsPath) ? JSON.parse(fs.readFileSync(sharedStatsPath, 'utf8')) : null;
+  } catch (error: any) {
+    log('[Window] Error reading shared stats: ' + error.message, true);
+    return null;
+  }
+}
+
+/**
+ * Calls the listener whenever another window publishes new stats
+ */
+export function watchSharedStats(listener: (shared: SharedStats) => void): vscode.Disposable {
+  const sharedStatsPath = getSharedStatsPath();
+  const onChange = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+    const shared = readSharedStats();
+    if (shared && shared.windowId !== windowId) {
+      log(`[Window] Received stats from window ${shared.windowId}`);
+      listener(shared);
+    }
+  };
+
+  fs.watchFile(sharedStatsPath, { interval: SHARED_STATS_POLL_MS }, onChange);
+  return new vscode.Disposable(() => fs.unwatchFile(sharedStatsPath, onChange));
+}
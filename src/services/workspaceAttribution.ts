@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { CursorStats, WorkspaceRequestCount, WorkspaceTally } from '../interfaces/types';
+import { getLatestSnapshot } from './history';
+import { getRequestTimeline } from './requestLog';
+import { log } from '../utils/logger';
+
+// Key of the requests made while no folder was open
+export const NO_WORKSPACE = '';
+
+/**
+ * The folder open in this window, or the workspace file of a multi-root window,
+ * matching how Cursor records the workspace of a composer
+ */
+export function getActiveWorkspace(): string {
+  const workspaceFile = vscode.workspace.workspaceFile;
+  if (workspaceFile?.scheme === 'file') {
+    return workspaceFile.fsPath;
+  }
+  return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? NO_WORKSPACE;
+}
+
+/**
+ * Splits the requests Cursor counted between two refreshes across the workspaces in
+ * proportion to the requests the local composer data shows for each. Requests of an
+ * unknown workspace, or all of them when nothing was logged locally, go to the active one.
+ */
+export function distributeRequests(
+  count: number,
+  localRequests: WorkspaceRequestCount[],
+  activeWorkspace: string,
+): WorkspaceTally {
+  const weights = new Map<string, number>();
+  for (const { workspace, count: localCount } of localRequests) {
+    const key = workspace ?? activeWorkspace;
+    weights.set(key, (weights.get(key) || 0) + localCount);
+  }
+
+  const totalWeight = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) {
+    return count > 0 ? { [activeWorkspace]: count } : {};
+  }
+
+  // Largest remainder rounding keeps whole requests that add up to the count
+  const shares = Array.from(weights.entries()).map(([workspace, weight]) => {
+    const exact = (count * weight) / totalWeight;
+    return { workspace, requests: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let unassigned = count - shares.reduce((sum, share) => sum + share.requests, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (unassigned <= 0) {
+      break;
+    }
+    share.requests++;
+    unassigned--;
+  }
+
+  const tally: WorkspaceTally = {};
+  for (const share of shares) {
+    if (share.requests > 0) {
+      tally[share.workspace] = share.requests;
+    }
+  }
+  return tally;
+}
+
+/**
+ * Adds the premium requests used since the last recorded snapshot to the running
+ * per-workspace tally of the billing period
+ */
+export async function attributeWorkspaceRequests(stats: CursorStats): Promise<WorkspaceTally> {
+  const previous = getLatestSnapshot();
+  // Every billing period starts from zero
+  if (!previous || previous.period.startOfMonth !== stats.premiumRequests.startOfMonth) {
+    return {};
+  }
+
+  const tally: WorkspaceTally = { ...previous.workspaceRequests };
+  const newRequests = stats.premiumRequests.current - previous.premiumRequests.current;
+  if (newRequests <= 0) {
+    return tally;
+  }
+
+  const timeline = await getRequestTimeline(previous.timestamp);
+  const shares = distributeRequests(newRequests, timeline.workspaces, getActiveWorkspace());
+  for (const [workspace, requests] of Object.entries(shares)) {
+    tally[workspace] = (tally[workspace] || 0) + requests;
+  }
+  log(`[History] Attributed ${newRequests} requests to workspaces: ${JSON.stringify(shares)}`);
+  return tally;
+}
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { watchActivity } from '../services/activityWatcher';
+import { getComposerTimings, getLatestComposerTimestamp } from '../services/database';
+import { TestEnvironment, setUpTestEnvironment, wait, writeComposerData } from './helpers';
+
+suite('Activity watcher', () => {
+  let env: TestEnvironment;
+  let originalDatabase: Buffer;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+    originalDatabase = fs.readFileSync(env.databasePath);
+    await vscode.workspace.getConfiguration('cursorStats').update('refreshOnActivity', true, vscode.ConfigurationTarget.Global);
+  });
+
+  suiteTeardown(async () => {
+    await vscode.workspace.getConfiguration('cursorStats').update('refreshOnActivity', undefined, vscode.ConfigurationTarget.Global);
+    await env.restore();
+  });
+
+  teardown(() => {
+    fs.writeFileSync(env.databasePath, originalDatabase);
+  });
+
+  test('reads the start time of every composer request, oldest first', async () => {
+    assert.deepStrictEqual(await getComposerTimings(), []);
+    assert.strictEqual(await getLatestComposerTimestamp(), undefined);
+
+    await writeComposerData(env.databasePath, 'composer-b', [3000, 1000]);
+    await writeComposerData(env.databasePath, 'composer-a', [2000]);
+
+    const timings = await getComposerTimings();
+    assert.deepStrictEqual(
+      timings.map((timing) => [timing.key, timing.timestamp]),
+      [
+        ['composerData:composer-b', 1000],
+        ['composerData:composer-a', 2000],
+        ['composerData:composer-b', 3000],
+      ],
+    );
+    assert.strictEqual(await getLatestComposerTimestamp(), 3000);
+  });
+
+  test('reads the latest request again only after the database changed', async () => {
+    await writeComposerData(env.databasePath, 'composer-a', [2000]);
+    const modified = new Date(2025, 0, 1);
+    fs.utimesSync(env.databasePath, modified, modified);
+    assert.strictEqual(await getLatestComposerTimestamp(), 2000);
+
+    // Same modification time and size, so the database is not read again
+    fs.writeFileSync(env.databasePath, Buffer.alloc(fs.statSync(env.databasePath).size));
+    fs.utimesSync(env.databasePath, modified, modified);
+    assert.strictEqual(await getLatestComposerTimestamp(), 2000);
+
+    fs.writeFileSync(env.databasePath, originalDatabase);
+    await writeComposerData(env.databasePath, 'composer-a', [2000, 4000]);
+    assert.strictEqual(await getLatestComposerTimestamp(), 4000);
+  });
+
+  test('calls the listener once the database settles after a new AI request', async () => {
+    await writeComposerData(env.databasePath, 'composer-a', [1000]);
+    let calls = 0;
+    const watcher = watchActivity(() => calls++, 100);
+    try {
+      // Let the watcher read the requests that already exist
+      await wait(500);
+      await writeComposerData(env.databasePath, 'composer-a', [1000, 2000]);
+      await wait(3000);
+      assert.strictEqual(calls, 1);
+
+      // Writes that add no request are ignored
+      await writeComposerData(env.databasePath, 'composer-a', [1000, 2000]);
+      await wait(3000);
+      assert.strictEqual(calls, 1);
+    } finally {
+      watcher.dispose();
+    }
+  });
+});
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { fetchCursorStats, checkUsageBasedStatus } from '../services/api';
+import { getCursorTokenFromDB } from '../services/database';
+import { getCursorApiClient, CursorApiValidationError, isAllowedApiBaseUrl } from '../services/client';
+import { loadFixture } from './mockServer';
+import { TestEnvironment, setUpTestEnvironment, clearUserCache, TEST_USER_ID } from './helpers';
+
+suite('Cursor API', () => {
+  let env: TestEnvironment;
+  let token: string;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+    token = (await getCursorTokenFromDB())!;
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  setup(async () => {
+    env.server.reset();
+    getCursorApiClient().clearCache();
+    await clearUserCache();
+  });
+
+  test('reads the session token from the database', () => {
+    assert.ok(token.startsWith(`${TEST_USER_ID}%3A%3A`));
+  });
+
+  test('fetches premium requests and invoice items for individual accounts', async () => {
+    const stats = await fetchCursorStats(token);
+
+    assert.strictEqual(stats.premiumRequests.current, 420);
+    assert.strictEqual(stats.premiumRequests.limit, 500);
+    assert.strictEqual(stats.isTeamSpendData, false);
+
+    const { items, midMonthPayment } = stats.currentMonth.usageBasedPricing;
+    assert.strictEqual(midMonthPayment, 5);
+
+    const sonnet = items.find((item) => item.modelNameForTooltip === 'claude-4-sonnet-thinking');
+    assert.ok(sonnet);
+    assert.strictEqual(sonnet.totalDollars, '$6.08');
+    assert.strictEqual(sonnet.requestCount, 152);
+
+    const discounted = items.find((item) => item.modelNameForTooltip === 'claude-3.7-sonnet');
+    assert.ok(discounted?.isDiscounted);
+
+    assert.ok(items.some((item) => item.modelNameForTooltip === 'tool calls'));
+    assert.ok(items.some((item) => item.modelNameForTooltip === 'Haiku'));
+
+    assert.strictEqual(env.server.requests.find((request) => request.path === '/api/usage')?.query.user, TEST_USER_ID);
+  });
+
+  test('requests each endpoint at most once per refresh cycle', async () => {
+    const stats = await fetchCursorStats(token);
+    await checkUsageBasedStatus(token, stats.teamId);
+    await checkUsageBasedStatus(token, stats.teamId);
+
+    assert.strictEqual(env.server.countRequests('/api/usage'), 1);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-hard-limit'), 1);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-usage-based-premium-requests'), 1);
+
+    const cacheStats = getCursorApiClient().getCacheStats();
+    assert.ok(cacheStats.hits + cacheStats.coalesced > 0);
+  });
+
+  test('uses team spend data for team members', async () => {
+    env.server.respondWith('/api/dashboard/teams', { status: 200, body: loadFixture('teams.json') });
+
+    const stats = await fetchCursorStats(token);
+
+    assert.strictEqual(stats.isTeamSpendData, true);
+    assert.strictEqual(stats.teamId, 4242);
+    assert.strictEqual(stats.teamSpendCents, 1275);
+    assert.strictEqual(stats.hardLimitOverrideDollars, 40);
+    assert.strictEqual(stats.premiumRequests.current, 420);
+  });
+
+  test('uses the team selected in the settings when the user belongs to several teams', async () => {
+    const [team] = loadFixture('teams.json').teams;
+    env.server.respondWith('/api/dashboard/teams', {
+      status: 200,
+      body: { teams: [team, { ...team, id: 5151, name: 'Acme Research' }] },
+    });
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('activeTeamId', 5151, vscode.ConfigurationTarget.Global);
+    try {
+      const stats = await fetchCursorStats(token);
+
+      assert.strictEqual(stats.teamId, 5151);
+      assert.strictEqual(stats.teamName, 'Acme Research');
+      assert.deepStrictEqual(
+        env.server.requests.filter((request) => request.path === '/api/dashboard/team').map((request) => request.body),
+        [{ teamId: 5151 }],
+      );
+
+      // Switching back only fetches the details of the newly used team
+      await config.update('activeTeamId', undefined, vscode.ConfigurationTarget.Global);
+      getCursorApiClient().clearCache();
+      const firstTeamStats = await fetchCursorStats(token);
+
+      assert.strictEqual(firstTeamStats.teamId, 4242);
+      assert.strictEqual(env.server.countRequests('/api/dashboard/teams'), 1);
+      assert.strictEqual(env.server.countRequests('/api/dashboard/team'), 2);
+    } finally {
+      await config.update('activeTeamId', undefined, vscode.ConfigurationTarget.Global);
+    }
+  });
+
+  test('falls back to individual usage when team spend is forbidden', async () => {
+    env.server.respondWith('/api/dashboard/teams', { status: 200, body: loadFixture('teams.json') });
+    env.server.respondWith('/api/dashboard/get-team-spend', { status: 403, body: { error: 'Forbidden' } });
+
+    const stats = await fetchCursorStats(token);
+
+    assert.strictEqual(stats.isTeamSpendData, false);
+    assert.strictEqual(stats.teamSpendCents, undefined);
+    assert.strictEqual(stats.premiumRequests.current, 420);
+  });
+
+  test('uses empty invoice data when the invoice endpoint fails', async () => {
+    env.server.respondWith('/api/dashboard/get-monthly-invoice', { status: 500, body: { error: 'Internal error' } });
+
+    const stats = await fetchCursorStats(token);
+
+    assert.deepStrictEqual(stats.currentMonth.usageBasedPricing.items, []);
+    assert.strictEqual(stats.currentMonth.usageBasedPricing.midMonthPayment, 0);
+  });
+
+  test('rejects with the response status when the session has expired', async () => {
+    env.server.respondWith('/api/usage', { status: 401, body: { error: 'Not authenticated' } });
+
+    await assert.rejects(fetchCursorStats(token), (error: any) => error.response?.status === 401);
+  });
+
+  test('exposes Retry-After when rate limited', async () => {
+    env.server.respondWith('/api/usage', { status: 429, body: {}, headers: { 'Retry-After': '30' } });
+
+    await assert.rejects(
+      getCursorApiClient().getUsage(token),
+      (error: any) => error.response?.status === 429 && error.response.headers['retry-after'] === '30',
+    );
+  });
+
+  test('does not cache failed requests', async () => {
+    env.server.respondWith('/api/usage', { status: 500, body: {} });
+    await assert.rejects(getCursorApiClient().getUsage(token));
+
+    env.server.reset();
+    const usage = await getCursorApiClient().getUsage(token);
+    assert.strictEqual(usage['gpt-4'].numRequests, 420);
+  });
+
+  test('rejects responses that do not match the expected format', async () => {
+    env.server.respondWith('/api/usage', { status: 200, body: { unexpected: true } });
+
+    await assert.rejects(getCursorApiClient().getUsage(token), CursorApiValidationError);
+  });
+
+  test('skips malformed invoice items instead of rejecting the invoice', async () => {
+    const invoice = loadFixture('monthly-invoice.json');
+    invoice.items.push({ cents: 100 }, null);
+    env.server.respondWith('/api/dashboard/get-monthly-invoice', { status: 200, body: invoice });
+
+    const { items } = await getCursorApiClient().getMonthlyInvoice(token, 1, 2024);
+    assert.deepStrictEqual(items, loadFixture('monthly-invoice.json').items);
+  });
+
+  test('reports usage-based pricing as disabled when the status check fails', async () => {
+    env.server.respondWith('/api/dashboard/get-usage-based-premium-requests', { status: 500, body: {} });
+
+    const status = await checkUsageBasedStatus(token);
+
+    assert.deepStrictEqual(status, { isEnabled: false });
+  });
+
+  test('sends the new limit and clears cached responses when setting the hard limit', async () => {
+    await getCursorApiClient().getHardLimit(token);
+    await getCursorApiClient().setHardLimit(token, 75, false);
+    await getCursorApiClient().getHardLimit(token);
+
+    const setRequest = env.server.requests.find((request) => request.path === '/api/dashboard/set-hard-limit');
+    assert.deepStrictEqual(setRequest?.body, { hardLimit: 75, noUsageBasedAllowed: false });
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-hard-limit'), 2);
+  });
+
+  test('only sends the session token over https or to localhost', () => {
+    assert.ok(isAllowedApiBaseUrl('https://cursor.com'));
+    assert.ok(isAllowedApiBaseUrl(env.server.url));
+    assert.ok(isAllowedApiBaseUrl('http://localhost:3000'));
+    assert.ok(isAllowedApiBaseUrl('http://[::1]:3000'));
+    assert.ok(!isAllowedApiBaseUrl('http://example.com'));
+    assert.ok(!isAllowedApiBaseUrl('http://localhost.example.com'));
+    assert.ok(!isAllowedApiBaseUrl('ftp://localhost'));
+    assert.ok(!isAllowedApiBaseUrl('cursor.com'));
+  });
+});
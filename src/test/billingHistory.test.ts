@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { getCursorTokenFromDB } from '../services/database';
+import { getCursorApiClient } from '../services/client';
+import { clearInvoiceCache, getInvoiceCacheFilePath, getMonthlyUsage, isClosedMonth } from '../services/invoiceCache';
+import { summarizeMonth } from '../handlers/billingHistory';
+import { InvoiceCacheFile } from '../interfaces/types';
+import { loadFixture } from './mockServer';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+suite('Billing history', () => {
+  let env: TestEnvironment;
+  let token: string;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+    token = (await getCursorTokenFromDB())!;
+  });
+
+  suiteTeardown(async () => {
+    clearInvoiceCache();
+    await env.restore();
+  });
+
+  setup(() => {
+    env.server.reset();
+    getCursorApiClient().clearCache();
+    clearInvoiceCache();
+  });
+
+  test('treats a month as closed once the month after it is over', () => {
+    const now = new Date(2025, 5, 15).getTime();
+    assert.strictEqual(isClosedMonth(6, 2025, now), false);
+    // The period starting in May can run into June
+    assert.strictEqual(isClosedMonth(5, 2025, now), false);
+    assert.strictEqual(isClosedMonth(4, 2025, now), true);
+    assert.strictEqual(isClosedMonth(12, 2024, now), true);
+  });
+
+  test('fetches a closed month once and reads it from the cache afterwards', async () => {
+    const first = await getMonthlyUsage(token, 1, 2024);
+    assert.strictEqual(first.cachedAt, undefined);
+    assert.ok(fs.existsSync(getInvoiceCacheFilePath()));
+
+    getCursorApiClient().clearCache();
+    const second = await getMonthlyUsage(token, 1, 2024);
+    assert.ok(second.cachedAt);
+    assert.deepStrictEqual(second.usageBasedPricing, first.usageBasedPricing);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-monthly-invoice'), 1);
+
+    // Refreshing bypasses the cache
+    getCursorApiClient().clearCache();
+    await getMonthlyUsage(token, 1, 2024, true);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-monthly-invoice'), 2);
+  });
+
+  test('fetches usage events every time without writing them to the cache', async () => {
+    env.server.respondWith('/api/dashboard/get-monthly-invoice', {
+      status: 200,
+      body: { ...loadFixture('monthly-invoice.json'), usageEvents: [{ timestamp: '1704100000000', model: 'gpt-4.1' }] },
+    });
+
+    const detailed = await getMonthlyUsage(token, 1, 2024, false, true);
+    assert.strictEqual(detailed.usageBasedPricing.usageEvents?.length, 1);
+    assert.ok(!fs.readFileSync(getInvoiceCacheFilePath(), 'utf8').includes('usageEvents'));
+
+    getCursorApiClient().clearCache();
+    assert.strictEqual((await getMonthlyUsage(token, 1, 2024)).usageBasedPricing.usageEvents, undefined);
+    getCursorApiClient().clearCache();
+    await getMonthlyUsage(token, 1, 2024, false, true);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-monthly-invoice'), 2);
+  });
+
+  test('classifies cached months with the current model patterns', async () => {
+    await getMonthlyUsage(token, 1, 2024);
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('modelPatterns', [{ pattern: 'claude-4-sonnet', displayName: 'Sonnet 4' }], vscode.ConfigurationTarget.Global);
+    try {
+      getCursorApiClient().clearCache();
+      env.server.reset();
+
+      const usage = await getMonthlyUsage(token, 1, 2024);
+      assert.ok(usage.cachedAt);
+      assert.strictEqual(env.server.countRequests('/api/dashboard/get-monthly-invoice'), 0);
+      assert.ok(usage.usageBasedPricing.items.some((item) => item.modelNameForTooltip === 'Sonnet 4'));
+    } finally {
+      await config.update('modelPatterns', undefined, vscode.ConfigurationTarget.Global);
+    }
+  });
+
+  test('keeps the months cached by another window and does not bring back cleared ones', async () => {
+    await getMonthlyUsage(token, 1, 2024);
+
+    // Another window clears the cache and then caches a month of its own
+    const cachePath = getInvoiceCacheFilePath();
+    const data: InvoiceCacheFile = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+    fs.writeFileSync(cachePath, JSON.stringify({ ...data, months: { '2024-03': data.months['2024-01'] } }));
+
+    getCursorApiClient().clearCache();
+    await getMonthlyUsage(token, 2, 2024);
+    const { months }: InvoiceCacheFile = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+    assert.deepStrictEqual(Object.keys(months).sort(), ['2024-02', '2024-03']);
+  });
+
+  test('always fetches months that can still change', async () => {
+    const now = new Date();
+    await getMonthlyUsage(token, now.getMonth() + 1, now.getFullYear());
+    getCursorApiClient().clearCache();
+    const usage = await getMonthlyUsage(token, now.getMonth() + 1, now.getFullYear());
+    assert.strictEqual(usage.cachedAt, undefined);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-monthly-invoice'), 2);
+  });
+
+  test('sums the cost per model and lists the mid-month payments', async () => {
+    const { usageBasedPricing } = await getMonthlyUsage(token, 1, 2024);
+    const summary = summarizeMonth(usageBasedPricing);
+
+    assert.strictEqual(summary.totalDollars, 8.56);
+    assert.strictEqual(summary.midMonthPaidDollars, 5);
+    assert.deepStrictEqual(summary.models[0], { model: 'claude-4-sonnet-thinking', requests: 152, totalDollars: 6.08 });
+    assert.deepStrictEqual(summary.payments, [{ description: 'Mid-month usage paid for May', amountDollars: 5 }]);
+  });
+});
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import {
+  COOLDOWN_DURATION_MS,
+  clearAllIntervals,
+  formatCountdown,
+  getRefreshInterval,
+  setCooldownStartTime,
+  setIsWindowFocused,
+  startCountdownDisplay,
+  startRefreshInterval,
+} from '../utils/cooldown';
+import {
+  MAX_BACKOFF_MS,
+  RefreshState,
+  computeRefreshDelay,
+  isNearLimit,
+  isRetryableError,
+  parseRetryAfter,
+} from '../utils/refreshScheduler';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+const IDLE_STATE: RefreshState = {
+  consecutiveErrors: 0,
+  lastErrorRetryable: false,
+  retryAfterMs: null,
+  unchangedRefreshes: 0,
+  nearLimit: false,
+};
+
+suite('Cooldown', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  teardown(() => {
+    setCooldownStartTime(null);
+    clearAllIntervals();
+  });
+
+  test('formats the remaining cooldown as minutes and seconds', () => {
+    assert.strictEqual(formatCountdown(COOLDOWN_DURATION_MS), '10:00');
+    assert.strictEqual(formatCountdown(65 * 1000), '1:05');
+    assert.strictEqual(formatCountdown(0), '0:00');
+  });
+
+  test('shows the countdown in the status bar during cooldown', () => {
+    setCooldownStartTime(Date.now());
+    startCountdownDisplay();
+
+    assert.match(env.statusBarItem.text, /\d+:\d{2}/);
+  });
+
+  test('does not start the refresh interval during cooldown', () => {
+    setCooldownStartTime(Date.now());
+    startRefreshInterval();
+
+    assert.strictEqual(getRefreshInterval(), null);
+  });
+
+  test('starts the refresh interval once the cooldown is over', () => {
+    setCooldownStartTime(null);
+    setIsWindowFocused(true);
+    startRefreshInterval();
+
+    assert.notStrictEqual(getRefreshInterval(), null);
+  });
+
+  test('backs off exponentially with jitter up to the maximum', () => {
+    const failing = { ...IDLE_STATE, lastErrorRetryable: true };
+
+    assert.deepStrictEqual(computeRefreshDelay({ ...failing, consecutiveErrors: 1 }, 60000, () => 0), {
+      delayMs: 60000,
+      reason: 'backoff',
+    });
+    assert.strictEqual(computeRefreshDelay({ ...failing, consecutiveErrors: 2 }, 60000, () => 1).delayMs, 240000);
+    assert.strictEqual(computeRefreshDelay({ ...failing, consecutiveErrors: 20 }, 60000, () => 1).delayMs, MAX_BACKOFF_MS);
+
+    // Errors that waiting won't fix keep the regular interval
+    assert.deepStrictEqual(computeRefreshDelay({ ...IDLE_STATE, consecutiveErrors: 3 }, 60000), {
+      delayMs: 60000,
+      reason: 'normal',
+    });
+  });
+
+  test('waits as long as Retry-After asks', () => {
+    const now = Date.UTC(2025, 5, 1, 12, 0, 0);
+    assert.strictEqual(parseRetryAfter('120', now), 120000);
+    assert.strictEqual(parseRetryAfter('Sun, 01 Jun 2025 12:00:30 GMT', now), 30000);
+    assert.strictEqual(parseRetryAfter('soon', now), null);
+    assert.strictEqual(parseRetryAfter(undefined, now), null);
+
+    const rateLimited = { ...IDLE_STATE, consecutiveErrors: 1, lastErrorRetryable: true, retryAfterMs: 120000 };
+    assert.deepStrictEqual(computeRefreshDelay(rateLimited, 60000), { delayMs: 120000, reason: 'retryAfter' });
+  });
+
+  test('only backs off on rate limits, server and network errors', () => {
+    assert.ok(isRetryableError({ response: { status: 429 } }));
+    assert.ok(isRetryableError({ response: { status: 503 } }));
+    assert.ok(isRetryableError({ isAxiosError: true }));
+    assert.ok(!isRetryableError({ response: { status: 401 } }));
+    assert.ok(!isRetryableError(new TypeError('not an API error')));
+  });
+
+  test('refreshes more often near a limit and less often while usage is unchanged', () => {
+    assert.deepStrictEqual(computeRefreshDelay({ ...IDLE_STATE, nearLimit: true }, 60000), {
+      delayMs: 30000,
+      reason: 'nearLimit',
+    });
+    assert.deepStrictEqual(computeRefreshDelay({ ...IDLE_STATE, unchangedRefreshes: 4 }, 60000), {
+      delayMs: 60000,
+      reason: 'normal',
+    });
+    assert.deepStrictEqual(computeRefreshDelay({ ...IDLE_STATE, unchangedRefreshes: 10 }, 60000), {
+      delayMs: 240000,
+      reason: 'idle',
+    });
+    assert.strictEqual(computeRefreshDelay({ ...IDLE_STATE, unchangedRefreshes: 100 }, 60000).delayMs, 480000);
+
+    assert.ok(isNearLimit([95, 0]));
+    assert.ok(!isNearLimit([100, 50]));
+  });
+});
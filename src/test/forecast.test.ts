@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { countDays, getPreferredProjection, projectUsage } from '../utils/forecast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+suite('Forecast', () => {
+  // 1 June 2025 is a Sunday
+  const period = {
+    start: new Date(2025, 5, 1).toISOString(),
+    end: new Date(2025, 6, 1).toISOString(),
+  };
+  const now = new Date(2025, 5, 11).getTime();
+
+  test('counts weekdays only when weekends are excluded', () => {
+    const friday = new Date(2025, 5, 6).getTime();
+    const monday = new Date(2025, 5, 9).getTime();
+
+    assert.strictEqual(countDays(friday, monday, false), 3);
+    assert.strictEqual(countDays(friday, monday, true), 1);
+    assert.strictEqual(countDays(monday, friday, true), 0);
+  });
+
+  test('projects the average rate since the start of the period', () => {
+    const projection = projectUsage(100, 500, period, [], false, now);
+
+    assert.strictEqual(projection.linear.ratePerDay, 10);
+    assert.strictEqual(projection.linear.projectedTotal, 300);
+    assert.strictEqual(projection.linear.exhaustionDate, undefined);
+    assert.strictEqual(projection.recentRate, null);
+  });
+
+  test('estimates when the limit is reached within the period', () => {
+    const projection = projectUsage(100, 250, period, [], false, now);
+
+    assert.strictEqual(projection.linear.exhaustionDate, new Date(2025, 5, 26).toISOString());
+  });
+
+  test('uses the recent history for the recent-rate model', () => {
+    const history = [
+      { timestamp: now - 9 * DAY_MS, value: 10 },
+      { timestamp: now - 2 * DAY_MS, value: 60 },
+    ];
+
+    const projection = projectUsage(100, 250, period, history, false, now);
+
+    // The window starts at the oldest snapshot from the last 7 days
+    assert.ok(projection.recentRate);
+    assert.strictEqual(projection.recentRate.ratePerDay, 20);
+    assert.strictEqual(projection.recentRate.projectedTotal, 500);
+    assert.strictEqual(projection.recentRate.exhaustionDate, new Date(now + 7.5 * DAY_MS).toISOString());
+    assert.strictEqual(getPreferredProjection(projection), projection.recentRate);
+  });
+
+  test('leaves weekends out of the rate and the remaining days', () => {
+    // 7 weekdays from 1 to 10 June, 14 weekdays left until 1 July
+    const projection = projectUsage(70, undefined, period, [], true, now);
+
+    assert.strictEqual(projection.linear.ratePerDay, 10);
+    assert.strictEqual(projection.linear.projectedTotal, 70 + 10 * 14);
+  });
+
+  test('reports an exhausted limit as reached now', () => {
+    const projection = projectUsage(500, 500, period, [], false, now);
+
+    assert.strictEqual(projection.linear.exhaustionDate, new Date(now).toISOString());
+  });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { checkSpendingCap, getUsageLimitChange } from '../handlers/guardrail';
+import { getCursorTokenFromDB } from '../services/database';
+import { clearNotificationState } from '../services/notificationState';
+import { t } from '../utils/i18n';
+import { TestEnvironment, setUpTestEnvironment, wait } from './helpers';
+
+const PERIOD_START = new Date(2025, 5, 1).toISOString();
+
+suite('Spending cap guardrail', () => {
+  let env: TestEnvironment;
+  let token: string;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+    token = (await getCursorTokenFromDB())!;
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('spendingCap', 10, vscode.ConfigurationTarget.Global);
+    await config.update('spendingCapCountdownSeconds', 0, vscode.ConfigurationTarget.Global);
+  });
+
+  suiteTeardown(async () => {
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('spendingCap', undefined, vscode.ConfigurationTarget.Global);
+    await config.update('spendingCapCountdownSeconds', undefined, vscode.ConfigurationTarget.Global);
+    await clearNotificationState();
+    await env.restore();
+  });
+
+  setup(async () => {
+    await clearNotificationState();
+    env.server.reset();
+    env.messages.length = 0;
+  });
+
+  test('decides how to stop spend at the cap', () => {
+    const settings = { cap: 10, action: 'disable' as const, countdownSeconds: 30 };
+    assert.strictEqual(getUsageLimitChange(9.99, settings, 50), undefined);
+    assert.deepStrictEqual(getUsageLimitChange(10, settings, 50), { hardLimit: 0, noUsageBasedAllowed: true });
+
+    const lowerLimit = { ...settings, action: 'lowerLimit' as const };
+    assert.deepStrictEqual(getUsageLimitChange(10.2, lowerLimit, 50), { hardLimit: 11, noUsageBasedAllowed: false });
+    // The limit already stops spend close to the cap
+    assert.strictEqual(getUsageLimitChange(10.2, lowerLimit, 11), undefined);
+    assert.strictEqual(getUsageLimitChange(100, { ...settings, cap: 0 }, 50), undefined);
+  });
+
+  test('disables usage-based pricing once the countdown is over, once per period', async () => {
+    await checkSpendingCap(token, 12.5, PERIOD_START, 50);
+
+    const setLimit = env.server.requests.filter((request) => request.path === '/api/dashboard/set-hard-limit');
+    assert.deepStrictEqual(
+      setLimit.map((request) => request.body),
+      [{ hardLimit: 0, noUsageBasedAllowed: true }],
+    );
+    assert.ok(env.messages.some((message) => message.level === 'warning'));
+
+    // Let the refresh started after the change finish
+    await wait(500);
+    env.server.reset();
+    await checkSpendingCap(token, 13, PERIOD_START, 50);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/set-hard-limit'), 0);
+  });
+
+  test('changes nothing when allowed this time', async () => {
+    env.answerMessages(({ level }) => (level === 'warning' ? t('guardrail.allowThisTime') : undefined));
+    try {
+      await checkSpendingCap(token, 12.5, PERIOD_START, 50);
+    } finally {
+      env.answerMessages();
+    }
+    assert.strictEqual(env.server.countRequests('/api/dashboard/set-hard-limit'), 0);
+
+    // Until the cap is raised
+    await vscode.workspace.getConfiguration('cursorStats').update('spendingCap', 20, vscode.ConfigurationTarget.Global);
+    try {
+      await checkSpendingCap(token, 25, PERIOD_START, 50);
+      assert.strictEqual(env.server.countRequests('/api/dashboard/set-hard-limit'), 1);
+    } finally {
+      await vscode.workspace.getConfiguration('cursorStats').update('spendingCap', 10, vscode.ConfigurationTarget.Global);
+      await wait(500);
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as jwt from 'jsonwebtoken';
+import initSqlJs from 'sql.js';
+import { MockCursorServer } from './mockServer';
+import { getExtensionContext } from '../extension';
+import { clearAllIntervals, getStatusBarItem } from '../utils/cooldown';
+import { getUserCachePath } from '../services/team';
+import { getCursorApiClient } from '../services/client';
+
+export const EXTENSION_ID = 'Dwtexe.cursor-stats';
+export const TEST_USER_ID = 'user_01TESTUSER';
+
+export interface ShownMessage {
+  level: 'information' | 'warning' | 'error';
+  message: string;
+}
+
+/**
+ * Picks the button a shown message resolves with, undefined for closing it
+ */
+export type MessageAnswer = (shown: ShownMessage, items: string[]) => string | undefined;
+
+export interface TestEnvironment {
+  server: MockCursorServer;
+  statusBarItem: vscode.StatusBarItem;
+  messages: ShownMessage[];
+  databasePath: string;
+  // Answers the messages shown from now on, until called without an answer
+  answerMessages: (answer?: MessageAnswer) => void;
+  restore: () => Promise<void>;
+}
+
+type MessageFunctions = Pick<typeof vscode.window, 'showInformationMessage' | 'showWarningMessage' | 'showErrorMessage'>;
+type WritableMessageFunctions = { -readonly [K in keyof MessageFunctions]: MessageFunctions[K] };
+
+const TEST_SETTINGS = ['apiBaseUrl', 'customDatabasePath', 'currency'];
+
+/**
+ * Writes a minimal state.vscdb containing a signed-in session token
+ */
+async function createTokenDatabase(directory: string): Promise<string> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)');
+  const accessToken = jwt.sign({ sub: `auth0|${TEST_USER_ID}` }, 'cursor-stats-test-secret');
+  db.run('INSERT INTO ItemTable (key, value) VALUES (?, ?)', ['cursorAuth/accessToken', accessToken]);
+
+  const databasePath = path.join(directory, 'state.vscdb');
+  fs.writeFileSync(databasePath, Buffer.from(db.export()));
+  db.close();
+  return databasePath;
+}
+
+/**
+ * Adds a composer conversation to state.vscdb with one AI request per start time
+ */
+export async function writeComposerData(databasePath: string, composerId: string, clientStartTimes: number[]): Promise<void> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(new Uint8Array(fs.readFileSync(databasePath)));
+  db.run('CREATE TABLE IF NOT EXISTS cursorDiskKV (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)');
+  const composer = {
+    composerId,
+    conversation: clientStartTimes.map((clientStartTime) => ({ type: 1, timingInfo: { clientStartTime } })),
+  };
+  db.run('INSERT INTO cursorDiskKV (key, value) VALUES (?, ?)', [`composerData:${composerId}`, JSON.stringify(composer)]);
+  fs.writeFileSync(databasePath, Buffer.from(db.export()));
+  db.close();
+}
+
+/**
+ * Replaces the window message functions so notifications resolve immediately
+ * instead of waiting for a click that never comes
+ */
+function captureMessages(messages: ShownMessage[], getAnswer: () => MessageAnswer | undefined): () => void {
+  const window: WritableMessageFunctions = vscode.window;
+  const originals: MessageFunctions = {
+    showInformationMessage: window.showInformationMessage,
+    showWarningMessage: window.showWarningMessage,
+    showErrorMessage: window.showErrorMessage,
+  };
+  const capture =
+    (level: ShownMessage['level']) =>
+    async (message: string, ...rest: unknown[]): Promise<string | undefined> => {
+      const shown = { level, message };
+      messages.push(shown);
+      const items = rest.filter((item): item is string => typeof item === 'string');
+      return getAnswer()?.(shown, items);
+    };
+  window.showInformationMessage = capture('information');
+  window.showWarningMessage = capture('warning');
+  window.showErrorMessage = capture('error');
+
+  return () => Object.assign(window, originals);
+}
+
+export async function clearUserCache(): Promise<void> {
+  const cachePath = await getUserCachePath(getExtensionContext());
+  if (fs.existsSync(cachePath)) {
+    fs.unlinkSync(cachePath);
+  }
+}
+
+export function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Starts the mock API server, points the extension at it with a fake signed-in
+ * user and activates the extension
+ */
+export async function setUpTestEnvironment(): Promise<TestEnvironment> {
+  const server = new MockCursorServer();
+  await server.start();
+
+  const messages: ShownMessage[] = [];
+  let messageAnswer: MessageAnswer | undefined;
+  const restoreMessages = captureMessages(messages, () => messageAnswer);
+
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-stats-test-'));
+  const databasePath = await createTokenDatabase(directory);
+
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  await config.update('apiBaseUrl', server.url, vscode.ConfigurationTarget.Global);
+  await config.update('customDatabasePath', databasePath, vscode.ConfigurationTarget.Global);
+  await config.update('currency', 'USD', vscode.ConfigurationTarget.Global);
+
+  await vscode.extensions.getExtension(EXTENSION_ID)!.activate();
+
+  // Let the refreshes triggered by activation and the settings changes finish,
+  // then stop the timers so that only the tests talk to the mock server
+  await wait(1000);
+  clearAllIntervals();
+  await clearUserCache();
+  getCursorApiClient().clearCache();
+  server.reset();
+
+  return {
+    server,
+    statusBarItem: getStatusBarItem()!,
+    messages,
+    databasePath,
+    answerMessages: (answer?: MessageAnswer) => {
+      messageAnswer = answer;
+    },
+    restore: async () => {
+      clearAllIntervals();
+      restoreMessages();
+      const settings = vscode.workspace.getConfiguration('cursorStats');
+      for (const setting of TEST_SETTINGS) {
+        await settings.update(setting, undefined, vscode.ConfigurationTarget.Global);
+      }
+      await server.stop();
+      fs.rmSync(directory, { recursive: true, force: true });
+    },
+  };
+}
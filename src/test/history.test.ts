@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { CursorStats, UsageHistoryFile, UsageSnapshot } from '../interfaces/types';
+import { fetchCursorStats } from '../services/api';
+import { getCursorTokenFromDB } from '../services/database';
+import { getHistoryFilePath, getLatestSnapshot, getSnapshots, recordSnapshot } from '../services/history';
+import { TestEnvironment, setUpTestEnvironment, wait } from './helpers';
+
+/**
+ * Appends a snapshot to the history file the way another window does
+ */
+function recordInOtherWindow(snapshot: UsageSnapshot): void {
+  const historyPath = getHistoryFilePath();
+  const data: UsageHistoryFile = JSON.parse(fs.readFileSync(historyPath, 'utf8'));
+  data.snapshots.push(snapshot);
+  fs.writeFileSync(historyPath, JSON.stringify(data));
+}
+
+suite('Usage history', () => {
+  let env: TestEnvironment;
+  let stats: CursorStats;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+    stats = await fetchCursorStats((await getCursorTokenFromDB())!);
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  test('keeps the snapshots of two windows writing in turn', async () => {
+    // Costs no other test records, so no snapshot is skipped as unchanged
+    const first = recordSnapshot(stats, 101.01)!;
+    assert.ok(first);
+
+    await wait(5);
+    const other = { ...first, timestamp: Date.now(), usageBasedCostDollars: 202.02 };
+    recordInOtherWindow(other);
+    assert.strictEqual(getLatestSnapshot()?.usageBasedCostDollars, 202.02);
+
+    await wait(5);
+    recordSnapshot(stats, 303.03);
+    await wait(5);
+    recordInOtherWindow({ ...other, timestamp: Date.now(), usageBasedCostDollars: 404.04 });
+    await wait(5);
+    recordSnapshot(stats, 505.05);
+
+    const costs = getSnapshots({ since: first.timestamp }).map((snapshot) => snapshot.usageBasedCostDollars);
+    assert.deepStrictEqual(costs, [101.01, 202.02, 303.03, 404.04, 505.05]);
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const SOURCE_ROOT = path.join(__dirname, '..', '..', 'src');
+const LOCALES_DIR = path.join(SOURCE_ROOT, 'locales');
+
+/**
+ * Reads the dotted key paths of the LanguagePack interface from its source, since
+ * the interface itself does not exist at runtime
+ */
+function getLanguagePackKeys(): string[] {
+  const source = fs.readFileSync(path.join(SOURCE_ROOT, 'interfaces', 'i18n.ts'), 'utf8');
+  const body = source.slice(source.indexOf('export interface LanguagePack {'));
+  const keys: string[] = [];
+  const sections: string[] = [];
+
+  for (const line of body.split('\n').slice(1)) {
+    const section = line.match(/^\s*(\w+): \{$/);
+    const key = line.match(/^\s*(\w+): string;$/);
+    if (section) {
+      sections.push(section[1]);
+    } else if (key) {
+      keys.push([...sections, key[1]].join('.'));
+    } else if (/^\s*\}/.test(line)) {
+      if (sections.length === 0) {
+        break;
+      }
+      sections.pop();
+    }
+  }
+  return keys;
+}
+
+function getValue(pack: any, key: string): unknown {
+  return key.split('.').reduce((value, part) => (value === undefined || value === null ? undefined : value[part]), pack);
+}
+
+suite('Language packs', () => {
+  const keys = getLanguagePackKeys();
+  const locales = fs.readdirSync(LOCALES_DIR).filter((file) => file.endsWith('.json'));
+
+  test('reads the keys of the language pack interface', () => {
+    assert.ok(keys.includes('notifications.unpaidInvoice'));
+    assert.ok(keys.includes('statusBar.months.january'));
+    assert.ok(locales.includes('en.json'));
+  });
+
+  for (const locale of locales) {
+    test(`${locale} contains every LanguagePack key`, () => {
+      const pack = JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, locale), 'utf8'));
+      const missing = keys.filter((key) => typeof getValue(pack, key) !== 'string');
+      assert.deepStrictEqual(missing, []);
+    });
+  }
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { parseInvoiceItem, registerInvoicePattern, getInvoicePatterns } from '../utils/invoiceParser';
+import { createModelResolver } from '../utils/modelPatterns';
+import { loadFixture } from './mockServer';
+
+interface InvoiceDescriptionFixture {
+  description: string;
+  cents: number;
+  expected: { count: number; model?: string; family?: string; kind: string } | null;
+}
+
+suite('Invoice parser', () => {
+  const corpus: InvoiceDescriptionFixture[] = loadFixture('invoice-descriptions.json');
+
+  for (const { description, cents, expected } of corpus) {
+    test(`parses "${description}"`, () => {
+      const parsed = parseInvoiceItem(description, cents);
+
+      if (expected === null) {
+        assert.strictEqual(parsed, null);
+        return;
+      }
+      assert.ok(parsed);
+      assert.deepStrictEqual(
+        { count: parsed.count, model: parsed.model, family: parsed.family, kind: parsed.kind },
+        { count: expected.count, model: expected.model, family: expected.family, kind: expected.kind },
+      );
+      assert.strictEqual(parsed.totalCents, cents);
+      assert.strictEqual(parsed.unitCents, expected.count > 0 ? cents / expected.count : 0);
+    });
+  }
+
+  test('uses the given model name resolver', () => {
+    const resolveModel = createModelResolver([{ pattern: 'claude-4-opus', displayName: 'Claude Opus 4', family: 'Opus' }]);
+
+    const parsed = parseInvoiceItem('9 claude-4-opus requests * 75 cents per such request', 675, resolveModel);
+    const tokenBased = parseInvoiceItem('3 token-based usage calls to claude-4-opus, totalling: $1.20', 120, resolveModel);
+
+    assert.deepStrictEqual([parsed?.model, parsed?.family], ['Claude Opus 4', 'Opus']);
+    assert.deepStrictEqual([tokenBased?.model, tokenBased?.family], ['Claude Opus 4', 'Opus']);
+  });
+
+  test('checks registered patterns before the built-in ones', () => {
+    const patternCount = getInvoicePatterns().length;
+    registerInvoicePattern({
+      name: 'background-agent',
+      kind: 'request',
+      regex: /^(\d+) background agent runs/,
+      parse: (match) => ({ count: parseInt(match[1]), model: { name: 'background-agent' } }),
+    });
+
+    const parsed = parseInvoiceItem('4 background agent runs', 200);
+
+    assert.strictEqual(getInvoicePatterns().length, patternCount + 1);
+    assert.strictEqual(parsed?.pattern, 'background-agent');
+    assert.strictEqual(parsed?.unitCents, 50);
+  });
+});
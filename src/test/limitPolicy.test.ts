@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LimitPolicyRule, applyLimitPolicies, planLimitChange, ruleMatches } from '../services/limitPolicy';
+import { getCursorTokenFromDB } from '../services/database';
+import { getCursorApiClient } from '../services/client';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+// A Monday, nine days before the end of the billing period
+const MONDAY = new Date(2025, 5, 2, 12);
+const PERIOD_END = new Date(2025, 5, 11, 12);
+
+const RULES: LimitPolicyRule[] = [
+  { name: 'last days', lastDaysOfPeriod: 3, limit: 100 },
+  { name: 'weekdays', days: ['mon', 'tue', 'wed', 'thu', 'fri'], limit: 20 },
+  { name: 'weekend', enabled: false },
+];
+
+async function setPolicies(rules: LimitPolicyRule[] | undefined, dryRun?: boolean) {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  await config.update('limitPolicies', rules, vscode.ConfigurationTarget.Global);
+  await config.update('limitPolicyDryRun', dryRun, vscode.ConfigurationTarget.Global);
+}
+
+suite('Limit policies', () => {
+  let env: TestEnvironment;
+  let token: string;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+    token = (await getCursorTokenFromDB())!;
+  });
+
+  suiteTeardown(async () => {
+    await setPolicies(undefined, undefined);
+    await env.restore();
+  });
+
+  setup(() => {
+    env.server.reset();
+    getCursorApiClient().clearCache();
+  });
+
+  test('matches rules by weekday and the last days of the period', () => {
+    assert.ok(ruleMatches(RULES[1], MONDAY, PERIOD_END));
+    assert.ok(!ruleMatches({ days: ['Saturday', 'sun'] }, MONDAY, PERIOD_END));
+    assert.ok(!ruleMatches(RULES[0], MONDAY, PERIOD_END));
+    assert.ok(ruleMatches(RULES[0], new Date(2025, 5, 9, 12), PERIOD_END));
+    assert.ok(ruleMatches({}, MONDAY, PERIOD_END));
+  });
+
+  test('plans the change of the first matching rule', () => {
+    const enabled = { isEnabled: true, limit: 50 };
+    assert.deepStrictEqual(planLimitChange(RULES, enabled, MONDAY, PERIOD_END), {
+      rule: 'weekdays',
+      hardLimit: 20,
+      noUsageBasedAllowed: false,
+    });
+
+    const sunday = new Date(2025, 5, 1, 12);
+    assert.deepStrictEqual(planLimitChange(RULES, enabled, sunday, PERIOD_END), {
+      rule: 'weekend',
+      hardLimit: 0,
+      noUsageBasedAllowed: true,
+    });
+    assert.strictEqual(planLimitChange(RULES, { isEnabled: false, limit: 50 }, sunday, PERIOD_END), undefined);
+
+    // Nothing to do when the limit is already as the rule wants it, or no rule matches
+    assert.strictEqual(planLimitChange(RULES, { isEnabled: true, limit: 20 }, MONDAY, PERIOD_END), undefined);
+    assert.strictEqual(planLimitChange([RULES[0]], enabled, MONDAY, PERIOD_END), undefined);
+
+    // Enabling without a limit keeps the one set before
+    assert.deepStrictEqual(planLimitChange([{ name: 'on' }], { isEnabled: false, limit: 30 }, MONDAY, PERIOD_END), {
+      rule: 'on',
+      hardLimit: 30,
+      noUsageBasedAllowed: false,
+    });
+  });
+
+  test('only logs the change in dry-run mode', async () => {
+    await setPolicies([{ name: 'off', enabled: false }], true);
+    assert.strictEqual(await applyLimitPolicies(token, 5, PERIOD_END, 0), false);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-hard-limit'), 1);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/set-hard-limit'), 0);
+  });
+
+  test('applies the change of the matching rule', async () => {
+    await setPolicies([{ name: 'always', limit: 25 }], false);
+    assert.strictEqual(await applyLimitPolicies(token, 5, PERIOD_END, 0), true);
+    assert.deepStrictEqual(
+      env.server.requests.filter((request) => request.path === '/api/dashboard/set-hard-limit').map((request) => request.body),
+      [{ hardLimit: 25, noUsageBasedAllowed: false }],
+    );
+
+    // The mock server keeps its limit of 50, the same change is not sent again
+    getCursorApiClient().clearCache();
+    assert.strictEqual(await applyLimitPolicies(token, 5, PERIOD_END, 0), false);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/set-hard-limit'), 1);
+  });
+
+  test('leaves spend past the spending cap to the guardrail', async () => {
+    await setPolicies([{ name: 'always', limit: 25 }], false);
+    assert.strictEqual(await applyLimitPolicies(token, 12, PERIOD_END, 10), false);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/set-hard-limit'), 0);
+  });
+});
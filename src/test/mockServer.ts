@@ -0,0 +1,128 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+// Fixtures are not copied to out/, so resolve them from the source tree
+const FIXTURES_DIR = path.resolve(__dirname, '../../src/test/fixtures');
+
+export interface MockResponse {
+  status: number;
+  body?: any;
+  headers?: { [key: string]: string };
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: { [key: string]: string };
+  body: any;
+}
+
+// Computes the response from the request, e.g. to serve a different page per request
+export type MockResponder = (request: RecordedRequest) => MockResponse;
+
+export function loadFixture(name: string): any {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8'));
+}
+
+// Recorded responses served for every endpoint unless a test overrides them
+const DEFAULT_ROUTES: { [path: string]: { method: string; response: () => MockResponse } } = {
+  '/api/usage': { method: 'GET', response: () => ({ status: 200, body: loadFixture('usage.json') }) },
+  '/api/dashboard/get-hard-limit': {
+    method: 'POST',
+    response: () => ({ status: 200, body: loadFixture('hard-limit.json') }),
+  },
+  '/api/dashboard/set-hard-limit': { method: 'POST', response: () => ({ status: 200, body: {} }) },
+  '/api/dashboard/get-usage-based-premium-requests': {
+    method: 'POST',
+    response: () => ({ status: 200, body: loadFixture('usage-based-premium-requests.json') }),
+  },
+  '/api/dashboard/get-monthly-invoice': {
+    method: 'POST',
+    response: () => ({ status: 200, body: loadFixture('monthly-invoice.json') }),
+  },
+  // Individual account by default, tests switch to the teams.json fixture for team accounts
+  '/api/dashboard/teams': { method: 'POST', response: () => ({ status: 200, body: { teams: [] } }) },
+  '/api/dashboard/team': { method: 'POST', response: () => ({ status: 200, body: loadFixture('team.json') }) },
+  '/api/dashboard/get-team-spend': {
+    method: 'POST',
+    response: () => ({ status: 200, body: loadFixture('team-spend.json') }),
+  },
+  '/api/stripeSession': {
+    method: 'GET',
+    response: () => ({ status: 200, body: '"https://billing.stripe.com/p/session/test"' }),
+  },
+};
+
+/**
+ * Local stand-in for the Cursor dashboard API. Replays the recorded fixtures and
+ * lets tests override single endpoints to exercise error paths.
+ */
+export class MockCursorServer {
+  readonly requests: RecordedRequest[] = [];
+  private readonly overrides = new Map<string, MockResponse | MockResponder>();
+  private readonly server = http.createServer((req, res) => this.handle(req, res));
+
+  get url(): string {
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  start(): Promise<string> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => resolve(this.url));
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Serves the given response for an endpoint until reset() is called
+   */
+  respondWith(endpoint: string, response: MockResponse | MockResponder): void {
+    this.overrides.set(endpoint, response);
+  }
+
+  reset(): void {
+    this.overrides.clear();
+    this.requests.length = 0;
+  }
+
+  countRequests(endpoint: string): number {
+    return this.requests.filter((request) => request.path === endpoint).length;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+      const rawBody = Buffer.concat(chunks).toString('utf8');
+      const request: RecordedRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams.entries()),
+        body: rawBody ? JSON.parse(rawBody) : undefined,
+      };
+      this.requests.push(request);
+
+      const route = DEFAULT_ROUTES[url.pathname];
+      let response: MockResponse;
+      if (!route || route.method !== req.method) {
+        response = { status: 404, body: { error: 'Not found' } };
+      } else if (!req.headers.cookie?.includes('WorkosCursorSessionToken=')) {
+        response = { status: 401, body: { error: 'Not authenticated' } };
+      } else {
+        const override = this.overrides.get(url.pathname);
+        response = typeof override === 'function' ? override(request) : override || route.response();
+      }
+
+      const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? {});
+      res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(body);
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { createModelResolver, getModelResolver, resolveDefaultModelName } from '../utils/modelPatterns';
+
+suite('Model patterns', () => {
+  teardown(async () => {
+    await vscode.workspace
+      .getConfiguration('cursorStats')
+      .update('modelPatterns', undefined, vscode.ConfigurationTarget.Global);
+  });
+
+  test('recognises new releases of known model families', () => {
+    assert.deepStrictEqual(resolveDefaultModelName('4 claude-5-opus requests'), { name: 'claude-5-opus', family: 'Claude' });
+    assert.deepStrictEqual(resolveDefaultModelName('2 o4-mini requests'), { name: 'o4-mini', family: 'OpenAI o-series' });
+    assert.strictEqual(resolveDefaultModelName('94 premium requests beyond 500/month'), undefined);
+  });
+
+  test('uses the first capture group unless a display name is given', () => {
+    const resolve = createModelResolver([
+      { pattern: '\\b(kimi-k\\d)\\b', family: 'Kimi' },
+      { pattern: 'claude-4-opus', displayName: 'Claude Opus 4', family: 'Claude' },
+    ]);
+
+    assert.deepStrictEqual(resolve('6 kimi-k2 requests'), { name: 'kimi-k2', family: 'Kimi' });
+    assert.deepStrictEqual(resolve('9 claude-4-opus requests'), { name: 'Claude Opus 4', family: 'Claude' });
+  });
+
+  test('skips invalid patterns', () => {
+    const resolve = createModelResolver([
+      { pattern: '(unclosed', family: 'Broken' },
+      { pattern: 'unclosed', family: 'Valid' },
+    ]);
+
+    assert.deepStrictEqual(resolve('1 unclosed request'), { name: 'unclosed', family: 'Valid' });
+  });
+
+  test('checks patterns from settings before the built-in ones', async () => {
+    await vscode.workspace
+      .getConfiguration('cursorStats')
+      .update(
+        'modelPatterns',
+        [{ pattern: 'gpt-5', displayName: 'GPT-5', family: 'GPT-5' }],
+        vscode.ConfigurationTarget.Global,
+      );
+
+    const resolve = getModelResolver();
+
+    assert.deepStrictEqual(resolve('12 gpt-5 requests'), { name: 'GPT-5', family: 'GPT-5' });
+    assert.deepStrictEqual(resolve('12 gpt-4o requests'), { name: 'gpt-4o', family: 'GPT' });
+  });
+});
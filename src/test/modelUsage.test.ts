@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { UsageItem } from '../interfaces/types';
+import { aggregateByModelFamily } from '../utils/modelUsage';
+
+function usageItem(totalDollars: string, requestCount?: number, modelFamily?: string): UsageItem {
+  return { calculation: '', totalDollars, requestCount, modelFamily };
+}
+
+suite('Model family aggregation', () => {
+  test('sums requests and cost per family, most expensive first', () => {
+    const families = aggregateByModelFamily([
+      usageItem('$6.08', 152, 'Claude'),
+      usageItem('$0.90', 45, 'Claude'),
+      usageItem('$2.00', 5, 'OpenAI o-series'),
+      usageItem('$1.02', 30),
+    ]);
+
+    assert.deepStrictEqual(
+      families.map(({ family, requestCount }) => [family, requestCount]),
+      [
+        ['Claude', 197],
+        ['OpenAI o-series', 5],
+        [null, 30],
+      ],
+    );
+    assert.ok(Math.abs(families[0].costDollars - 6.98) < 0.001);
+    assert.ok(Math.abs(families[0].averageCostDollars - 6.98 / 197) < 0.0001);
+    assert.ok(Math.abs(families[0].shareOfSpend - 69.8) < 0.001);
+    assert.ok(Math.abs(families.reduce((sum, family) => sum + family.shareOfSpend, 0) - 100) < 0.001);
+  });
+
+  test('leaves out mid-month payment credits', () => {
+    const families = aggregateByModelFamily([usageItem('-$5.00'), usageItem('$1.00', 10, 'GPT')]);
+
+    assert.strictEqual(families.length, 1);
+    assert.strictEqual(families[0].shareOfSpend, 100);
+  });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import {
+  claimNotification,
+  claimNotifiedAmount,
+  clearNotificationState,
+  getNotifiedAmount,
+  hasShownNotification,
+  releaseNotification,
+} from '../services/notificationState';
+import { getExtensionContext } from '../extension';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+const PERIOD_START = new Date(2025, 5, 1).toISOString();
+
+suite('Notification state', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    await clearNotificationState();
+    await env.restore();
+  });
+
+  setup(async () => {
+    await clearNotificationState();
+  });
+
+  test('claims a notification once per billing period', async () => {
+    assert.strictEqual(await claimNotification(PERIOD_START, 'premium-75'), true);
+    assert.strictEqual(await claimNotification(PERIOD_START, 'premium-75'), false);
+    assert.ok(hasShownNotification(PERIOD_START, 'premium-75'));
+
+    assert.strictEqual(await claimNotification(new Date(2025, 6, 1).toISOString(), 'premium-75'), true);
+  });
+
+  test('does not let another window claim a notification again', async () => {
+    assert.strictEqual(await claimNotification(PERIOD_START, 'premium-90'), true);
+
+    // Another window has not seen the updated global state yet
+    await getExtensionContext().globalState.update('notificationState', undefined);
+
+    assert.ok(hasShownNotification(PERIOD_START, 'premium-90'));
+    assert.strictEqual(await claimNotification(PERIOD_START, 'premium-90'), false);
+  });
+
+  test('releases a notification so it can be shown again', async () => {
+    await claimNotification(PERIOD_START, 'usage-based-50');
+    await releaseNotification(PERIOD_START, 'usage-based-50');
+
+    assert.strictEqual(hasShownNotification(PERIOD_START, 'usage-based-50'), false);
+    assert.strictEqual(await claimNotification(PERIOD_START, 'usage-based-50'), true);
+  });
+
+  test('only claims amounts above the highest one already notified', async () => {
+    assert.strictEqual(await claimNotifiedAmount(PERIOD_START, 'spending', 10), true);
+    assert.strictEqual(await claimNotifiedAmount(PERIOD_START, 'spending', 5), false);
+    assert.strictEqual(await claimNotifiedAmount(PERIOD_START, 'spending', 10), false);
+    assert.strictEqual(await claimNotifiedAmount(PERIOD_START, 'spending', 500), true);
+    assert.strictEqual(getNotifiedAmount(PERIOD_START, 'spending'), 500);
+
+    // Another window has not seen the updated global state yet
+    await getExtensionContext().globalState.update('notifiedAmounts', undefined);
+    assert.strictEqual(await claimNotifiedAmount(PERIOD_START, 'spending', 500), false);
+    assert.strictEqual(getNotifiedAmount(PERIOD_START, 'spending'), 500);
+  });
+});
@@ -0,0 +1,193 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import {
+  checkAndNotifyUsage,
+  checkAndNotifySpending,
+  checkAndNotifyUnpaidInvoice,
+  checkAndNotifyProjectedSpend,
+  checkAndNotifyTeamSpend,
+  findTeamSpendAlerts,
+  getTeamMemberAlertKey,
+  getTeamTotalAlertKey,
+  resetNotifications,
+} from '../handlers/notifications';
+import { getCursorTokenFromDB } from '../services/database';
+import { clearNotificationState } from '../services/notificationState';
+import { t } from '../utils/i18n';
+import { projectUsage } from '../utils/forecast';
+import { UsageForecast } from '../interfaces/types';
+import { loadFixture } from './mockServer';
+import { TestEnvironment, setUpTestEnvironment, wait } from './helpers';
+
+const PERIOD_START = new Date(2025, 5, 1).toISOString();
+
+suite('Notifications', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+    // Let the delayed notifications scheduled by the activation refresh go out first
+    await wait(1500);
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  setup(async () => {
+    resetNotifications();
+    await clearNotificationState();
+    env.messages.length = 0;
+  });
+
+  test('notifies once per premium usage threshold', async () => {
+    await checkAndNotifyUsage({ percentage: 80, type: 'premium', periodStart: PERIOD_START });
+    await checkAndNotifyUsage({ percentage: 82, type: 'premium', periodStart: PERIOD_START });
+
+    assert.strictEqual(env.messages.length, 1);
+    assert.strictEqual(env.messages[0].level, 'warning');
+    assert.strictEqual(env.messages[0].message, t('notifications.usageThresholdReached', { percentage: '80.0' }));
+
+    await checkAndNotifyUsage({ percentage: 95, type: 'premium', periodStart: PERIOD_START });
+    assert.strictEqual(env.messages.length, 2);
+  });
+
+  test('skips usage-based alerts until premium requests are exhausted', async () => {
+    await checkAndNotifyUsage({ percentage: 60, type: 'usage-based', periodStart: PERIOD_START, limit: 50, premiumPercentage: 90 });
+    assert.strictEqual(env.messages.length, 0);
+
+    await checkAndNotifyUsage({ percentage: 60, type: 'usage-based', periodStart: PERIOD_START, limit: 50, premiumPercentage: 100 });
+    assert.strictEqual(env.messages.length, 1);
+    assert.strictEqual(
+      env.messages[0].message,
+      t('notifications.usageBasedSpendingThreshold', { percentage: '60.0', limit: 50 }),
+    );
+  });
+
+  test('shows nothing when alerts are disabled', async () => {
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('enableAlerts', false, vscode.ConfigurationTarget.Global);
+    try {
+      await checkAndNotifyUsage({ percentage: 100, type: 'premium', periodStart: PERIOD_START });
+      assert.strictEqual(env.messages.length, 0);
+    } finally {
+      await config.update('enableAlerts', undefined, vscode.ConfigurationTarget.Global);
+    }
+  });
+
+  test('notifies when spending crosses a new threshold after the first check', async () => {
+    // The first check only records the thresholds that were already passed
+    await checkAndNotifySpending(3.5, PERIOD_START);
+    assert.strictEqual(env.messages.length, 0);
+
+    await checkAndNotifySpending(4.2, PERIOD_START);
+    assert.strictEqual(env.messages.length, 1);
+    assert.ok(env.messages[0].message.includes('$4.00'), env.messages[0].message);
+  });
+
+  test('shows the unpaid invoice warning once per billing period', async () => {
+    const token = (await getCursorTokenFromDB())!;
+
+    await checkAndNotifyUnpaidInvoice(token, PERIOD_START);
+    await checkAndNotifyUnpaidInvoice(token, PERIOD_START);
+
+    assert.strictEqual(env.messages.length, 1);
+    assert.strictEqual(env.messages[0].message, t('notifications.unpaidInvoice'));
+
+    await checkAndNotifyUnpaidInvoice(token, new Date(2025, 6, 1).toISOString());
+    assert.strictEqual(env.messages.length, 2);
+  });
+
+  test('keeps shown alerts across restarts', async () => {
+    await checkAndNotifyUsage({ percentage: 80, type: 'premium', periodStart: PERIOD_START });
+    resetNotifications();
+    await checkAndNotifyUsage({ percentage: 80, type: 'premium', periodStart: PERIOD_START });
+    assert.strictEqual(env.messages.length, 1);
+
+    // A new billing period starts over
+    await checkAndNotifyUsage({ percentage: 80, type: 'premium', periodStart: new Date(2025, 6, 1).toISOString() });
+    assert.strictEqual(env.messages.length, 2);
+  });
+
+  test('shows a premium threshold again after usage dropped below it', async () => {
+    await checkAndNotifyUsage({ percentage: 80, type: 'premium', periodStart: PERIOD_START });
+    await checkAndNotifyUsage({ percentage: 40, type: 'premium', periodStart: PERIOD_START });
+    await checkAndNotifyUsage({ percentage: 80, type: 'premium', periodStart: PERIOD_START });
+    assert.strictEqual(env.messages.length, 3);
+  });
+
+  test('warns once per period when the projected spend exceeds the hard limit', async () => {
+    const period = { start: new Date(2025, 5, 1).toISOString(), end: new Date(2025, 6, 1).toISOString() };
+    const now = new Date(2025, 5, 11).getTime();
+    const forecast = (spentDollars: number): UsageForecast => ({
+      period,
+      excludeWeekends: false,
+      premium: projectUsage(500, 500, period, [], false, now),
+      usageBased: projectUsage(spentDollars, 50, period, [], false, now),
+    });
+
+    // $10 over 10 days projects to $30 by the end of the period
+    await checkAndNotifyProjectedSpend(forecast(10));
+    assert.strictEqual(env.messages.length, 0);
+
+    // $20 over 10 days projects to $60
+    await checkAndNotifyProjectedSpend(forecast(20));
+    await checkAndNotifyProjectedSpend(forecast(25));
+    assert.strictEqual(env.messages.length, 1);
+    assert.strictEqual(env.messages[0].level, 'warning');
+    assert.strictEqual(
+      env.messages[0].message,
+      t('notifications.projectedSpendExceedsLimit', { amount: '$60.00', limit: '$50.00' }),
+    );
+  });
+
+  test('finds team members near their limit and the highest passed team total', () => {
+    const teamSpend = loadFixture('team-spend.json');
+
+    // Test User spent $12.75 of a $40 override, the team $46.85 in total
+    const alerts = findTeamSpendAlerts(teamSpend, 4242, 0.3, [25, 40, 100], () => false);
+    assert.deepStrictEqual(
+      alerts.members.map((member) => member.userId),
+      [1001],
+    );
+    assert.strictEqual(alerts.totalThreshold, 40);
+
+    const shown = [getTeamMemberAlertKey(4242, alerts.members[0]), getTeamTotalAlertKey(4242, 40)];
+    assert.deepStrictEqual(
+      findTeamSpendAlerts(teamSpend, 4242, 0.3, [25, 40, 100], (key) => shown.includes(key)),
+      { members: [], totalThreshold: undefined },
+    );
+
+    // A changed limit override can be alerted again
+    const raisedLimit = { ...teamSpend, teamMemberSpend: [{ ...alerts.members[0], hardLimitOverrideDollars: 30 }] };
+    assert.strictEqual(
+      findTeamSpendAlerts(raisedLimit, 4242, 0.3, [], (key) => shown.includes(key)).members.length,
+      1,
+    );
+  });
+
+  test('shows each team spend alert once, also after a restart', async () => {
+    const token = (await getCursorTokenFromDB())!;
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('teamMemberSpendAlertFraction', 0.3, vscode.ConfigurationTarget.Global);
+    await config.update('teamSpendAlertThresholds', [25], vscode.ConfigurationTarget.Global);
+    try {
+      await checkAndNotifyTeamSpend(token, 4242);
+      assert.deepStrictEqual(
+        env.messages.map((message) => message.message),
+        [
+          t('notifications.teamMemberNearLimit', { name: 'Test User', percentage: 30 }),
+          t('notifications.teamSpendThresholdReached', { amount: '$25.00' }),
+        ],
+      );
+
+      // The in-memory reset of a restart does not bring the alerts back
+      resetNotifications();
+      await checkAndNotifyTeamSpend(token, 4242);
+      assert.strictEqual(env.messages.length, 2);
+    } finally {
+      await config.update('teamMemberSpendAlertFraction', undefined, vscode.ConfigurationTarget.Global);
+      await config.update('teamSpendAlertThresholds', undefined, vscode.ConfigurationTarget.Global);
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { createPeriodProgressBar } from '../utils/progressBars';
+import { t } from '../utils/i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+suite('Progress bars', () => {
+  suiteSetup(async () => {
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('showProgressBars', true, vscode.ConfigurationTarget.Global);
+    await config.update('progressBarLength', 10, vscode.ConfigurationTarget.Global);
+    await config.update('excludeWeekends', false, vscode.ConfigurationTarget.Global);
+  });
+
+  suiteTeardown(async () => {
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('showProgressBars', undefined, vscode.ConfigurationTarget.Global);
+    await config.update('progressBarLength', undefined, vscode.ConfigurationTarget.Global);
+    await config.update('excludeWeekends', undefined, vscode.ConfigurationTarget.Global);
+  });
+
+  test('shows the progress of a period given as ISO dates', () => {
+    const now = Date.now();
+    const start = new Date(now - 10 * DAY_MS).toISOString();
+    const end = new Date(now + 10 * DAY_MS).toISOString();
+
+    const bar = createPeriodProgressBar(start, end, 'Period');
+    assert.ok(!bar.includes(t('progressBar.errorParsingDates')), bar);
+    assert.strictEqual(bar.replace('Period: ', '').split('⬜').length - 1, 5);
+  });
+
+  test('still reads periods like "17 April - 17 May"', () => {
+    const bar = createPeriodProgressBar('17 April - 17 May', undefined, 'Period');
+    assert.ok(!bar.includes(t('progressBar.errorParsingDates')), bar);
+    assert.ok(bar.startsWith('Period: '));
+  });
+});
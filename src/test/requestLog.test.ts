@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+import { buildRequestTimeline, getHourKey, getRequestTimeline } from '../services/requestLog';
+import { TimingInfo } from '../interfaces/types';
+import { TestEnvironment, setUpTestEnvironment, writeComposerData } from './helpers';
+
+function timing(composerId: string, timestamp: number): TimingInfo {
+  return { key: `composerData:${composerId}`, timestamp, timingInfo: { clientStartTime: timestamp } };
+}
+
+/**
+ * Writes a workspace storage folder like Cursor keeps one per opened folder
+ */
+async function writeWorkspaceStorage(userDir: string, folder: string, composerIds: string[]): Promise<void> {
+  const storageDir = path.join(userDir, 'workspaceStorage', path.basename(folder));
+  fs.mkdirSync(storageDir, { recursive: true });
+  fs.writeFileSync(path.join(storageDir, 'workspace.json'), JSON.stringify({ folder: vscode.Uri.file(folder).toString() }));
+
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)');
+  db.run('INSERT INTO ItemTable (key, value) VALUES (?, ?)', [
+    'composer.composerData',
+    JSON.stringify({ allComposers: composerIds.map((composerId) => ({ composerId })) }),
+  ]);
+  fs.writeFileSync(path.join(storageDir, 'state.vscdb'), Buffer.from(db.export()));
+  db.close();
+}
+
+suite('Request log', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  test('counts requests per hour, day and workspace', () => {
+    const morning = new Date(2025, 5, 2, 9, 15).getTime();
+    const timings = [
+      timing('old', new Date(2025, 4, 20, 12, 0).getTime()),
+      timing('a', morning),
+      timing('a', morning + 10 * 60 * 1000),
+      timing('b', morning + 2 * 60 * 60 * 1000),
+      timing('c', new Date(2025, 5, 3, 18, 0).getTime()),
+    ];
+    const workspaces = new Map([
+      ['a', '/projects/client-a'],
+      ['b', '/projects/client-b'],
+    ]);
+
+    const timeline = buildRequestTimeline(timings, workspaces, new Date(2025, 5, 1).getTime());
+    assert.strictEqual(timeline.total, 4);
+    assert.deepStrictEqual(timeline.daily, [
+      { key: '2025-06-02', count: 3 },
+      { key: '2025-06-03', count: 1 },
+    ]);
+    assert.deepStrictEqual(timeline.hourly, [
+      { key: '2025-06-02 09:00', count: 2 },
+      { key: '2025-06-02 11:00', count: 1 },
+      { key: '2025-06-03 18:00', count: 1 },
+    ]);
+    assert.deepStrictEqual(timeline.workspaces, [
+      { workspace: '/projects/client-a', count: 2 },
+      { workspace: '/projects/client-b', count: 1 },
+      { workspace: null, count: 1 },
+    ]);
+    assert.strictEqual(getHourKey(morning), '2025-06-02 09:00');
+  });
+
+  test('reads the requests and their workspaces from the local databases', async () => {
+    // Cursor keeps the global database in User/globalStorage and one per workspace in User/workspaceStorage
+    const userDir = path.join(path.dirname(env.databasePath), 'User');
+    const databasePath = path.join(userDir, 'globalStorage', 'state.vscdb');
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    fs.copyFileSync(env.databasePath, databasePath);
+    await writeComposerData(databasePath, 'composer-a', [Date.now() - 60000, Date.now()]);
+    await writeComposerData(databasePath, 'composer-b', [Date.now()]);
+    const folder = path.join(path.dirname(env.databasePath), 'client-a');
+    await writeWorkspaceStorage(userDir, folder, ['composer-a']);
+
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('customDatabasePath', databasePath, vscode.ConfigurationTarget.Global);
+    try {
+      const timeline = await getRequestTimeline();
+      assert.strictEqual(timeline.total, 3);
+      assert.deepStrictEqual(timeline.workspaces, [
+        { workspace: vscode.Uri.file(folder).fsPath, count: 2 },
+        { workspace: null, count: 1 },
+      ]);
+
+      // Workspace databases that changed since the last read are read again
+      await writeWorkspaceStorage(userDir, folder, ['composer-a', 'composer-b']);
+      assert.deepStrictEqual((await getRequestTimeline()).workspaces, [{ workspace: vscode.Uri.file(folder).fsPath, count: 3 }]);
+    } finally {
+      await config.update('customDatabasePath', env.databasePath, vscode.ConfigurationTarget.Global);
+    }
+  });
+});
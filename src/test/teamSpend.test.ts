@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { getAllTeamMemberSpend, setTeamHardLimitPerUser } from '../services/team';
+import { getCursorTokenFromDB } from '../services/database';
+import { getCursorApiClient } from '../services/client';
+import { sortTeamMembers } from '../handlers/teamSpend';
+import { parseLimitInput } from '../handlers/teamLimits';
+import { loadFixture } from './mockServer';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+const HARD_LIMIT = loadFixture('hard-limit.json');
+
+suite('Team spend', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  setup(() => {
+    env.server.reset();
+    getCursorApiClient().clearCache();
+  });
+
+  test('fetches every page of team member spend', async () => {
+    const [first, second, third] = loadFixture('team-spend.json').teamMemberSpend;
+    const pages: { [page: number]: any[] } = { 1: [first, second], 2: [third] };
+    env.server.respondWith('/api/dashboard/get-team-spend', (request) => ({
+      status: 200,
+      body: { teamMemberSpend: pages[request.body.page || 1], totalMembers: 3, totalPages: 2 },
+    }));
+
+    const teamSpend = await getAllTeamMemberSpend((await getCursorTokenFromDB())!, 4242);
+
+    assert.deepStrictEqual(
+      teamSpend.teamMemberSpend.map((member) => member.userId),
+      [1001, 1002, 1003],
+    );
+    assert.deepStrictEqual(
+      env.server.requests.map((request) => request.body),
+      [{ teamId: 4242 }, { teamId: 4242, page: 2 }],
+    );
+  });
+
+  test('sorts members by any column', () => {
+    const members = loadFixture('team-spend.json').teamMemberSpend;
+
+    const bySpend = sortTeamMembers(members, { column: 'spendCents', descending: true });
+    assert.deepStrictEqual(
+      bySpend.map((member) => member.userId),
+      [1002, 1001, 1003],
+    );
+
+    const byName = sortTeamMembers(members, { column: 'name', descending: false });
+    assert.deepStrictEqual(
+      byName.map((member) => member.name),
+      ['Other Member', 'Team Admin', 'Test User'],
+    );
+  });
+
+  test('keeps the team limit when changing the default limit per member', async () => {
+    assert.strictEqual(await setTeamHardLimitPerUser((await getCursorTokenFromDB())!, 4242, 30, HARD_LIMIT), true);
+
+    const setRequest = env.server.requests.find((request) => request.path === '/api/dashboard/set-hard-limit');
+    assert.deepStrictEqual(setRequest?.body, {
+      teamId: 4242,
+      hardLimit: 50,
+      hardLimitPerUser: 30,
+      noUsageBasedAllowed: false,
+    });
+  });
+
+  test('does not undo a team limit changed since it was read', async () => {
+    const token = (await getCursorTokenFromDB())!;
+    await getCursorApiClient().getHardLimit(token, 4242);
+    env.server.respondWith('/api/dashboard/get-hard-limit', {
+      status: 200,
+      body: { ...HARD_LIMIT, hardLimit: 80 },
+    });
+
+    assert.strictEqual(await setTeamHardLimitPerUser(token, 4242, 30, HARD_LIMIT), false);
+    assert.strictEqual(env.server.countRequests('/api/dashboard/set-hard-limit'), 0);
+  });
+
+  test('parses entered limits', () => {
+    assert.strictEqual(parseLimitInput('40'), 40);
+    assert.strictEqual(parseLimitInput(' $12.5 '), 12.5);
+    assert.strictEqual(parseLimitInput(''), 0);
+    assert.strictEqual(parseLimitInput('-5'), undefined);
+    assert.strictEqual(parseLimitInput('ten'), undefined);
+  });
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { updateStats } from '../utils/updateStats';
+import {
+  getConsecutiveErrorCount,
+  getCooldownStartTime,
+  getNextRefresh,
+  setCooldownStartTime,
+  clearAllIntervals,
+} from '../utils/cooldown';
+import { getLatestSnapshot } from '../services/history';
+import { getCursorApiClient } from '../services/client';
+import { t } from '../utils/i18n';
+import { loadFixture } from './mockServer';
+import { TestEnvironment, setUpTestEnvironment, clearUserCache } from './helpers';
+
+suite('updateStats', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  setup(async () => {
+    env.server.reset();
+    getCursorApiClient().clearCache();
+    await clearUserCache();
+  });
+
+  teardown(() => {
+    clearAllIntervals();
+  });
+
+  test('shows premium requests and usage-based cost in the status bar', async () => {
+    await updateStats(env.statusBarItem);
+
+    // Only positive invoice items count towards the cost: 608 + 90 + 150 + 8 cents
+    assert.ok(env.statusBarItem.text.includes('420/500'), env.statusBarItem.text);
+    assert.ok(env.statusBarItem.text.includes('$8.56'), env.statusBarItem.text);
+
+    const tooltip = env.statusBarItem.tooltip as vscode.MarkdownString;
+    assert.ok(tooltip instanceof vscode.MarkdownString);
+    assert.ok(tooltip.value.includes(t('statusBar.premiumFastRequests')));
+    assert.ok(tooltip.value.includes('claude-4-sonnet-thinking'));
+    assert.ok(tooltip.value.includes(t('statusBar.youHavePaid', { amount: '$5.00' })));
+  });
+
+  test('shows the cost per model family over the current and last period', async () => {
+    await updateStats(env.statusBarItem);
+
+    // The mock serves the same invoice for both periods: 2 * (608 + 90) cents of Claude usage
+    const tooltip = env.statusBarItem.tooltip as vscode.MarkdownString;
+    assert.ok(tooltip.value.includes(t('statusBar.costByModelFamily')), tooltip.value);
+    assert.ok(tooltip.value.includes('| Claude | 394 | $13.96 |'), tooltip.value);
+  });
+
+  test('shows team spend for team members', async () => {
+    env.server.respondWith('/api/dashboard/teams', { status: 200, body: loadFixture('teams.json') });
+
+    await updateStats(env.statusBarItem);
+
+    assert.ok(env.statusBarItem.text.includes('$12.75'), env.statusBarItem.text);
+    const tooltip = env.statusBarItem.tooltip as vscode.MarkdownString;
+    assert.ok(tooltip.value.includes('**Personal**: $40.00'), tooltip.value);
+  });
+
+  test('does not turn markdown in a team name into links in the tooltip', async () => {
+    const teams = loadFixture('teams.json');
+    teams.teams[0].name = 'Acme [x](command:cursor-stats.setLimit)';
+    env.server.respondWith('/api/dashboard/teams', { status: 200, body: teams });
+
+    await updateStats(env.statusBarItem);
+
+    const tooltip = env.statusBarItem.tooltip as vscode.MarkdownString;
+    assert.ok(tooltip.value.includes('Acme \\[x\\]\\(command:cursor\\-stats\\.setLimit\\)'), tooltip.value);
+  });
+
+  test('records a usage history snapshot after a successful refresh', async () => {
+    await updateStats(env.statusBarItem);
+
+    const snapshot = getLatestSnapshot();
+    assert.ok(snapshot);
+    assert.strictEqual(snapshot.premiumRequests.current, 420);
+    assert.ok(Math.abs(snapshot.usageBasedCostDollars - 8.56) < 0.001);
+  });
+
+  test('counts API failures and resets the error state once the API recovers', async () => {
+    env.server.respondWith('/api/usage', { status: 500, body: {} });
+    const errorCount = getConsecutiveErrorCount();
+
+    await updateStats(env.statusBarItem);
+    assert.strictEqual(getConsecutiveErrorCount(), errorCount + 1);
+
+    env.server.reset();
+    getCursorApiClient().clearCache();
+    setCooldownStartTime(Date.now());
+
+    await updateStats(env.statusBarItem);
+    assert.strictEqual(getConsecutiveErrorCount(), 0);
+    assert.strictEqual(getCooldownStartTime(), null);
+  });
+
+  test('waits as long as the API asks when rate limited and shows the next refresh in the tooltip', async () => {
+    await updateStats(env.statusBarItem);
+    env.server.respondWith('/api/usage', { status: 429, body: {}, headers: { 'Retry-After': '120' } });
+    getCursorApiClient().clearCache();
+
+    const before = Date.now();
+    await updateStats(env.statusBarItem);
+    const nextRefresh = getNextRefresh();
+    assert.ok(getCooldownStartTime());
+    assert.strictEqual(nextRefresh?.reason, 'retryAfter');
+    assert.ok(nextRefresh.nextRefreshAt >= before + 120000, String(nextRefresh.nextRefreshAt - before));
+    const tooltip = env.statusBarItem.tooltip as vscode.MarkdownString;
+    assert.ok(tooltip.value.includes(t('statusBar.refreshReasons.retryAfter')), tooltip.value);
+
+    env.server.reset();
+    getCursorApiClient().clearCache();
+    await updateStats(env.statusBarItem);
+    assert.strictEqual(getCooldownStartTime(), null);
+    assert.notStrictEqual(getNextRefresh()?.reason, 'retryAfter');
+  });
+
+  test('shows the missing token message when no session is stored', async () => {
+    const config = vscode.workspace.getConfiguration('cursorStats');
+    await config.update('customDatabasePath', `${env.databasePath}.missing`, vscode.ConfigurationTarget.Global);
+    try {
+      await updateStats(env.statusBarItem);
+      assert.ok(env.statusBarItem.text.includes(t('statusBar.noTokenFound')), env.statusBarItem.text);
+    } finally {
+      await config.update('customDatabasePath', env.databasePath, vscode.ConfigurationTarget.Global);
+    }
+  });
+});
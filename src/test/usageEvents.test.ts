@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import { fetchMonthData } from '../services/api';
+import { getCursorTokenFromDB } from '../services/database';
+import { getCursorApiClient } from '../services/client';
+import { formatUsageExport } from '../handlers/usageExport';
+import { MAX_USAGE_EVENTS, getUsageEventsPage, parseUsageEvent, parseUsageEvents } from '../utils/usageEvents';
+import { UsageEvent } from '../interfaces/types';
+import { loadFixture } from './mockServer';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+const USAGE_EVENTS = [
+  {
+    timestamp: '1749000000000',
+    model: 'claude-4-sonnet-thinking',
+    kind: 'USAGE_EVENT_KIND_USAGE_BASED',
+    requestsCosts: 2,
+    tokenUsage: { inputTokens: 1200, outputTokens: 300, totalCents: 4.2 },
+  },
+  {
+    timestamp: '2025-06-04T10:00:00.000Z',
+    details: { toolCallComposer: { modelIntent: 'claude-3.5-sonnet' } },
+    priceCents: 0,
+  },
+  { model: 'gpt-4.1', kind: 'USAGE_EVENT_KIND_ERRORED_NOT_CHARGED' },
+];
+
+function event(model: string, timestamp: number): UsageEvent {
+  return { timestamp, model, kind: 'included', requests: 1, costCents: 0 };
+}
+
+suite('Usage events', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  setup(() => {
+    env.server.reset();
+    getCursorApiClient().clearCache();
+  });
+
+  test('parses current and older usage events into typed records', () => {
+    assert.deepStrictEqual(parseUsageEvent(USAGE_EVENTS[0]), {
+      timestamp: 1749000000000,
+      model: 'claude-4-sonnet-thinking',
+      kind: 'usageBased',
+      requests: 2,
+      costCents: 4.2,
+    });
+    assert.deepStrictEqual(parseUsageEvent(USAGE_EVENTS[1]), {
+      timestamp: Date.parse('2025-06-04T10:00:00.000Z'),
+      model: 'claude-3.5-sonnet',
+      kind: 'other',
+      requests: 1,
+      costCents: 0,
+    });
+    // Events without a timestamp cannot be placed and are dropped
+    assert.strictEqual(parseUsageEvent(USAGE_EVENTS[2]), undefined);
+  });
+
+  test('keeps only the newest events of a busy month', () => {
+    const rawEvents = Array.from({ length: MAX_USAGE_EVENTS + 10 }, (_, index) => ({ timestamp: index, model: 'gpt-4.1' }));
+    const events = parseUsageEvents(rawEvents);
+    assert.strictEqual(events.length, MAX_USAGE_EVENTS);
+    assert.strictEqual(events[0].timestamp, MAX_USAGE_EVENTS + 9);
+  });
+
+  test('pages through the events matching a search', () => {
+    const events = [event('gpt-4.1', 5), event('claude-4-sonnet', 4), event('Claude-3.5-sonnet', 3), event('claude-4-opus', 2)];
+
+    const page = getUsageEventsPage(events, 'CLAUDE', 1, 2);
+    assert.deepStrictEqual(page.events.map(({ model }) => model), ['claude-4-opus']);
+    assert.strictEqual(page.pageCount, 2);
+    assert.strictEqual(page.total, 3);
+
+    // Pages past the end show the last one
+    assert.strictEqual(getUsageEventsPage(events, '', 10, 2).page, 1);
+    assert.deepStrictEqual(getUsageEventsPage(events, 'llama', 0, 2), { events: [], page: 0, pageCount: 1, total: 0 });
+  });
+
+  test('asks for usage events only in the detailed mode and exports them', async () => {
+    const token = (await getCursorTokenFromDB())!;
+    env.server.respondWith('/api/dashboard/get-monthly-invoice', {
+      status: 200,
+      body: { ...loadFixture('monthly-invoice.json'), usageEvents: USAGE_EVENTS },
+    });
+
+    const regular = await fetchMonthData(token, 6, 2025);
+    assert.strictEqual(regular.usageEvents, undefined);
+
+    const detailed = await fetchMonthData(token, 6, 2025, true);
+    assert.deepStrictEqual(
+      env.server.requests.map((request) => request.body.includeUsageEvents),
+      [false, true],
+    );
+    assert.strictEqual(detailed.usageEvents?.length, 2);
+
+    const period = { month: 6, year: 2025, usageBasedPricing: detailed };
+    assert.strictEqual(
+      formatUsageExport(period, 'eventsCsv').split('\n')[1],
+      '2025-06-04T10:00:00.000Z,claude-3.5-sonnet,other,1,0',
+    );
+    assert.strictEqual(JSON.parse(formatUsageExport(period, 'json')).events[1].cost, 0.042);
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { fetchMonthData } from '../services/api';
+import { getCursorTokenFromDB } from '../services/database';
+import { getCursorApiClient } from '../services/client';
+import { formatUsageExport, getUsageExportRows, parseMonthInput } from '../handlers/usageExport';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+suite('Usage export', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  setup(() => {
+    env.server.reset();
+    getCursorApiClient().clearCache();
+  });
+
+  test('parses the month to export', () => {
+    assert.deepStrictEqual(parseMonthInput(' 2025-03 '), { month: 3, year: 2025 });
+    assert.strictEqual(parseMonthInput('2025-13'), undefined);
+    assert.strictEqual(parseMonthInput('March 2025'), undefined);
+  });
+
+  test('lists every mid-month payment with its own amount', () => {
+    const rows = getUsageExportRows({
+      items: [
+        { calculation: 'Mid-month payment: $5.00', totalDollars: '-$5.00', description: 'Mid-month usage paid for May' },
+        { calculation: 'Mid-month payment: $12.50', totalDollars: '-$12.50', description: 'Mid-month usage paid for May' },
+      ],
+      hasUnpaidMidMonthInvoice: false,
+      midMonthPayment: 12.5,
+    });
+    assert.deepStrictEqual(rows.map((row) => [row.type, row.total]), [
+      ['midMonthPayment', -5],
+      ['midMonthPayment', -7.5],
+    ]);
+  });
+
+  test('exports the invoice items of any month', async () => {
+    const token = (await getCursorTokenFromDB())!;
+    const period = { month: 3, year: 2025, usageBasedPricing: await fetchMonthData(token, 3, 2025) };
+    assert.strictEqual(env.server.countRequests('/api/dashboard/get-monthly-invoice'), 1);
+
+    const csv = formatUsageExport(period, 'csv').split('\n');
+    assert.strictEqual(csv[0], 'type,model,family,description,requests,unit_cost,total,discounted');
+    assert.ok(csv.includes('midMonthPayment,,,Mid-month usage paid for May,,,-5,false'));
+    assert.ok(csv.some((line) => line.startsWith('usage,claude-4-sonnet-thinking,') && line.endsWith(',152,0.04,6.08,false')));
+
+    const json = JSON.parse(formatUsageExport(period, 'json'));
+    assert.strictEqual(json.midMonthPaymentDollars, 5);
+    assert.strictEqual(json.totalDollars, 8.56);
+    assert.ok(json.items.find((item: any) => item.model === 'claude-3.7-sonnet').discounted);
+
+    const markdown = formatUsageExport(period, 'markdown');
+    assert.ok(markdown.includes('| claude-4-sonnet-thinking | 152 | $0.040 | $6.08 |  |'));
+    assert.ok(markdown.includes('$8.56'));
+  });
+});
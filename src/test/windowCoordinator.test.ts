@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import {
+  getLeaderLockPath,
+  getWindowId,
+  isLeaderWindow,
+  maintainLeadership,
+  publishStats,
+  readSharedStats,
+} from '../services/windowCoordinator';
+import { fetchCursorStats } from '../services/api';
+import { getCursorTokenFromDB } from '../services/database';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+function writeLock(windowId: string, pid: number, heartbeatAt: number = Date.now()): void {
+  fs.writeFileSync(getLeaderLockPath(), JSON.stringify({ windowId, pid, claimedAt: heartbeatAt, heartbeatAt }));
+}
+
+function readLockedWindowId(): string {
+  return JSON.parse(fs.readFileSync(getLeaderLockPath(), 'utf8')).windowId;
+}
+
+suite('Window coordination', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    // Leave this window polling for the other suites
+    fs.rmSync(getLeaderLockPath(), { force: true });
+    isLeaderWindow();
+    await env.restore();
+  });
+
+  test('leaves polling to another open window, also when this window is focused', async () => {
+    // The parent process stands in for the extension host of another window
+    writeLock('other-window', process.ppid);
+    assert.strictEqual(isLeaderWindow(), false);
+
+    await maintainLeadership();
+    assert.strictEqual(isLeaderWindow(), false);
+  });
+
+  test('takes over when the polling window stopped renewing its lock', async () => {
+    writeLock('other-window', process.ppid, Date.now() - 10 * 60 * 1000);
+
+    await maintainLeadership();
+    assert.strictEqual(isLeaderWindow(), true);
+
+    // The leader renews its lock
+    const { heartbeatAt } = JSON.parse(fs.readFileSync(getLeaderLockPath(), 'utf8'));
+    await maintainLeadership();
+    assert.ok(JSON.parse(fs.readFileSync(getLeaderLockPath(), 'utf8')).heartbeatAt >= heartbeatAt);
+    assert.strictEqual(readLockedWindowId(), getWindowId());
+  });
+
+  test('leaves the takeover to a window that is already taking over', async () => {
+    writeLock('other-window', process.ppid, Date.now() - 10 * 60 * 1000);
+    fs.writeFileSync(`${getLeaderLockPath()}.takeover`, '');
+    try {
+      await maintainLeadership();
+      assert.strictEqual(readLockedWindowId(), 'other-window');
+    } finally {
+      fs.rmSync(`${getLeaderLockPath()}.takeover`, { force: true });
+    }
+  });
+
+  test('takes over when the polling window was closed', async () => {
+    const closedWindowPid = spawnSync(process.execPath, ['-e', ''], {
+      env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+    }).pid;
+    writeLock('closed-window', closedWindowPid);
+
+    await maintainLeadership();
+    assert.strictEqual(isLeaderWindow(), true);
+    assert.strictEqual(readLockedWindowId(), getWindowId());
+    // The lock is replaced in place, without leftovers
+    assert.deepStrictEqual(
+      fs.readdirSync(path.dirname(getLeaderLockPath())).filter((file) => file.startsWith('leader.lock.')),
+      [],
+    );
+  });
+
+  test('shares fetched stats with the other windows', async () => {
+    const stats = await fetchCursorStats((await getCursorTokenFromDB())!);
+    publishStats({ updatedAt: 1000, stats, usageStatus: { isEnabled: true, limit: 50 }, usageStatusAvailable: true });
+
+    const shared = readSharedStats();
+    assert.strictEqual(shared?.windowId, getWindowId());
+    assert.strictEqual(shared?.updatedAt, 1000);
+    assert.deepStrictEqual(shared?.stats, stats);
+  });
+});
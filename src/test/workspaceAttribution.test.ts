@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { attributeWorkspaceRequests, distributeRequests, getActiveWorkspace } from '../services/workspaceAttribution';
+import { fetchCursorStats } from '../services/api';
+import { getCursorTokenFromDB } from '../services/database';
+import { recordSnapshot } from '../services/history';
+import { formatWorkspaceBreakdown, getWorkspaceBreakdown } from '../handlers/workspaceUsage';
+import { TestEnvironment, setUpTestEnvironment } from './helpers';
+
+suite('Workspace attribution', () => {
+  let env: TestEnvironment;
+
+  suiteSetup(async () => {
+    env = await setUpTestEnvironment();
+  });
+
+  suiteTeardown(async () => {
+    await env.restore();
+  });
+
+  test('splits new requests across workspaces in proportion to the local requests', () => {
+    const localRequests = [
+      { workspace: '/projects/client-a', count: 2 },
+      { workspace: '/projects/client-b', count: 1 },
+    ];
+    assert.deepStrictEqual(distributeRequests(6, localRequests, '/projects/client-a'), {
+      '/projects/client-a': 4,
+      '/projects/client-b': 2,
+    });
+
+    // Rounding never loses or invents a request
+    const shares = distributeRequests(2, [...localRequests, { workspace: '/projects/client-c', count: 1 }], '');
+    assert.strictEqual(Object.values(shares).reduce((sum, requests) => sum + requests, 0), 2);
+  });
+
+  test('gives requests the local data knows nothing about to the active workspace', () => {
+    assert.deepStrictEqual(distributeRequests(3, [], '/projects/client-a'), { '/projects/client-a': 3 });
+    const localRequests = [
+      { workspace: null, count: 1 },
+      { workspace: '/projects/client-b', count: 1 },
+    ];
+    assert.deepStrictEqual(distributeRequests(4, localRequests, '/projects/client-a'), {
+      '/projects/client-a': 2,
+      '/projects/client-b': 2,
+    });
+  });
+
+  test('adds the premium requests used since the last snapshot to the period tally', async () => {
+    const stats = await fetchCursorStats((await getCursorTokenFromDB())!);
+    // A cost no other test records, so the snapshot is not skipped as unchanged
+    recordSnapshot(stats, 987.65, { '/projects/client-a': 5 });
+
+    const later = { ...stats, premiumRequests: { ...stats.premiumRequests, current: stats.premiumRequests.current + 3 } };
+    assert.deepStrictEqual(await attributeWorkspaceRequests(later), {
+      '/projects/client-a': 5,
+      [getActiveWorkspace()]: 3,
+    });
+
+    // A new billing period starts over
+    const nextPeriod = { ...later, premiumRequests: { ...later.premiumRequests, startOfMonth: new Date(2099, 0, 1).toISOString() } };
+    assert.deepStrictEqual(await attributeWorkspaceRequests(nextPeriod), {});
+  });
+
+  test('exports the breakdown with the share of each workspace', () => {
+    const rows = getWorkspaceBreakdown({ '/projects/client, "a"': 3, '/projects/client-b': 1 });
+    assert.strictEqual(
+      formatWorkspaceBreakdown(rows, '2025-06-01T00:00:00.000Z', 'csv'),
+      'workspace,requests,share\n"/projects/client, ""a""",3,75\n/projects/client-b,1,25\n',
+    );
+    assert.deepStrictEqual(JSON.parse(formatWorkspaceBreakdown(rows, '2025-06-01T00:00:00.000Z', 'json')).workspaces[1], {
+      workspace: '/projects/client-b',
+      requests: 1,
+      share: 25,
+    });
+  });
+});
@@ -1,18 +1,28 @@
 import { getRefreshIntervalMs } from '../extension';
 import { updateStats } from '../utils/updateStats';
 import { log } from './logger';
+import { isLeaderWindow } from '../services/windowCoordinator';
 import * as vscode from 'vscode';
 import { t } from './i18n';
+import { RefreshReason, RefreshSchedule } from '../interfaces/types';
+import { RefreshState, computeRefreshDelay, isRetryableError, parseRetryAfter } from './refreshScheduler';
 
 // Private state
 let _countdownInterval: NodeJS.Timeout | null = null;
 let _refreshInterval: NodeJS.Timeout | null = null;
 let _cooldownStartTime: number | null = null;
+let _cooldownDurationMs: number | null = null;
 let _consecutiveErrorCount: number = 0;
 let _isWindowFocused: boolean = true;
 let _statusBarItem: vscode.StatusBarItem | null = null;
+let _lastErrorRetryable: boolean = false;
+let _retryAfterMs: number | null = null;
+let _lastUsageSignature: string | null = null;
+let _unchangedRefreshes: number = 0;
+let _nearLimit: boolean = false;
+let _nextRefresh: RefreshSchedule | null = null;
 
-export const COOLDOWN_DURATION_MS = 10 * 60 * 1000; // 10 minutes
+export const COOLDOWN_DURATION_MS = 10 * 60 * 1000; // 10 minutes, unless a backoff asks for another duration
 
 // Getters
 export const getCountdownInterval = () => _countdownInterval;
@@ -21,6 +31,8 @@ export const getCooldownStartTime = () => _cooldownStartTime;
 export const getConsecutiveErrorCount = () => _consecutiveErrorCount;
 export const getIsWindowFocused = () => _isWindowFocused;
 export const getStatusBarItem = () => _statusBarItem;
+// Null while no refresh is scheduled, e.g. in unfocused windows
+export const getNextRefresh = () => _nextRefresh;
 
 // Setters
 export const setCountdownInterval = (interval: NodeJS.Timeout | null) => {
@@ -33,6 +45,9 @@ export const setRefreshInterval = (interval: NodeJS.Timeout | null) => {
 
 export const setCooldownStartTime = (time: number | null) => {
   _cooldownStartTime = time;
+  if (!time) {
+    _cooldownDurationMs = null;
+  }
 };
 
 export const setConsecutiveErrorCount = (count: number) => {
@@ -70,21 +85,25 @@ export function startCountdownDisplay() {
 
   const updateCountdown = () => {
     if (!_cooldownStartTime || !_statusBarItem) {
+      // Nothing to count down, e.g. because a refresh succeeded during the cooldown
+      if (_countdownInterval) {
+        clearInterval(_countdownInterval);
+        _countdownInterval = null;
+      }
       return;
     }
 
     const now = Date.now();
     const elapsed = now - _cooldownStartTime;
-    const remaining = COOLDOWN_DURATION_MS - elapsed;
+    const remaining = (_cooldownDurationMs ?? COOLDOWN_DURATION_MS) - elapsed;
 
     if (remaining <= 0) {
-      // Cooldown finished
+      // Cooldown finished. The error count stays until a refresh succeeds, so failing again backs off longer.
       if (_countdownInterval) {
         clearInterval(_countdownInterval);
         _countdownInterval = null;
       }
-      _cooldownStartTime = null;
-      _consecutiveErrorCount = 0;
+      setCooldownStartTime(null);
       startRefreshInterval(); // Resume normal operation
       if (_statusBarItem) {
         updateStats(_statusBarItem); // Try updating immediately
@@ -106,34 +125,113 @@ export function startCountdownDisplay() {
   log(`[Cooldown] Started countdown timer at ${new Date().toISOString()}`);
 }
 
+/**
+ * Waits out a backoff, showing the remaining time in the status bar instead of polling
+ */
+export function startCooldown(durationMs: number, reason: RefreshReason = 'backoff') {
+  if (_refreshInterval) {
+    clearTimeout(_refreshInterval);
+    _refreshInterval = null;
+  }
+  _cooldownStartTime = Date.now();
+  _cooldownDurationMs = durationMs;
+  _nextRefresh = { nextRefreshAt: _cooldownStartTime + durationMs, reason };
+  log(`[Cooldown] Backing off for ${formatCountdown(durationMs)}`);
+
+  if (_isWindowFocused) {
+    startCountdownDisplay();
+  }
+}
+
+/**
+ * Records a successful refresh. The signature changes whenever the usage changes,
+ * refreshes that keep finding the same usage slow polling down.
+ */
+export function recordRefreshSuccess(usageSignature: string, nearLimit: boolean) {
+  _unchangedRefreshes = usageSignature === _lastUsageSignature ? _unchangedRefreshes + 1 : 0;
+  _lastUsageSignature = usageSignature;
+  _nearLimit = nearLimit;
+  _lastErrorRetryable = false;
+  _retryAfterMs = null;
+  startRefreshInterval();
+}
+
+/**
+ * Records a failed refresh, backing off on rate limits, server and network errors.
+ * Expects the consecutive error count to include this failure.
+ */
+export function recordRefreshFailure(error: any) {
+  _lastErrorRetryable = isRetryableError(error);
+  _retryAfterMs = parseRetryAfter(error?.response?.headers?.['retry-after']);
+  if (!_lastErrorRetryable) {
+    startRefreshInterval();
+    return;
+  }
+
+  const { delayMs, reason } = computeRefreshDelay(getRefreshState(), getRefreshIntervalMs());
+  startCooldown(delayMs, reason);
+}
+
+function getRefreshState(): RefreshState {
+  return {
+    consecutiveErrors: _consecutiveErrorCount,
+    lastErrorRetryable: _lastErrorRetryable,
+    retryAfterMs: _retryAfterMs,
+    unchangedRefreshes: _unchangedRefreshes,
+    nearLimit: _nearLimit,
+  };
+}
+
 export function startRefreshInterval() {
-  // Clear any existing interval
+  // Clear any pending refresh
   if (_refreshInterval) {
-    clearInterval(_refreshInterval);
+    clearTimeout(_refreshInterval);
     _refreshInterval = null;
   }
 
-  // Don't start interval if in cooldown or window not focused
+  // Don't schedule a refresh if in cooldown or window not focused
   if (_cooldownStartTime || !_isWindowFocused) {
     log(
       `[Refresh] Refresh interval not started: ${_cooldownStartTime ? 'in cooldown' : 'window not focused'}`,
     );
+    if (!_cooldownStartTime) {
+      _nextRefresh = null;
+    }
     return;
   }
 
-  // Start new interval
-  const intervalMs = getRefreshIntervalMs();
-  log(`[Refresh] Starting refresh interval: ${intervalMs}ms`);
+  // Every refresh schedules the next one, so the delay can follow the API and the usage
+  const { delayMs, reason } = computeRefreshDelay(getRefreshState(), getRefreshIntervalMs());
+  _nextRefresh = { nextRefreshAt: Date.now() + delayMs, reason };
+  log(`[Refresh] Next refresh in ${delayMs}ms (${reason})`);
   if (_statusBarItem) {
-    _refreshInterval = setInterval(() => {
-      if (!_cooldownStartTime) {
-        // Double-check we're not in cooldown
-        updateStats(_statusBarItem!);
+    _refreshInterval = setTimeout(async () => {
+      _refreshInterval = null;
+      // Double-check we're not in cooldown. Only one window polls, the others render what it shares.
+      if (!_cooldownStartTime && isLeaderWindow()) {
+        await updateStats(_statusBarItem!);
+      }
+      // A refresh that succeeded or failed has already scheduled the next one
+      if (!_refreshInterval && !_cooldownStartTime) {
+        startRefreshInterval();
       }
-    }, intervalMs);
+    }, delayMs);
   }
 }
 
+/**
+ * Refreshes right away after new activity, unless backing off or another window polls.
+ * The next timed refresh is scheduled from there, so the timer only catches what the
+ * activity detection misses.
+ */
+export function refreshAfterActivity() {
+  if (_cooldownStartTime || !_statusBarItem || !isLeaderWindow()) {
+    return;
+  }
+  log('[Refresh] Refreshing after activity');
+  updateStats(_statusBarItem);
+}
+
 // Cleanup function
 export function clearAllIntervals() {
   if (_countdownInterval) {
@@ -141,7 +239,10 @@ export function clearAllIntervals() {
     _countdownInterval = null;
   }
   if (_refreshInterval) {
-    clearInterval(_refreshInterval);
+    clearTimeout(_refreshInterval);
     _refreshInterval = null;
   }
+  if (!_cooldownStartTime) {
+    _nextRefresh = null;
+  }
 }
@@ -0,0 +1,13 @@
+import { ModelPattern } from '../interfaces/types';
+
+// Built-in model patterns, checked after the ones from the cursorStats.modelPatterns setting.
+// They match model name prefixes rather than exact versions so new releases are recognised without an update.
+export const DEFAULT_MODEL_PATTERNS: ModelPattern[] = [
+  { pattern: '\\b(claude-[\\w.-]*\\w)', family: 'Claude' },
+  { pattern: '\\b(gpt-[\\w.-]*\\w)', family: 'GPT' },
+  { pattern: '\\b(o\\d(?:-[a-z]+)*)\\b', family: 'OpenAI o-series' },
+  { pattern: '\\b(gemini-[\\w.-]*\\w)', family: 'Gemini' },
+  { pattern: '\\b(grok-[\\w.-]*\\w)', family: 'Grok' },
+  { pattern: '\\b(deepseek-[\\w.-]*\\w)', family: 'DeepSeek' },
+  { pattern: '\\b(cursor-small)\\b', family: 'Cursor' },
+];
@@ -0,0 +1,25 @@
+type ExportValue = string | number | boolean;
+
+function escapeCsvField(value: ExportValue): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats rows as CSV with a header line, quoting fields where needed
+ */
+export function toCsv(headers: string[], rows: ExportValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvField).join(',')).join('\n') + '\n';
+}
+
+function escapeMarkdownCell(value: ExportValue): string {
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Formats rows as a GitHub flavored Markdown table
+ */
+export function toMarkdownTable(headers: string[], rows: ExportValue[][]): string {
+  const line = (row: ExportValue[]) => `| ${row.map(escapeMarkdownCell).join(' | ')} |`;
+  return [line(headers), line(headers.map(() => '---')), ...rows.map(line)].join('\n') + '\n';
+}
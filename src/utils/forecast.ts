@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import {
+  ForecastProjection,
+  TooltipPeriod,
+  UsageForecast,
+  UsageProjection,
+  UsageSnapshot,
+} from '../interfaces/types';
+import { getSnapshots } from '../services/history';
+import { log } from './logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// History window used for the recent-rate model
+export const RECENT_RATE_WINDOW_DAYS = 7;
+
+// Less history than this (in counted days) is too noisy for a recent rate
+const MIN_RECENT_RATE_SPAN_DAYS = 0.25;
+
+interface UsagePoint {
+  timestamp: number;
+  value: number;
+}
+
+function isWeekendDay(date: Date): boolean {
+  return date.getDay() === 0 || date.getDay() === 6;
+}
+
+function getNextMidnight(timestamp: number): number {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+}
+
+/**
+ * Counts the (fractional) days between two timestamps, leaving out Saturdays and
+ * Sundays when excludeWeekends is set
+ */
+export function countDays(from: number, to: number, excludeWeekends: boolean): number {
+  if (to <= from) {
+    return 0;
+  }
+  if (!excludeWeekends) {
+    return (to - from) / DAY_MS;
+  }
+
+  let days = 0;
+  for (let cursor = from; cursor < to; ) {
+    const segmentEnd = Math.min(getNextMidnight(cursor), to);
+    if (!isWeekendDay(new Date(cursor))) {
+      days += (segmentEnd - cursor) / DAY_MS;
+    }
+    cursor = segmentEnd;
+  }
+  return days;
+}
+
+/**
+ * Returns the timestamp after the given number of counted days. Callers must make
+ * sure the result lies within a bounded range.
+ */
+function addDays(from: number, days: number, excludeWeekends: boolean): number {
+  if (!excludeWeekends) {
+    return from + days * DAY_MS;
+  }
+
+  let remaining = days;
+  let cursor = from;
+  while (true) {
+    const nextMidnight = getNextMidnight(cursor);
+    if (!isWeekendDay(new Date(cursor))) {
+      const available = (nextMidnight - cursor) / DAY_MS;
+      if (remaining <= available) {
+        return cursor + remaining * DAY_MS;
+      }
+      remaining -= available;
+    }
+    cursor = nextMidnight;
+  }
+}
+
+function project(
+  current: number,
+  ratePerDay: number,
+  limit: number | undefined,
+  period: TooltipPeriod,
+  now: number,
+  excludeWeekends: boolean,
+): ForecastProjection {
+  const periodEnd = new Date(period.end).getTime();
+  const remainingDays = countDays(now, periodEnd, excludeWeekends);
+  const projection: ForecastProjection = {
+    ratePerDay,
+    projectedTotal: current + ratePerDay * remainingDays,
+  };
+
+  if (limit !== undefined && limit > 0) {
+    if (current >= limit) {
+      projection.exhaustionDate = new Date(now).toISOString();
+    } else if (ratePerDay > 0) {
+      const daysUntilLimit = (limit - current) / ratePerDay;
+      if (daysUntilLimit <= remainingDays) {
+        projection.exhaustionDate = new Date(addDays(now, daysUntilLimit, excludeWeekends)).toISOString();
+      }
+    }
+  }
+  return projection;
+}
+
+/**
+ * Projects a usage value to the end of the period, both at the average rate since
+ * the period started and at the rate seen in the recent history.
+ */
+export function projectUsage(
+  current: number,
+  limit: number | undefined,
+  period: TooltipPeriod,
+  history: UsagePoint[],
+  excludeWeekends: boolean,
+  now: number = Date.now(),
+): UsageProjection {
+  const elapsedDays = countDays(new Date(period.start).getTime(), now, excludeWeekends);
+  const linearRate = elapsedDays > 0 ? current / elapsedDays : 0;
+
+  let recentRate: ForecastProjection | null = null;
+  const windowStart = now - RECENT_RATE_WINDOW_DAYS * DAY_MS;
+  const baseline = history.find((point) => point.timestamp >= windowStart && point.timestamp < now);
+  if (baseline) {
+    const spanDays = countDays(baseline.timestamp, now, excludeWeekends);
+    if (spanDays >= MIN_RECENT_RATE_SPAN_DAYS) {
+      const rate = Math.max(0, current - baseline.value) / spanDays;
+      recentRate = project(current, rate, limit, period, now, excludeWeekends);
+    }
+  }
+
+  return {
+    current,
+    limit,
+    linear: project(current, linearRate, limit, period, now, excludeWeekends),
+    recentRate,
+  };
+}
+
+/**
+ * Returns the projection to act on, preferring the recent rate when there is
+ * enough history for it
+ */
+export function getPreferredProjection(projection: UsageProjection): ForecastProjection {
+  return projection.recentRate ?? projection.linear;
+}
+
+/**
+ * Builds the forecast for the current billing period from the latest stats and
+ * the stored usage history
+ */
+export function createUsageForecast(
+  premium: { current: number; limit: number; startOfMonth: string },
+  usageBased: { costDollars: number; limitDollars?: number } | null,
+  period: TooltipPeriod,
+  now: number = Date.now(),
+): UsageForecast {
+  const excludeWeekends = vscode.workspace
+    .getConfiguration('cursorStats')
+    .get<boolean>('excludeWeekends', false);
+
+  let snapshots: UsageSnapshot[] = [];
+  try {
+    snapshots = getSnapshots({ startOfMonth: premium.startOfMonth });
+  } catch (error: any) {
+    log(`[Forecast] Could not read usage history, using the linear model only: ${error.message}`, true);
+  }
+
+  const forecast: UsageForecast = {
+    period,
+    excludeWeekends,
+    premium: projectUsage(
+      premium.current,
+      premium.limit,
+      period,
+      snapshots.map((snapshot) => ({ timestamp: snapshot.timestamp, value: snapshot.premiumRequests.current })),
+      excludeWeekends,
+      now,
+    ),
+    usageBased: usageBased
+      ? projectUsage(
+          usageBased.costDollars,
+          usageBased.limitDollars,
+          period,
+          snapshots.map((snapshot) => ({ timestamp: snapshot.timestamp, value: snapshot.usageBasedCostDollars })),
+          excludeWeekends,
+          now,
+        )
+      : null,
+  };
+
+  const usageBasedForecast = forecast.usageBased ? getPreferredProjection(forecast.usageBased) : null;
+  log(
+    `[Forecast] Premium exhaustion: ${getPreferredProjection(forecast.premium).exhaustionDate ?? 'not within period'}` +
+      (usageBasedForecast ? `, projected usage-based spend: $${usageBasedForecast.projectedTotal.toFixed(2)}` : ''),
+  );
+  return forecast;
+}
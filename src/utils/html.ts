@@ -0,0 +1,16 @@
+import * as crypto from 'crypto';
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Returns a random value for the script nonce of a webview's Content-Security-Policy
+ */
+export function getNonce(): string {
+  return crypto.randomBytes(16).toString('base64');
+}
@@ -0,0 +1,118 @@
+import { InvoiceItemKind, ParsedInvoiceItem, ResolvedModel } from '../interfaces/types';
+import { ModelNameResolver, resolveDefaultModelName } from './modelPatterns';
+
+export interface InvoicePattern {
+  // Identifies the pattern in parsed items and logs
+  name: string;
+  kind: InvoiceItemKind;
+  regex: RegExp;
+  // Extracts the call count and model from a successful match
+  parse: (match: RegExpMatchArray, resolveModel: ModelNameResolver) => { count: number; model?: ResolvedModel };
+}
+
+const countOnly = (match: RegExpMatchArray) => ({ count: parseInt(match[1]) });
+
+const countAndModel = (match: RegExpMatchArray, resolveModel: ModelNameResolver) => ({
+  count: parseInt(match[1]),
+  model: resolveModel(match.input || ''),
+});
+
+// Checked in order, the first matching pattern wins
+const invoicePatterns: InvoicePattern[] = [
+  {
+    name: 'midMonthPayment',
+    kind: 'midMonthPayment',
+    regex: /Mid-month usage paid/i,
+    parse: () => ({ count: 0 }),
+  },
+  {
+    // "152 token-based usage calls to claude-4-sonnet-thinking, totalling: $6.08"
+    name: 'tokenBased',
+    kind: 'token',
+    regex: /^(\d+) token-based usage calls to ([\w.-]+), totalling: \$(?:[\d.]+)/,
+    parse: (match, resolveModel) => ({
+      count: parseInt(match[1]),
+      model: resolveModel(match[2]) || { name: match[2] },
+    }),
+  },
+  {
+    // "45 discounted claude-3.7-sonnet requests"
+    name: 'discounted',
+    kind: 'discounted',
+    regex: /^(\d+)\s+discounted\s/i,
+    parse: countAndModel,
+  },
+  {
+    // "30 premium tool calls*"
+    name: 'toolCalls',
+    kind: 'toolCall',
+    regex: /^(\d+)\s.*\btool calls\b/i,
+    parse: countOnly,
+  },
+  {
+    // "8 extra fast premium requests (Haiku)"
+    name: 'extraFastPremium',
+    kind: 'request',
+    regex: /^(\d+)\s+extra fast premium requests?(?: \(([^)]+)\))?/i,
+    parse: (match, resolveModel) => ({
+      count: parseInt(match[1]),
+      model: resolveModel(match.input || '') || (match[2] ? { name: match[2] } : undefined),
+    }),
+  },
+  {
+    // "5 o1 requests * 40 cents per such request"
+    name: 'request',
+    kind: 'request',
+    regex: /^(\d+)\s+(.+?)(?: request| calls)?(?: beyond|\*| per|$)/i,
+    parse: countAndModel,
+  },
+  {
+    // Anything else that at least starts with a count
+    name: 'countOnly',
+    kind: 'request',
+    regex: /^(\d+)/,
+    parse: countOnly,
+  },
+];
+
+/**
+ * Adds a pattern to the registry. New patterns are checked before the built-in
+ * ones unless an explicit position is given.
+ */
+export function registerInvoicePattern(pattern: InvoicePattern, position: number = 0): void {
+  invoicePatterns.splice(position, 0, pattern);
+}
+
+export function getInvoicePatterns(): readonly InvoicePattern[] {
+  return invoicePatterns;
+}
+
+/**
+ * Parses a single invoice line item description.
+ * Returns null when no pattern recognises the description.
+ */
+export function parseInvoiceItem(
+  description: string,
+  cents: number,
+  resolveModel: ModelNameResolver = resolveDefaultModelName,
+): ParsedInvoiceItem | null {
+  for (const pattern of invoicePatterns) {
+    const match = description.match(pattern.regex);
+    if (!match) {
+      continue;
+    }
+
+    const { count, model } = pattern.parse(match, resolveModel);
+    return {
+      description,
+      count,
+      model: model?.name,
+      family: model?.family,
+      unitCents: count > 0 ? cents / count : 0,
+      totalCents: cents,
+      kind: pattern.kind,
+      pattern: pattern.name,
+    };
+  }
+  return null;
+}
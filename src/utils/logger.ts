@@ -20,8 +20,10 @@ export function log(message: string, data?: any, error: boolean = false): void {
   const config = vscode.workspace.getConfiguration('cursorStats');
   const loggingEnabled = config.get<boolean>('enableLogging', false);
 
+  // Audit entries record changes made on the user's behalf and are always kept
   const shouldLog =
     error ||
+    message.includes('[Audit]') ||
     (loggingEnabled &&
       (message.includes('[Initialization]') ||
         message.includes('[Status Bar]') ||
@@ -40,7 +42,17 @@ export function log(message: string, data?: any, error: boolean = false): void {
         message.includes('[Team]') ||
         message.includes('[Cooldown]') ||
         message.includes('[Currency]') ||
-        message.includes('[Report]')));
+        message.includes('[Report]') ||
+        message.includes('[History]') ||
+        message.includes('[Dashboard]') ||
+        message.includes('[TeamSpend]') ||
+        message.includes('[Forecast]') ||
+        message.includes('[Window]') ||
+        message.includes('[Activity]') ||
+        message.includes('[Billing]') ||
+        message.includes('[Guardrail]') ||
+        message.includes('[Policy]') ||
+        message.includes('[Models]')));
 
   if (shouldLog) {
     safeLog(message, data, error);
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { ModelPattern, ResolvedModel } from '../interfaces/types';
+import { DEFAULT_MODEL_PATTERNS } from './defaultModelPatterns';
+import { log } from './logger';
+
+/**
+ * Returns the model mentioned in an invoice description, if any
+ */
+export type ModelNameResolver = (description: string) => ResolvedModel | undefined;
+
+interface CompiledModelPattern {
+  regex: RegExp;
+  displayName?: string;
+  family: string;
+}
+
+// Resolver for the last seen cursorStats.modelPatterns value, so patterns are only compiled when the setting changes
+let cachedResolver: { key: string; resolve: ModelNameResolver } | null = null;
+
+function compileModelPatterns(patterns: ModelPattern[]): CompiledModelPattern[] {
+  const compiled: CompiledModelPattern[] = [];
+  for (const { pattern, displayName, family } of patterns) {
+    if (typeof pattern !== 'string' || !pattern || typeof family !== 'string' || !family) {
+      log(`[Models] Skipping model pattern without a pattern or family: ${JSON.stringify({ pattern, family })}`, true);
+      continue;
+    }
+    try {
+      compiled.push({ regex: new RegExp(pattern, 'i'), displayName, family });
+    } catch (error: any) {
+      log(`[Models] Skipping invalid model pattern "${pattern}": ${error.message}`, true);
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Creates a resolver that checks the given patterns in order. The first matching
+ * pattern wins.
+ */
+export function createModelResolver(patterns: ModelPattern[]): ModelNameResolver {
+  const compiled = compileModelPatterns(patterns);
+  return (description) => {
+    for (const { regex, displayName, family } of compiled) {
+      const match = description.match(regex);
+      if (match) {
+        return { name: displayName || match[1] || match[0], family };
+      }
+    }
+    return undefined;
+  };
+}
+
+export const resolveDefaultModelName: ModelNameResolver = createModelResolver(DEFAULT_MODEL_PATTERNS);
+
+/**
+ * Returns a resolver for the patterns from the cursorStats.modelPatterns setting,
+ * followed by the built-in ones.
+ */
+export function getModelResolver(): ModelNameResolver {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  const userPatterns = config.get<ModelPattern[]>('modelPatterns', []);
+  if (!Array.isArray(userPatterns) || userPatterns.length === 0) {
+    return resolveDefaultModelName;
+  }
+
+  const key = JSON.stringify(userPatterns);
+  if (cachedResolver?.key !== key) {
+    log(`[Models] Using ${userPatterns.length} custom model pattern(s) from settings`);
+    cachedResolver = { key, resolve: createModelResolver([...userPatterns, ...DEFAULT_MODEL_PATTERNS]) };
+  }
+  return cachedResolver.resolve;
+}
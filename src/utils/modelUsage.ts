@@ -0,0 +1,34 @@
+import { ModelFamilyUsage, UsageItem } from '../interfaces/types';
+
+/**
+ * Sums requests and costs of invoice items per model family, most expensive family first.
+ * Credits such as mid-month payments are left out.
+ */
+export function aggregateByModelFamily(items: UsageItem[]): ModelFamilyUsage[] {
+  const totals = new Map<string | null, { requestCount: number; costDollars: number }>();
+
+  for (const item of items) {
+    const costDollars = parseFloat(item.totalDollars.replace('$', ''));
+    if (!item.requestCount || !(costDollars >= 0)) {
+      continue;
+    }
+
+    const family = item.modelFamily ?? null;
+    const total = totals.get(family) || { requestCount: 0, costDollars: 0 };
+    total.requestCount += item.requestCount;
+    total.costDollars += costDollars;
+    totals.set(family, total);
+  }
+
+  const totalCostDollars = Array.from(totals.values()).reduce((sum, total) => sum + total.costDollars, 0);
+
+  return Array.from(totals.entries())
+    .map(([family, { requestCount, costDollars }]) => ({
+      family,
+      requestCount,
+      costDollars,
+      averageCostDollars: costDollars / requestCount,
+      shareOfSpend: totalCostDollars > 0 ? (costDollars / totalCostDollars) * 100 : 0,
+    }))
+    .sort((a, b) => b.costDollars - a.costDollars || b.requestCount - a.requestCount);
+}
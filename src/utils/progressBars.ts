@@ -93,7 +93,10 @@ export function createPeriodProgressBar(
     let start: Date;
     let end: Date;
 
-    if (startDate.includes('-')) {
+    // ISO dates such as "2025-04-17T00:00:00.000Z" contain '-' too
+    const isIsoDate = /^\d{4}-\d{2}-\d{2}/.test(startDate);
+
+    if (!isIsoDate && startDate.includes('-')) {
       // Parse date range in format like "17 April - 17 May"
       const [startStr, endStr] = startDate.split('-').map((s) => s.trim());
 
@@ -0,0 +1,94 @@
+import { RefreshReason } from '../interfaces/types';
+
+export const MIN_REFRESH_INTERVAL_MS = 5 * 1000;
+export const MAX_BACKOFF_MS = 10 * 60 * 1000;
+// Cursor asking for more than an hour is more likely a bad header than a real limit
+export const MAX_RETRY_AFTER_MS = 60 * 60 * 1000;
+// Every this many unchanged refreshes in a row double the interval, up to MAX_IDLE_FACTOR
+export const IDLE_REFRESH_STEP = 5;
+export const MAX_IDLE_FACTOR = 8;
+export const NEAR_LIMIT_PERCENT = 90;
+
+export interface RefreshState {
+  // Refreshes in a row that failed
+  consecutiveErrors: number;
+  // Whether the last failure was a rate limit, server or network error worth backing off from
+  lastErrorRetryable: boolean;
+  // Delay the API asked for with Retry-After on the last failure
+  retryAfterMs: number | null;
+  // Successful refreshes in a row that found the usage unchanged
+  unchangedRefreshes: number;
+  nearLimit: boolean;
+}
+
+export interface RefreshDelay {
+  delayMs: number;
+  reason: RefreshReason;
+}
+
+/**
+ * Whether a failed refresh should back off: rate limits, server errors and requests
+ * that never got a response. Authentication errors keep the regular interval.
+ */
+export function isRetryableError(error: any): boolean {
+  const status = error?.response?.status;
+  if (status === undefined) {
+    return !!error?.isAxiosError;
+  }
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  const delayMs = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) * 1000 : Date.parse(trimmed) - now;
+  if (isNaN(delayMs)) {
+    return null;
+  }
+  return Math.min(Math.max(delayMs, 0), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Decides how long to wait before the next refresh. Failures back off exponentially
+ * with jitter so several clients don't retry in lockstep, Retry-After wins over
+ * the backoff, and successful refreshes poll faster near a limit and slower while
+ * the usage doesn't change.
+ */
+export function computeRefreshDelay(
+  state: RefreshState,
+  baseIntervalMs: number,
+  random: () => number = Math.random,
+): RefreshDelay {
+  if (state.consecutiveErrors > 0 && state.lastErrorRetryable) {
+    if (state.retryAfterMs !== null) {
+      return { delayMs: Math.max(state.retryAfterMs, MIN_REFRESH_INTERVAL_MS), reason: 'retryAfter' };
+    }
+    const backoffMs = Math.min(baseIntervalMs * 2 ** state.consecutiveErrors, MAX_BACKOFF_MS);
+    // Equal jitter: wait at least half the backoff, the rest is random
+    return { delayMs: Math.round(backoffMs / 2 + (random() * backoffMs) / 2), reason: 'backoff' };
+  }
+
+  if (state.consecutiveErrors === 0 && state.nearLimit) {
+    return { delayMs: Math.max(baseIntervalMs / 2, MIN_REFRESH_INTERVAL_MS), reason: 'nearLimit' };
+  }
+
+  if (state.consecutiveErrors === 0 && state.unchangedRefreshes >= IDLE_REFRESH_STEP) {
+    const factor = Math.min(2 ** Math.floor(state.unchangedRefreshes / IDLE_REFRESH_STEP), MAX_IDLE_FACTOR);
+    return { delayMs: baseIntervalMs * factor, reason: 'idle' };
+  }
+
+  return { delayMs: baseIntervalMs, reason: 'normal' };
+}
+
+/**
+ * Whether any of the usage percentages is close to, but not yet at, its limit
+ */
+export function isNearLimit(percentages: number[]): boolean {
+  return percentages.some((percentage) => percentage >= NEAR_LIMIT_PERCENT && percentage < 100);
+}
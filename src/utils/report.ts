@@ -2,12 +2,14 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import axios from 'axios';
-import { CursorReport, CursorUsageResponse } from '../interfaces/types';
+import { CursorReport } from '../interfaces/types';
 import { fetchCursorStats, getCurrentUsageLimit } from '../services/api';
 import { getCursorTokenFromDB } from '../services/database';
 import { log, getLogHistory } from './logger';
 import { getTeamSpend, checkTeamMembership } from '../services/team';
+import { getCursorApiClient } from '../services/client';
+import { getHistorySummary, getDailySnapshots } from '../services/history';
+import { aggregateByModelFamily } from './modelUsage';
 import { getExtensionContext } from '../extension';
 import { t } from './i18n';
 
@@ -31,6 +33,9 @@ export async function generateReport(): Promise<{ reportPath: string; success: b
         premiumUsage: null,
         teamInfo: null,
         teamSpend: null,
+        history: null,
+        apiCache: null,
+        modelFamilies: null,
         rawResponses: {},
         logs: getLogHistory().reverse(),
         errors: {}
@@ -45,9 +50,17 @@ export async function generateReport(): Promise<{ reportPath: string; success: b
             return saveReport(report, context);
         }
         
-        // Extract user ID from token
-        const userId = token.split('%3A%3A')[0];
-        
+        // Include the locally stored usage history (last 30 days, one entry per day)
+        try {
+            report.history = {
+                summary: getHistorySummary(),
+                daily: getDailySnapshots({ since: Date.now() - 30 * 24 * 60 * 60 * 1000 })
+            };
+        } catch (error: any) {
+            report.errors.history = `Error reading usage history: ${error.message}`;
+            log('[Report] Error reading usage history: ' + error.message, true);
+        }
+
         // Get current date for usage-based pricing (which renews on 2nd/3rd of each month)
         const currentDate = new Date();
         const usageBasedBillingDay = 3; // Assuming it's the 3rd day of the month
@@ -93,15 +106,10 @@ export async function generateReport(): Promise<{ reportPath: string; success: b
                 }),
             
             // Get premium usage directly
-            axios.get<CursorUsageResponse>('https://cursor.com/api/usage', {
-                params: { user: userId },
-                headers: { 
-                    Cookie: `WorkosCursorSessionToken=${token}` 
-                }
-            })
-                .then(response => {
-                    report.premiumUsage = response.data;
-                    report.rawResponses.premiumUsage = response.data;
+            getCursorApiClient().getUsage(token)
+                .then(usageData => {
+                    report.premiumUsage = usageData;
+                    report.rawResponses.premiumUsage = usageData;
                     log('[Report] Successfully fetched premium usage data');
                 })
                 .catch(error => {
@@ -115,7 +123,9 @@ export async function generateReport(): Promise<{ reportPath: string; success: b
                     report.teamInfo = {
                         isTeamMember: teamInfo.isTeamMember,
                         teamId: teamInfo.teamId,
-                        userId: teamInfo.userId
+                        teamName: teamInfo.teamName,
+                        userId: teamInfo.userId,
+                        teamCount: teamInfo.teams.length
                     };
                     report.rawResponses.teamInfo = teamInfo;
                     log('[Report] Successfully fetched team membership info');
@@ -142,31 +152,12 @@ export async function generateReport(): Promise<{ reportPath: string; success: b
                 }),
 
             // Get current month invoice data
-            axios.post('https://cursor.com/api/dashboard/get-monthly-invoice', {
-                month: usageBasedCurrentMonth,
-                year: usageBasedCurrentYear,
-                includeUsageEvents: false
-            }, {
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Cookie': `WorkosCursorSessionToken=${token}`,
-                    'Origin': 'https://cursor.com',
-                    'Referer': 'https://cursor.com/dashboard',
-                    'Sec-Fetch-Site': 'same-origin',
-                    'Sec-Fetch-Mode': 'cors',
-                    'Sec-Fetch-Dest': 'empty',
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                    'Accept': '*/*',
-                    'Accept-Language': 'en',
-                    'Cache-Control': 'no-cache',
-                    'Pragma': 'no-cache'
-                }
-            })
-                .then(response => {
+            getCursorApiClient().getMonthlyInvoice(token, usageBasedCurrentMonth, usageBasedCurrentYear)
+                .then(invoice => {
                     if (!report.rawResponses.monthlyInvoice) {
                         report.rawResponses.monthlyInvoice = {};
                     }
-                    report.rawResponses.monthlyInvoice.current = response.data;
+                    report.rawResponses.monthlyInvoice.current = invoice;
                     log('[Report] Successfully fetched current month invoice data');
                 })
                 .catch(error => {
@@ -175,31 +166,12 @@ export async function generateReport(): Promise<{ reportPath: string; success: b
                 }),
 
             // Get last month invoice data
-            axios.post('https://cursor.com/api/dashboard/get-monthly-invoice', {
-                month: usageBasedLastMonth,
-                year: usageBasedLastYear,
-                includeUsageEvents: false
-            }, {
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Cookie': `WorkosCursorSessionToken=${token}`,
-                    'Origin': 'https://cursor.com',
-                    'Referer': 'https://cursor.com/dashboard',
-                    'Sec-Fetch-Site': 'same-origin',
-                    'Sec-Fetch-Mode': 'cors',
-                    'Sec-Fetch-Dest': 'empty',
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                    'Accept': '*/*',
-                    'Accept-Language': 'en',
-                    'Cache-Control': 'no-cache',
-                    'Pragma': 'no-cache'
-                }
-            })
-                .then(response => {
+            getCursorApiClient().getMonthlyInvoice(token, usageBasedLastMonth, usageBasedLastYear)
+                .then(invoice => {
                     if (!report.rawResponses.monthlyInvoice) {
                         report.rawResponses.monthlyInvoice = {};
                     }
-                    report.rawResponses.monthlyInvoice.last = response.data;
+                    report.rawResponses.monthlyInvoice.last = invoice;
                     log('[Report] Successfully fetched last month invoice data');
                 })
                 .catch(error => {
@@ -209,6 +181,18 @@ export async function generateReport(): Promise<{ reportPath: string; success: b
         ]);
         
         log('[Report] All data collection tasks completed');
+
+        // Include request cache counters to show how many API calls were saved
+        report.apiCache = getCursorApiClient().getCacheStats();
+
+        if (report.cursorStats) {
+            const { currentMonth, lastMonth } = report.cursorStats;
+            report.modelFamilies = {
+                currentMonth: aggregateByModelFamily(currentMonth.usageBasedPricing.items),
+                lastMonth: aggregateByModelFamily(lastMonth.usageBasedPricing.items),
+                combined: aggregateByModelFamily([...currentMonth.usageBasedPricing.items, ...lastMonth.usageBasedPricing.items])
+            };
+        }
         
         // Update logs with final entries
         report.logs = getLogHistory().reverse();
@@ -1,40 +1,126 @@
 import { log } from './logger';
 import { getCursorTokenFromDB } from '../services/database';
 import { checkUsageBasedStatus, fetchCursorStats } from '../services/api';
-import { checkAndNotifyUsage, checkAndNotifySpending, checkAndNotifyUnpaidInvoice } from '../handlers/notifications';
+import { getCursorApiClient } from '../services/client';
+import { checkAndNotifyUsage, checkAndNotifySpending, checkAndNotifyUnpaidInvoice, checkAndNotifyProjectedSpend, checkAndNotifyTeamSpend } from '../handlers/notifications';
+import { checkSpendingCap, getSpendingCapSettings } from '../handlers/guardrail';
+import { applyLimitPolicies } from '../services/limitPolicy';
 import { 
     startRefreshInterval,
     getCooldownStartTime,
     getConsecutiveErrorCount,
     incrementConsecutiveErrorCount,
     setCooldownStartTime,
-    resetConsecutiveErrorCount
+    resetConsecutiveErrorCount,
+    recordRefreshSuccess,
+    recordRefreshFailure,
+    getNextRefresh
 } from './cooldown';
-import { createMarkdownTooltip, formatTooltipLine, getMaxLineWidth, getStatusBarColor, createSeparator } from '../handlers/statusBar';
+import { getStatusBarColor } from '../handlers/statusBar';
+import { renderTooltip, renderErrorTooltip } from '../handlers/tooltip';
 import * as vscode from 'vscode';
-import { convertAndFormatCurrency, getCurrentCurrency } from './currency';
+import { convertAndFormatCurrency } from './currency';
+import { SharedStats, TooltipModel, TooltipPeriod, TooltipUsageItem, UsageItem } from '../interfaces/types';
 import { t } from './i18n';
-import axios from 'axios';
-import { CursorUsageResponse } from '../interfaces/types';
+import { recordSnapshot } from '../services/history';
+import { aggregateByModelFamily } from './modelUsage';
+import { createUsageForecast } from './forecast';
+import { updateDashboard } from '../handlers/dashboard';
+import { isLeaderWindow, publishStats, readSharedStats } from '../services/windowCoordinator';
+import { getRefreshIntervalMs } from '../extension';
+import { isNearLimit } from './refreshScheduler';
+import { attributeWorkspaceRequests, getActiveWorkspace } from '../services/workspaceAttribution';
+import * as path from 'path';
 
 // Track unknown models to avoid repeated notifications
 let unknownModelNotificationShown = false;
 let detectedUnknownModels: Set<string> = new Set();
+// Kept to show the backoff in the tooltip after a failed refresh
+let lastTooltipModel: TooltipModel | null = null;
+
+/**
+ * Collects a hint for the unknown model notification when api.ts could not determine an item's model
+ */
+function trackUnknownModel(item: UsageItem): void {
+    if (item.modelNameForTooltip !== "unknown-model" || !item.description) {
+        return;
+    }
+
+    // api.ts couldn't determine a specific model.
+    // Let's inspect the raw description for a hint for the notification.
+    let extractedTermForNotification = "";
+
+    // Try to extract model name from specific patterns first
+    const tokenBasedDescMatch = item.description.match(/^(\d+) token-based usage calls to ([\w.-]+),/i);
+    if (tokenBasedDescMatch && tokenBasedDescMatch[2]) {
+        extractedTermForNotification = tokenBasedDescMatch[2].trim();
+    } else {
+        const extraFastMatch = item.description.match(/extra fast premium requests? \(([^)]+)\)/i);
+        if (extraFastMatch && extraFastMatch[1]) {
+            extractedTermForNotification = extraFastMatch[1].trim();
+        } else {
+            // General case: "N ACTUAL_MODEL_NAME_OR_PHRASE requests/calls"
+            const fullDescMatch = item.description.match(/^(\d+)\s+(.+?)(?: request| calls)?(?: beyond|\*| per|$)/i);
+            if (fullDescMatch && fullDescMatch[2]) {
+                extractedTermForNotification = fullDescMatch[2].trim();
+                // If it's discounted and starts with "discounted ", remove prefix
+                if (item.isDiscounted && extractedTermForNotification.toLowerCase().startsWith("discounted ")) {
+                    extractedTermForNotification = extractedTermForNotification.substring(11).trim();
+                }
+            } else {
+                // Fallback: first word after number if other patterns fail (less likely to be useful)
+                const simpleDescMatch = item.description.match(/^(\d+)\s+([\w.-]+)/i); // Changed to [\w.-]+
+                if (simpleDescMatch && simpleDescMatch[2]) {
+                    extractedTermForNotification = simpleDescMatch[2].trim();
+                }
+            }
+        }
+    }
+
+    // General cleanup of suffixes
+    extractedTermForNotification = extractedTermForNotification.replace(/requests?|calls?|beyond|\*|per|,$/gi, '').trim();
+    if (extractedTermForNotification.toLowerCase().endsWith(" usage")) {
+        extractedTermForNotification = extractedTermForNotification.substring(0, extractedTermForNotification.length - 6).trim();
+    }
+    // Ensure it's not an empty string after cleanup
+    if (extractedTermForNotification && 
+        extractedTermForNotification.length > 1 && // Meaningful length
+        extractedTermForNotification.toLowerCase() !== "token-based" &&
+        extractedTermForNotification.toLowerCase() !== "discounted") {
+
+        const veryGenericKeywords = [
+            'usage', 'calls', 'request', 'requests', 'cents', 'beyond', 'month', 'day',
+            'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+            'premium', 'extra', 'tool', 'fast', 'thinking'
+            // Model families like 'claude', 'gpt', 'gemini', 'o1' etc. are NOT here, 
+            // as "claude-x" should be flagged if "claude-x" is new.
+        ];
+
+        const isVeryGeneric = veryGenericKeywords.includes(extractedTermForNotification.toLowerCase());
+
+        if (!isVeryGeneric) {
+            const alreadyPresent = Array.from(detectedUnknownModels).some(d => d.toLowerCase().includes(extractedTermForNotification.toLowerCase()) || extractedTermForNotification.toLowerCase().includes(d.toLowerCase()));
+            if (!alreadyPresent) {
+                detectedUnknownModels.add(extractedTermForNotification);
+                log(`[Stats] Adding to detectedUnknownModels (api.ts flagged as unknown-model, extracted term): '${extractedTermForNotification}' from "${item.description}"`);
+            }
+        }
+    }
+}
 
 export async function updateStats(statusBarItem: vscode.StatusBarItem) {
     try {
         log('[Stats] ' +"=".repeat(100));
         log('[Stats] Starting stats update...');
+        // Start every cycle with an empty response cache so the status bar never shows data from a previous cycle
+        getCursorApiClient().clearCache();
         const token = await getCursorTokenFromDB();
        
         if (!token) {
             log('[Critical] No valid token found', true);
             statusBarItem.text = `$(alert) ${t('statusBar.noTokenFound')}`;
             statusBarItem.color = new vscode.ThemeColor('statusBarItem.errorBackground');
-            const tooltipLines = [
-                t('statusBar.couldNotRetrieveToken')
-            ];
-            statusBarItem.tooltip = await createMarkdownTooltip(tooltipLines, true);
+            statusBarItem.tooltip = renderErrorTooltip([t('statusBar.couldNotRetrieveToken')]);
             log('[Status Bar] Updated status bar with no token message');
             statusBarItem.show();
             log('[Status Bar] Status bar visibility updated after no token');
@@ -72,8 +158,10 @@ export async function updateStats(statusBarItem: vscode.StatusBarItem) {
 
         // Check usage-based status with team information if available (graceful fallback)
         let usageStatus: { isEnabled: boolean; limit?: number } = { isEnabled: false };
+        let usageStatusAvailable = false;
         try {
             usageStatus = await checkUsageBasedStatus(token, stats.teamId);
+            usageStatusAvailable = true;
             log(`[Stats] Usage-based pricing status: ${JSON.stringify(usageStatus)}`);
         } catch (error: any) {
             log(`[Stats] Usage-based status check failed (non-critical): ${error.message}`, true);
@@ -82,522 +170,347 @@ export async function updateStats(statusBarItem: vscode.StatusBarItem) {
             }
         }
         
-        let costText = '';
-        
-        // Calculate usage percentages
-        const premiumPercent = Math.round((stats.premiumRequests.current / stats.premiumRequests.limit) * 100);
-        let usageBasedPercent = 0;
-        let totalUsageText = '';
-
-        // Use current month if it has data or if we have team spend data, otherwise fall back to last month
-        const activeMonthData = (stats.currentMonth.usageBasedPricing.items.length > 0 || 
-                                (stats.isTeamSpendData && stats.teamSpendCents !== undefined)) 
-            ? stats.currentMonth 
-            : stats.lastMonth;
-        
-        log(`[Stats] Using ${activeMonthData === stats.currentMonth ? 'current' : 'last'} month data (${activeMonthData.month}/${activeMonthData.year})`);
-        
-        // For team members, prioritize team spend data if available
-        let actualTotalCost = 0;
-        let useTeamSpendData = false;
-        
-        if (stats.isTeamSpendData && stats.teamSpendCents !== undefined) {
-            // Use team spend data (convert from cents to dollars)
-            actualTotalCost = stats.teamSpendCents / 100;
-            useTeamSpendData = true;
-            log(`[Stats] Using team spend data: ${stats.teamSpendCents} cents = $${actualTotalCost.toFixed(2)}`);
-        } else if (activeMonthData.usageBasedPricing.items.length > 0) {
-            const items = activeMonthData.usageBasedPricing.items;
-            
-            // Calculate actual total cost (sum of positive items only) - fallback for non-team members
-            actualTotalCost = items.reduce((sum, item) => {
-                const cost = parseFloat(item.totalDollars.replace('$', ''));
-                // Only add positive costs (ignore mid-month payment credits)
-                return cost > 0 ? sum + cost : sum;
-            }, 0);
-            log(`[Stats] Using monthly invoice data: $${actualTotalCost.toFixed(2)}`);
-        }
-        
-        if (actualTotalCost > 0 || useTeamSpendData) {
-            // Usage-based requests are tracked separately and not added to the premium count
-            
-            // Calculate usage percentage based on actual total cost (always in USD)
-            if (usageStatus.isEnabled && usageStatus.limit) {
-                usageBasedPercent = (actualTotalCost / usageStatus.limit) * 100;
-            }
-            
-            // Convert actual cost currency for status bar display
-            const formattedActualCost = await convertAndFormatCurrency(actualTotalCost);
-            costText = ` $(credit-card) ${formattedActualCost}`;
-
-            // Status bar should only show premium requests count, not total
-            totalUsageText = ` ${stats.premiumRequests.current}/${stats.premiumRequests.limit}${costText}`;
-        } else {
-            totalUsageText = ` ${stats.premiumRequests.current}/${stats.premiumRequests.limit}`;
+        const workspaceRequests = await attributeWorkspaceRequests(stats);
+        const updatedAt = Date.now();
+        publishStats({ updatedAt, stats, usageStatus, usageStatusAvailable, workspaceRequests });
+        await displayStats(statusBarItem, { updatedAt, stats, usageStatus, usageStatusAvailable, workspaceRequests }, token);
+    } catch (error: any) {
+        const errorCount = incrementConsecutiveErrorCount();
+        log(`[Critical] API error: ${error.message}`, true);
+        recordRefreshFailure(error);
+        log(`[Refresh] Refresh failed ${errorCount} time(s) in a row, next attempt: ${JSON.stringify(getNextRefresh())}`);
+        if (lastTooltipModel) {
+            statusBarItem.tooltip = await renderTooltip({ ...lastTooltipModel, schedule: getNextRefresh() });
         }
+        log('[Status Bar] Status bar visibility updated after error');
+    }
+}
 
-        // Set status bar color based on usage type
-        // Always use only premium percent for color calculation, not combined totals
-        const usagePercent = premiumPercent;
+/**
+ * Renders stats in the status bar, tooltip and dashboard. Notifications and the usage
+ * history are left to the window that fetched the stats, which passes its token.
+ */
+async function displayStats(
+    statusBarItem: vscode.StatusBarItem,
+    { updatedAt, stats, usageStatus, usageStatusAvailable, workspaceRequests }: Omit<SharedStats, 'windowId'>,
+    token: string | null
+) {
+    let costText = '';
+    
+    // Calculate usage percentages
+    const premiumPercent = Math.round((stats.premiumRequests.current / stats.premiumRequests.limit) * 100);
+    let usageBasedPercent = 0;
+    let totalUsageText = '';
+
+    // Use current month if it has data or if we have team spend data, otherwise fall back to last month
+    const activeMonthData = (stats.currentMonth.usageBasedPricing.items.length > 0 || 
+                            (stats.isTeamSpendData && stats.teamSpendCents !== undefined)) 
+        ? stats.currentMonth 
+        : stats.lastMonth;
+    
+    log(`[Stats] Using ${activeMonthData === stats.currentMonth ? 'current' : 'last'} month data (${activeMonthData.month}/${activeMonthData.year})`);
+    
+    // For team members, prioritize team spend data if available
+    let actualTotalCost = 0;
+    let useTeamSpendData = false;
+    
+    if (stats.isTeamSpendData && stats.teamSpendCents !== undefined) {
+        // Use team spend data (convert from cents to dollars)
+        actualTotalCost = stats.teamSpendCents / 100;
+        useTeamSpendData = true;
+        log(`[Stats] Using team spend data: ${stats.teamSpendCents} cents = $${actualTotalCost.toFixed(2)}`);
+    } else if (activeMonthData.usageBasedPricing.items.length > 0) {
+        const items = activeMonthData.usageBasedPricing.items;
         
-        log(`[Stats] Color calculation details:`, {
-            premiumRequests: `${stats.premiumRequests.current}/${stats.premiumRequests.limit}`,
-            premiumPercent: premiumPercent,
-            usageBasedPercent: usageBasedPercent,
-            usageBasedEnabled: usageStatus.isEnabled,
-            finalUsagePercent: usagePercent
-        });
+        // Calculate actual total cost (sum of positive items only) - fallback for non-team members
+        actualTotalCost = items.reduce((sum, item) => {
+            const cost = parseFloat(item.totalDollars.replace('$', ''));
+            // Only add positive costs (ignore mid-month payment credits)
+            return cost > 0 ? sum + cost : sum;
+        }, 0);
+        log(`[Stats] Using monthly invoice data: $${actualTotalCost.toFixed(2)}`);
+    }
+    
+    if (actualTotalCost > 0 || useTeamSpendData) {
+        // Usage-based requests are tracked separately and not added to the premium count
+        
+        // Calculate usage percentage based on actual total cost (always in USD)
+        if (usageStatus.isEnabled && usageStatus.limit) {
+            usageBasedPercent = (actualTotalCost / usageStatus.limit) * 100;
+        }
         
-        statusBarItem.color = getStatusBarColor(usagePercent);
+        // Convert actual cost currency for status bar display
+        const formattedActualCost = await convertAndFormatCurrency(actualTotalCost);
+        costText = ` $(credit-card) ${formattedActualCost}`;
+
+        // Status bar should only show premium requests count, not total
+        totalUsageText = ` ${stats.premiumRequests.current}/${stats.premiumRequests.limit}${costText}`;
+    } else {
+        totalUsageText = ` ${stats.premiumRequests.current}/${stats.premiumRequests.limit}`;
+    }
 
-        // Build content first to determine width
-        const title = t('statusBar.cursorUsageStats');
-        const contentLines = [
-            title,
-            ''
-        ];
+    // Set status bar color based on usage type
+    // Always use only premium percent for color calculation, not combined totals
+    const usagePercent = premiumPercent;
+    
+    log(`[Stats] Color calculation details:`, {
+        premiumRequests: `${stats.premiumRequests.current}/${stats.premiumRequests.limit}`,
+        premiumPercent: premiumPercent,
+        usageBasedPercent: usageBasedPercent,
+        usageBasedEnabled: usageStatus.isEnabled,
+        finalUsagePercent: usagePercent
+    });
+    
+    statusBarItem.color = getStatusBarColor(usagePercent);
+
+    // Build the tooltip model once; all formatting happens in the tooltip renderer
+    const premiumPeriodStart = new Date(stats.premiumRequests.startOfMonth);
+    const premiumPeriodEnd = new Date(premiumPeriodStart);
+    premiumPeriodEnd.setMonth(premiumPeriodEnd.getMonth() + 1);
+
+    let usageBasedPeriod: TooltipPeriod | undefined;
+    const usageItems: TooltipUsageItem[] = [];
+
+    if (actualTotalCost > 0 || useTeamSpendData || activeMonthData.usageBasedPricing.items.length > 0) {
+        // Use the same billing cycle as premium requests since they share the same subscription start
+        const subscriptionStart = new Date(stats.premiumRequests.startOfMonth);
         
-        // Add Team Spend section if using team spend data
-        if (stats.isTeamSpendData) {
-            contentLines.push(t('statusBar.teamSpend'));
-        }
+        // Calculate the period start for the active month data
+        let periodStart = new Date(subscriptionStart);
+        periodStart.setMonth(subscriptionStart.getMonth());
+        periodStart.setFullYear(subscriptionStart.getFullYear());
         
-        contentLines.push(t('statusBar.premiumFastRequests'));
+        // Adjust to the active month's billing cycle
+        const monthDiff = (activeMonthData.year - subscriptionStart.getFullYear()) * 12 + 
+                         (activeMonthData.month - 1 - subscriptionStart.getMonth());
+        periodStart.setMonth(subscriptionStart.getMonth() + monthDiff);
+        periodStart.setFullYear(subscriptionStart.getFullYear() + Math.floor((subscriptionStart.getMonth() + monthDiff) / 12));
         
-        // Format premium requests progress with fixed decimal places
-        const premiumPercentFormatted = Math.round(premiumPercent);
-        const startDate = new Date(stats.premiumRequests.startOfMonth);
-        const endDate = new Date(startDate);
-        endDate.setMonth(endDate.getMonth() + 1);
-
-        const formatDateWithMonthName = (date: Date) => {
-            const day = date.getDate();
-            const monthNames = [
-                t('statusBar.months.january'),
-                t('statusBar.months.february'),
-                t('statusBar.months.march'),
-                t('statusBar.months.april'),
-                t('statusBar.months.may'),
-                t('statusBar.months.june'),
-                t('statusBar.months.july'),
-                t('statusBar.months.august'),
-                t('statusBar.months.september'),
-                t('statusBar.months.october'),
-                t('statusBar.months.november'),
-                t('statusBar.months.december')
-            ];
-            const monthName = monthNames[date.getMonth()];
-            return `${day} ${monthName}`;
-        };
-
-        contentLines.push(
-            formatTooltipLine(`   • ${stats.premiumRequests.current}/${stats.premiumRequests.limit} ${t('statusBar.requestsUsed')}`),
-            formatTooltipLine(`   📊 ${premiumPercentFormatted}% ${t('statusBar.utilized')}`),
-            formatTooltipLine(`   ${t('statusBar.fastRequestsPeriod')}: ${formatDateWithMonthName(startDate)} - ${formatDateWithMonthName(endDate)}`),
-            ''
-        );
+        // Calculate period end (same day of next month, matching premium requests logic)
+        let periodEnd = new Date(periodStart);
+        periodEnd.setMonth(periodEnd.getMonth() + 1);
 
-        // Add detailed model usage breakdown if available
-        try {
-            const userId = token.split('%3A%3A')[0];
-            const usageResponse = await axios.get<CursorUsageResponse>('https://cursor.com/api/usage', {
-                params: { user: userId },
-                headers: { Cookie: `WorkosCursorSessionToken=${token}` }
-            });
-            
-            const usageData = usageResponse.data;
-            
-            // Show team vs individual comparison if using team spend data
-            if (stats.isTeamSpendData) {
-                // Get team spend data for comparison
-                let teamSpendRequests = 'N/A';
-                try {
-                    const { checkTeamMembership, getTeamSpend, extractUserSpend } = await import('../services/team');
-                    const context = await import('../extension').then(m => m.getExtensionContext());
-                    const teamInfo = await checkTeamMembership(token, context);
-                    
-                    if (teamInfo.isTeamMember && teamInfo.teamId && teamInfo.userId) {
-                        const teamSpend = await getTeamSpend(token, teamInfo.teamId);
-                        const userSpend = extractUserSpend(teamSpend, teamInfo.userId);
-                        teamSpendRequests = (userSpend.fastPremiumRequests || 0).toString();
-                    }
-                } catch (error) {
-                    log('[Stats] Error fetching team spend for comparison: ' + error, true);
-                }
-                
-                contentLines.push(
-                    '🔍 **Data Source Information**',
-                    formatTooltipLine(`   • **Current Display**: Using GPT-4 individual data (${usageData['gpt-4'].numRequests} requests)`),
-                    formatTooltipLine(`   • **Team Spend Data**: ${teamSpendRequests} requests (may update slower)`),
-                    ''
-                );
-            }
-            
-            contentLines.push(
-                '📊 **Detailed Usage Breakdown**',
-                ''
-            );
-            
-            // Show data for each model with better labeling
-            Object.entries(usageData).forEach(([modelName, data]) => {
-                if (typeof data === 'object' && data !== null && 'numRequests' in data) {
-                    const modelData = data as any;
-                    const hasLimit = modelData.maxRequestUsage !== null;
-                    const hasTokens = modelData.numTokens > 0;
-                    
-                    let displayName = modelName;
-                    let description = '';
-                    
-                    // Better labeling based on your clarification
-                    if (modelName === 'gpt-4') {
-                        displayName = 'GPT-4 (Premium/Fast)';
-                        description = 'Fast premium requests';
-                    } else if (modelName === 'gpt-4-32k') {
-                        displayName = 'GPT-4-32k (Usage-Based)';
-                        description = 'Usage-based spending limit';
-                    } else if (modelName === 'gpt-3.5-turbo') {
-                        displayName = 'GPT-3.5-turbo';
-                        description = 'Legacy model';
-                    }
-                    
-                    let modelLine = `   • **${displayName}**: ${modelData.numRequests} requests`;
-                    if (hasLimit) {
-                        modelLine += ` / ${modelData.maxRequestUsage} limit`;
-                    }
-                    if (hasTokens) {
-                        modelLine += ` (${modelData.numTokens} tokens)`;
-                    }
-                    
-                    contentLines.push(formatTooltipLine(modelLine));
-                    
-                    // Add description for clarity
-                    if (description) {
-                        contentLines.push(formatTooltipLine(`     ${description}`));
-                    }
-                }
-            });
-            
-            contentLines.push(
-                '',
-                t('statusBar.usageBasedPricing')
-            );
-        } catch (error) {
-            // If we can't get detailed usage data, just continue with the regular flow
-            contentLines.push(t('statusBar.usageBasedPricing'));
-        }
+        usageBasedPeriod = { start: periodStart.toISOString(), end: periodEnd.toISOString() };
         
-        if (actualTotalCost > 0 || useTeamSpendData || activeMonthData.usageBasedPricing.items.length > 0) {
-            // Use the same billing cycle as premium requests since they share the same subscription start
-            const subscriptionStart = new Date(stats.premiumRequests.startOfMonth);
-            
-            // Calculate the period start for the active month data
-            let periodStart = new Date(subscriptionStart);
-            periodStart.setMonth(subscriptionStart.getMonth());
-            periodStart.setFullYear(subscriptionStart.getFullYear());
-            
-            // Adjust to the active month's billing cycle
-            const monthDiff = (activeMonthData.year - subscriptionStart.getFullYear()) * 12 + 
-                             (activeMonthData.month - 1 - subscriptionStart.getMonth());
-            periodStart.setMonth(subscriptionStart.getMonth() + monthDiff);
-            periodStart.setFullYear(subscriptionStart.getFullYear() + Math.floor((subscriptionStart.getMonth() + monthDiff) / 12));
-            
-            // Calculate period end (same day of next month, matching premium requests logic)
-            let periodEnd = new Date(periodStart);
-            periodEnd.setMonth(periodEnd.getMonth() + 1);
-            
-            contentLines.push(
-                formatTooltipLine(`   ${t('statusBar.usageBasedPeriod')}: ${formatDateWithMonthName(periodStart)} - ${formatDateWithMonthName(periodEnd)}`),
-            );
-            
-            // Calculate unpaid amount correctly (only for monthly invoice data, team spend is always current)
-            const unpaidAmount = useTeamSpendData ? 0 : Math.max(0, actualTotalCost - activeMonthData.usageBasedPricing.midMonthPayment);
-            
-            // Convert currency for tooltip
-            const currencyCode = getCurrentCurrency();
-            const formattedActualTotalCost = await convertAndFormatCurrency(actualTotalCost);
-            const formattedUnpaidAmount = await convertAndFormatCurrency(unpaidAmount);
-            const formattedLimit = await convertAndFormatCurrency(usageStatus.limit || 0);
-            
-            // Store original values for statusBar.ts to use, using actual total cost
-            const originalUsageData = {
-                usdTotalCost: actualTotalCost, // Use actual cost here
-                usdLimit: usageStatus.limit || 0,
-                percentage: usageBasedPercent
-            };
-            
-            if (useTeamSpendData) {
-                // For team spend data, show current usage without unpaid amount
-                contentLines.push(
-                    formatTooltipLine(`   ${t('statusBar.currentUsage')}: ${formattedActualTotalCost}`),
-                    formatTooltipLine(`   __USD_USAGE_DATA__:${JSON.stringify(originalUsageData)}`), // Hidden metadata line
-                    ''
-                );
-            } else if (activeMonthData.usageBasedPricing.midMonthPayment > 0) {
-                contentLines.push(
-                    formatTooltipLine(`   ${t('statusBar.currentUsage')} (${t('statusBar.total')}: ${formattedActualTotalCost} - ${t('statusBar.unpaid')}: ${formattedUnpaidAmount})`),
-                    formatTooltipLine(`   __USD_USAGE_DATA__:${JSON.stringify(originalUsageData)}`), // Hidden metadata line
-                    ''
-                );
-            } else {
-                contentLines.push(
-                    formatTooltipLine(`   ${t('statusBar.currentUsage')} (${t('statusBar.total')}: ${formattedActualTotalCost})`),
-                    formatTooltipLine(`   __USD_USAGE_DATA__:${JSON.stringify(originalUsageData)}`), // Hidden metadata line 
-                    ''
-                );
-            }
-            
-            // Only show detailed breakdown for monthly invoice data (not team spend)
-            if (!useTeamSpendData && activeMonthData.usageBasedPricing.items.length > 0) {
-                const items = activeMonthData.usageBasedPricing.items;
-                
-                // Determine the maximum length for formatted item costs for padding
-                let maxFormattedItemCostLength = 0;
-                for (const item of items) {
-                    if (item.description?.includes('Mid-month usage paid')) {
-                        continue;
-                    }
-                    const itemCost = parseFloat(item.totalDollars.replace('$', ''));
-                    // We format with 2 decimal places for display
-                    const tempFormattedCost = itemCost.toFixed(2); // Format to string with 2 decimals
-                    if (tempFormattedCost.length > maxFormattedItemCostLength) {
-                        maxFormattedItemCostLength = tempFormattedCost.length;
-                    }
+        // Only show detailed breakdown for monthly invoice data (not team spend)
+        if (!useTeamSpendData) {
+            for (const item of activeMonthData.usageBasedPricing.items) {
+                // Skip mid-month payment line item from the detailed list
+                if (item.description?.includes('Mid-month usage paid')) {
+                    continue;
                 }
 
-                for (const item of items) {
-                    // Skip mid-month payment line item from the detailed list
-                    if (item.description?.includes('Mid-month usage paid')) {
-                        continue;
-                    }
-
-                    // If the item has a description, use it to provide better context
-                    if (item.description) {
-                        // Logic for populating detectedUnknownModels for the notification
-                        // This now uses modelNameForTooltip as a primary signal from api.ts
-                        if (item.modelNameForTooltip === "unknown-model" && item.description) {
-                            // api.ts couldn't determine a specific model.
-                            // Let's inspect the raw description for a hint for the notification.
-                            let extractedTermForNotification = "";
-
-                            // Try to extract model name from specific patterns first
-                            const tokenBasedDescMatch = item.description.match(/^(\d+) token-based usage calls to ([\w.-]+),/i);
-                            if (tokenBasedDescMatch && tokenBasedDescMatch[2]) {
-                                extractedTermForNotification = tokenBasedDescMatch[2].trim();
-                            } else {
-                                const extraFastMatch = item.description.match(/extra fast premium requests? \(([^)]+)\)/i);
-                                if (extraFastMatch && extraFastMatch[1]) {
-                                    extractedTermForNotification = extraFastMatch[1].trim();
-                                } else {
-                                    // General case: "N ACTUAL_MODEL_NAME_OR_PHRASE requests/calls"
-                                    const fullDescMatch = item.description.match(/^(\d+)\s+(.+?)(?: request| calls)?(?: beyond|\*| per|$)/i);
-                                    if (fullDescMatch && fullDescMatch[2]) {
-                                        extractedTermForNotification = fullDescMatch[2].trim();
-                                        // If it's discounted and starts with "discounted ", remove prefix
-                                        if (item.isDiscounted && extractedTermForNotification.toLowerCase().startsWith("discounted ")) {
-                                            extractedTermForNotification = extractedTermForNotification.substring(11).trim();
-                                        }
-                                    } else {
-                                        // Fallback: first word after number if other patterns fail (less likely to be useful)
-                                        const simpleDescMatch = item.description.match(/^(\d+)\s+([\w.-]+)/i); // Changed to [\w.-]+
-                                        if (simpleDescMatch && simpleDescMatch[2]) {
-                                            extractedTermForNotification = simpleDescMatch[2].trim();
-                                        }
-                                    }
-                                }
-                            }
-                            
-                            // General cleanup of suffixes
-                            extractedTermForNotification = extractedTermForNotification.replace(/requests?|calls?|beyond|\*|per|,$/gi, '').trim();
-                            if (extractedTermForNotification.toLowerCase().endsWith(" usage")) {
-                                extractedTermForNotification = extractedTermForNotification.substring(0, extractedTermForNotification.length - 6).trim();
-                            }
-                            // Ensure it's not an empty string after cleanup
-                            if (extractedTermForNotification && 
-                                extractedTermForNotification.length > 1 && // Meaningful length
-                                extractedTermForNotification.toLowerCase() !== "token-based" &&
-                                extractedTermForNotification.toLowerCase() !== "discounted") {
-
-                                const veryGenericKeywords = [
-                                    'usage', 'calls', 'request', 'requests', 'cents', 'beyond', 'month', 'day',
-                                    'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
-                                    'premium', 'extra', 'tool', 'fast', 'thinking'
-                                    // Model families like 'claude', 'gpt', 'gemini', 'o1' etc. are NOT here, 
-                                    // as "claude-x" should be flagged if "claude-x" is new.
-                                ];
-                                
-                                const isVeryGeneric = veryGenericKeywords.includes(extractedTermForNotification.toLowerCase());
-
-                                if (!isVeryGeneric) {
-                                    const alreadyPresent = Array.from(detectedUnknownModels).some(d => d.toLowerCase().includes(extractedTermForNotification.toLowerCase()) || extractedTermForNotification.toLowerCase().includes(d.toLowerCase()));
-                                    if (!alreadyPresent) {
-                                        detectedUnknownModels.add(extractedTermForNotification);
-                                        log(`[Stats] Adding to detectedUnknownModels (api.ts flagged as unknown-model, extracted term): '${extractedTermForNotification}' from "${item.description}"`);
-                                    }
-                                }
-                            }
-                        }
-                        
-                        // Convert item cost for display
-                        const itemCost = parseFloat(item.totalDollars.replace('$', ''));
-                        let formattedItemCost = await convertAndFormatCurrency(itemCost);
-
-                        // Pad the numerical part of the formattedItemCost
-                        const currencySymbol = formattedItemCost.match(/^[^0-9-.\\,]*/)?.[0] || "";
-                        const numericalPart = formattedItemCost.substring(currencySymbol.length);
-                        const paddedNumericalPart = numericalPart.padStart(maxFormattedItemCostLength, '0');
-                        formattedItemCost = currencySymbol + paddedNumericalPart;
-                        
-                        let line = `   • ${item.calculation} ➜ &nbsp;&nbsp;**${formattedItemCost}**`;
-                        const modelName = item.modelNameForTooltip;
-                        let modelNameDisplay = ""; // Initialize for the model name part of the string
-
-                        if (modelName) { // Make sure modelName is there
-                            const isDiscounted = item.description && item.description.toLowerCase().includes("discounted");
-                            const isUnknown = modelName === "unknown-model";
-
-                            if (isDiscounted) {
-                                modelNameDisplay = `(${t('statusBar.discounted')} | ${isUnknown ? t('statusBar.unknownModel') : modelName})`;
-                            } else if (isUnknown) {
-                                modelNameDisplay = `(${t('statusBar.unknownModel')})`;
-                            } else {
-                                modelNameDisplay = `(${modelName})`;
-                            }
-                        }
-                        // If modelName was undefined or null, modelNameDisplay remains empty.
-
-                        if (modelNameDisplay) { // Only add spacing and display string if it's not empty
-                            const desiredTotalWidth = 70; // Adjust as needed for good visual alignment
-                            const currentLineWidth = line.replace(/\*\*/g, '').replace(/&nbsp;/g, ' ').length; // Approx length without markdown & html spaces
-                            const modelNameDisplayLength = modelNameDisplay.replace(/&nbsp;/g, ' ').length;
-                            const spacesNeeded = Math.max(1, desiredTotalWidth - currentLineWidth - modelNameDisplayLength);
-                            line += ' '.repeat(spacesNeeded) + `&nbsp;&nbsp;&nbsp;&nbsp;${modelNameDisplay}`;
-                        }
-                        contentLines.push(formatTooltipLine(line));
-
-                    } else {
-                        // Fallback for items without a description (should be rare but handle it)
-                        const itemCost = parseFloat(item.totalDollars.replace('$', ''));
-                        let formattedItemCost = await convertAndFormatCurrency(itemCost);
-
-                        // Pad the numerical part of the formattedItemCost
-                        const currencySymbol = formattedItemCost.match(/^[^0-9-.\\,]*/)?.[0] || "";
-                        const numericalPart = formattedItemCost.substring(currencySymbol.length);
-                        const paddedNumericalPart = numericalPart.padStart(maxFormattedItemCostLength, '0');
-                        formattedItemCost = currencySymbol + paddedNumericalPart;
-                        
-                        // Use a generic calculation string if item.calculation is also missing, or the original if available
-                        const calculationString = item.calculation || t('statusBar.unknownItem'); 
-                        contentLines.push(formatTooltipLine(`   • ${calculationString} ➜ &nbsp;&nbsp;**${formattedItemCost}**`));
-                    }
-                }
-            }
+                trackUnknownModel(item);
 
-            if (activeMonthData.usageBasedPricing.midMonthPayment > 0) {
-                const formattedMidMonthPayment = await convertAndFormatCurrency(activeMonthData.usageBasedPricing.midMonthPayment);
-                contentLines.push(
-                    '',
-                    formatTooltipLine(t('statusBar.youHavePaid', { amount: formattedMidMonthPayment }))
-                );
+                usageItems.push({
+                    calculation: item.calculation || t('statusBar.unknownItem'),
+                    requestCount: item.requestCount || 0,
+                    costDollars: parseFloat(item.totalDollars.replace('$', '')),
+                    modelName: item.modelNameForTooltip,
+                    isDiscounted: !!item.isDiscounted
+                });
             }
+        }
 
-            const formattedFinalCost = await convertAndFormatCurrency(actualTotalCost);
-            contentLines.push(
-                '',
-                formatTooltipLine(`💳 ${t('statusBar.totalCost')}: ${formattedFinalCost}`)
-            );
-
-            // Update costText for status bar here, using actual total cost
-            costText = ` $(credit-card) ${formattedFinalCost}`;
+        // Add spending notification check
+        if (token && usageStatus.isEnabled) {
+            setTimeout(() => {
+                checkAndNotifySpending(actualTotalCost, stats.premiumRequests.startOfMonth); // Check spending based on actual total cost
+            }, 1000);
 
-            // Add spending notification check
-            if (usageStatus.isEnabled) {
+            // The guardrail changes the personal limit, which does not apply to team spend
+            if (!useTeamSpendData && activeMonthData === stats.currentMonth) {
                 setTimeout(() => {
-                    checkAndNotifySpending(actualTotalCost); // Check spending based on actual total cost
+                    checkSpendingCap(token, actualTotalCost, stats.premiumRequests.startOfMonth, usageStatus.limit);
                 }, 1000);
             }
-        } else {
-            contentLines.push(`   ℹ️ ${t('statusBar.noUsageDataAvailable')}`);
         }
+    }
 
-        // Calculate separator width based on content
-        const maxWidth = getMaxLineWidth(contentLines);
-        const separator = createSeparator(maxWidth);
+    // Only project usage-based spend while the active data belongs to the running period
+    const premiumPeriod: TooltipPeriod = { start: premiumPeriodStart.toISOString(), end: premiumPeriodEnd.toISOString() };
+    const forecast = createUsageForecast(
+        stats.premiumRequests,
+        usageStatus.isEnabled && activeMonthData === stats.currentMonth
+            ? { costDollars: actualTotalCost, limitDollars: usageStatus.limit }
+            : null,
+        premiumPeriod
+    );
+
+    // The fetching window schedules the next refresh from what it found
+    if (token) {
+        recordRefreshSuccess(
+            `${stats.premiumRequests.current}|${actualTotalCost.toFixed(2)}`,
+            isNearLimit([premiumPercent, usageStatus.isEnabled ? usageBasedPercent : 0])
+        );
+    }
 
-        // Create final tooltip content with Last Updated at the bottom
-        // Filter out the metadata line before creating the final tooltip
-        const visibleContentLines = contentLines.filter(line => !line.includes('__USD_USAGE_DATA__'));
-        
-        const tooltipLines = [
-            title,
-            separator,
-            ...visibleContentLines.slice(1),
-            '',
-            formatTooltipLine(`🕒 ${t('time.lastUpdated')}: ${new Date().toLocaleString()}`),
-        ];
+    const activeWorkspace = getActiveWorkspace();
+    const tooltipModel: TooltipModel = {
+        premium: {
+            current: stats.premiumRequests.current,
+            limit: stats.premiumRequests.limit,
+            percentage: premiumPercent,
+            period: premiumPeriod
+        },
+        usageBased: usageStatusAvailable ? {
+            isEnabled: usageStatus.isEnabled,
+            limitDollars: usageStatus.limit,
+            totalCostDollars: actualTotalCost,
+            // Team spend data is always current, so there is nothing left unpaid
+            midMonthPaymentDollars: useTeamSpendData ? 0 : activeMonthData.usageBasedPricing.midMonthPayment,
+            period: usageBasedPeriod,
+            items: usageItems
+        } : null,
+        team: stats.teamId !== undefined ? {
+            teamId: stats.teamId,
+            teamName: stats.teamName,
+            usesTeamSpendData: useTeamSpendData,
+            personalLimitDollars: useTeamSpendData ? (stats.hardLimitOverrideDollars || 100) : undefined
+        } : null,
+        modelFamilies: aggregateByModelFamily([
+            ...stats.currentMonth.usageBasedPricing.items,
+            ...stats.lastMonth.usageBasedPricing.items
+        ]),
+        forecast,
+        workspace: activeWorkspace && workspaceRequests ? {
+            name: path.basename(activeWorkspace),
+            requests: workspaceRequests[activeWorkspace] || 0
+        } : null,
+        schedule: token ? getNextRefresh() : null,
+        updatedAt
+    };
+    if (token) {
+        lastTooltipModel = tooltipModel;
+    }
 
-        // Update usage based percent for notifications
-        usageBasedPercent = usageStatus.isEnabled ? usageBasedPercent : 0;
-        
-        log('[Status Bar] Updating status bar with new stats...');
-        statusBarItem.text = `$(graph)${totalUsageText}`;
-        statusBarItem.tooltip = await createMarkdownTooltip(tooltipLines, false, contentLines);
-        statusBarItem.show();
-        log('[Stats] Stats update completed successfully');
+    // Update usage based percent for notifications
+    usageBasedPercent = usageStatus.isEnabled ? usageBasedPercent : 0;
+    
+    log('[Status Bar] Updating status bar with new stats...');
+    statusBarItem.text = `$(graph)${totalUsageText}`;
+    statusBarItem.tooltip = await renderTooltip(tooltipModel);
+    statusBarItem.show();
+    log('[Stats] Stats update completed successfully');
+    const cacheStats = getCursorApiClient().getCacheStats();
+    log(`[Stats] API request cache: ${cacheStats.misses} requests, ${cacheStats.hits} cache hits, ${cacheStats.coalesced} coalesced (since activation)`);
+
+    // Keep a local time series of every successful refresh, once for all windows
+    if (token) {
+        recordSnapshot(stats, actualTotalCost, workspaceRequests);
+    }
 
-        // Show notifications after ensuring status bar is visible
-        if (usageStatus.isEnabled) {
-            setTimeout(() => {
-                // First check premium usage
-                const premiumPercent = Math.round((stats.premiumRequests.current / stats.premiumRequests.limit) * 100);
-                checkAndNotifyUsage({
-                    percentage: premiumPercent,
-                    type: 'premium'
-                });
+    // Refresh the dashboard if it is open
+    await updateDashboard({
+        stats,
+        usageBasedCostDollars: actualTotalCost,
+        hardLimitDollars: usageStatus.limit,
+        isUsageBasedEnabled: usageStatus.isEnabled,
+        updatedAt
+    });
+
+    // The window that fetched the stats shows the notifications
+    if (!token) {
+        return;
+    }
 
-                // Only check usage-based if premium is over limit
-                if (premiumPercent >= 100) {
-                    checkAndNotifyUsage({
-                        percentage: usageBasedPercent,
-                        type: 'usage-based',
-                        limit: usageStatus.limit,
-                        premiumPercentage: premiumPercent
-                    });
-                }
+    // Limit policies change the personal limit, which does not apply to team spend.
+    // The next scheduled refresh shows the new limit.
+    if (!useTeamSpendData) {
+        const spentDollars = activeMonthData === stats.currentMonth ? actualTotalCost : 0;
+        setTimeout(() => {
+            applyLimitPolicies(token, spentDollars, premiumPeriodEnd, getSpendingCapSettings().cap);
+        }, 1000);
+    }
 
-                if (activeMonthData.usageBasedPricing.hasUnpaidMidMonthInvoice) {
-                    checkAndNotifyUnpaidInvoice(token);
-                }
-            }, 1000);
-        } else {
-            setTimeout(() => {
+    // Show notifications after ensuring status bar is visible
+    if (usageStatus.isEnabled) {
+        setTimeout(() => {
+            // First check premium usage
+            const premiumPercent = Math.round((stats.premiumRequests.current / stats.premiumRequests.limit) * 100);
+            checkAndNotifyUsage({
+                percentage: premiumPercent,
+                type: 'premium',
+                periodStart: stats.premiumRequests.startOfMonth
+            });
+
+            // Only check usage-based if premium is over limit
+            if (premiumPercent >= 100) {
                 checkAndNotifyUsage({
-                    percentage: premiumPercent,
-                    type: 'premium'
+                    percentage: usageBasedPercent,
+                    type: 'usage-based',
+                    periodStart: stats.premiumRequests.startOfMonth,
+                    limit: usageStatus.limit,
+                    premiumPercentage: premiumPercent
                 });
-            }, 1000);
-        }
+            }
 
-        // The main notification for unknown models is now based on the populated detectedUnknownModels set
-        if (!unknownModelNotificationShown && detectedUnknownModels.size > 0) {
-            unknownModelNotificationShown = true; // Show once per session globally
-            const unknownModelsString = Array.from(detectedUnknownModels).join(", ");
-            log(`[Stats] Showing notification for aggregated unknown models: ${unknownModelsString}`);
-            
-            vscode.window.showInformationMessage(
-                t('notifications.unknownModelsDetected', { models: unknownModelsString }),
-                t('commands.createReport'),
-                t('commands.openGitHubIssues')
-            ).then(selection => {
-                if (selection === t('commands.createReport')) {
-                    vscode.commands.executeCommand('cursor-stats.createReport');
-                } else if (selection === t('commands.openGitHubIssues')) {
-                    vscode.env.openExternal(vscode.Uri.parse('https://github.com/Dwtexe/cursor-stats/issues/new'));
-                }
+            if (activeMonthData.usageBasedPricing.hasUnpaidMidMonthInvoice) {
+                checkAndNotifyUnpaidInvoice(token, stats.premiumRequests.startOfMonth);
+            }
+
+            checkAndNotifyProjectedSpend(forecast);
+        }, 1000);
+    } else {
+        setTimeout(() => {
+            checkAndNotifyUsage({
+                percentage: premiumPercent,
+                type: 'premium',
+                periodStart: stats.premiumRequests.startOfMonth
             });
-        }
+        }, 1000);
+    }
+
+    // Team admins can be alerted about the spend of every member
+    if (stats.isTeamSpendData && stats.teamId) {
+        const teamId = stats.teamId;
+        setTimeout(() => {
+            checkAndNotifyTeamSpend(token, teamId);
+        }, 1500);
+    }
+
+    // The main notification for unknown models is now based on the populated detectedUnknownModels set
+    if (!unknownModelNotificationShown && detectedUnknownModels.size > 0) {
+        unknownModelNotificationShown = true; // Show once per session globally
+        const unknownModelsString = Array.from(detectedUnknownModels).join(", ");
+        log(`[Stats] Showing notification for aggregated unknown models: ${unknownModelsString}`);
+        
+        vscode.window.showInformationMessage(
+            t('notifications.unknownModelsDetected', { models: unknownModelsString }),
+            t('commands.createReport'),
+            t('commands.openGitHubIssues')
+        ).then(selection => {
+            if (selection === t('commands.createReport')) {
+                vscode.commands.executeCommand('cursor-stats.createReport');
+            } else if (selection === t('commands.openGitHubIssues')) {
+                vscode.env.openExternal(vscode.Uri.parse('https://github.com/Dwtexe/cursor-stats/issues/new'));
+            }
+        });
+    }
+}
+
+/**
+ * Renders stats another window fetched
+ */
+export async function displaySharedStats(statusBarItem: vscode.StatusBarItem, shared: SharedStats) {
+    try {
+        log(`[Stats] Showing stats fetched by another window at ${new Date(shared.updatedAt).toISOString()}`);
+        await displayStats(statusBarItem, shared, null);
     } catch (error: any) {
-        const errorCount = incrementConsecutiveErrorCount();
-        log(`[Critical] API error: ${error.message}`, true);
-        log('[Status Bar] Status bar visibility updated after error');
+        log(`[Stats] Error showing shared stats: ${error.message}`, true);
+    }
+}
+
+/**
+ * Shows the stats another window fetched within the refresh interval, or fetches
+ * them when there are none or this window polls
+ */
+export async function refreshStats(statusBarItem: vscode.StatusBarItem) {
+    const shared = readSharedStats();
+    if (shared && (Date.now() - shared.updatedAt < getRefreshIntervalMs() || !isLeaderWindow())) {
+        // Older stats of another window are shown until it polls again or this window takes over
+        await displaySharedStats(statusBarItem, shared);
+    } else {
+        await updateStats(statusBarItem);
     }
 }
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { UsageEvent, UsageEventKind } from '../interfaces/types';
+import { log } from './logger';
+
+// Keeps the detailed invoice of a busy month from growing without bound
+export const MAX_USAGE_EVENTS = 5000;
+export const USAGE_EVENTS_PAGE_SIZE = 50;
+
+export interface UsageEventsPage {
+  events: UsageEvent[];
+  // Zero based, clamped to the pages that exist
+  page: number;
+  pageCount: number;
+  // Events matching the query across all pages
+  total: number;
+}
+
+export function isUsageEventsEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration('cursorStats');
+  return config.get<boolean>('includeUsageEvents', false);
+}
+
+type RawRecord = { [key: string]: unknown };
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    // Epoch milliseconds come as strings, older events use ISO dates
+    const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return isNaN(timestamp) ? undefined : timestamp;
+  }
+  return undefined;
+}
+
+function parseKind(kind: unknown, costCents: number): UsageEventKind {
+  const value = typeof kind === 'string' ? kind.toUpperCase() : '';
+  if (value.includes('USAGE_BASED')) {
+    return 'usageBased';
+  }
+  if (value.includes('INCLUDED')) {
+    return 'included';
+  }
+  if (value.includes('NOT_CHARGED') || value.includes('ERRORED') || value.includes('ABORTED')) {
+    return 'notCharged';
+  }
+  return costCents > 0 ? 'usageBased' : 'other';
+}
+
+/**
+ * Reads the model from the event, or from the details older events nest it in,
+ * e.g. `{ details: { toolCallComposer: { modelIntent: 'claude-3.5-sonnet' } } }`
+ */
+function parseModel(event: RawRecord): string {
+  if (typeof event.model === 'string' && event.model) {
+    return event.model;
+  }
+  const details = isRecord(event.details) ? Object.values(event.details) : [];
+  for (const detail of details) {
+    const modelIntent = isRecord(detail) ? detail.modelIntent : undefined;
+    if (typeof modelIntent === 'string' && modelIntent) {
+      return modelIntent;
+    }
+  }
+  return 'unknown';
+}
+
+function parseCostCents(event: RawRecord): number {
+  const tokenUsage = isRecord(event.tokenUsage) ? event.tokenUsage : {};
+  const candidates = [tokenUsage.totalCents, event.priceCents, event.cents];
+  const cents = candidates.find((value): value is number => typeof value === 'number');
+  if (cents !== undefined) {
+    return cents;
+  }
+  return typeof event.usdCost === 'number' ? event.usdCost * 100 : 0;
+}
+
+/**
+ * Turns one raw usage event into a typed record, or undefined if it has no timestamp
+ */
+export function parseUsageEvent(event: unknown): UsageEvent | undefined {
+  if (!isRecord(event)) {
+    return undefined;
+  }
+  const timestamp = parseTimestamp(event.timestamp);
+  if (timestamp === undefined) {
+    return undefined;
+  }
+
+  const costCents = parseCostCents(event);
+  return {
+    timestamp,
+    model: parseModel(event),
+    kind: parseKind(event.kind, costCents),
+    requests: typeof event.requestsCosts === 'number' ? event.requestsCosts : 1,
+    costCents,
+  };
+}
+
+/**
+ * Parses the usage events of an invoice, newest first, keeping at most MAX_USAGE_EVENTS
+ */
+export function parseUsageEvents(rawEvents: unknown[]): UsageEvent[] {
+  const events = rawEvents
+    .map(parseUsageEvent)
+    .filter((event): event is UsageEvent => event !== undefined)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  if (events.length > MAX_USAGE_EVENTS) {
+    log(`[API] Keeping the newest ${MAX_USAGE_EVENTS} of ${events.length} usage events`);
+    return events.slice(0, MAX_USAGE_EVENTS);
+  }
+  return events;
+}
+
+/**
+ * Returns one page of the events whose model contains the query, ignoring case
+ */
+export function getUsageEventsPage(
+  events: UsageEvent[],
+  query: string,
+  page: number,
+  pageSize: number = USAGE_EVENTS_PAGE_SIZE,
+): UsageEventsPage {
+  const needle = query.trim().toLowerCase();
+  const matching = needle ? events.filter((event) => event.model.toLowerCase().includes(needle)) : events;
+
+  const pageCount = Math.max(1, Math.ceil(matching.length / pageSize));
+  const clampedPage = Math.min(Math.max(0, page), pageCount - 1);
+  return {
+    events: matching.slice(clampedPage * pageSize, (clampedPage + 1) * pageSize),
+    page: clampedPage,
+    pageCount,
+    total: matching.length,
+  };
+}